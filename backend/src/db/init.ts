@@ -58,12 +58,53 @@ export interface AnalyticsEvent {
   createdAt: number;
 }
 
+// Anonymized risk score from a single scan, used for industry benchmarks
+export interface ScanScore {
+  id: string;
+  industry: string;
+  score: number;
+  createdAt: number; // Rounded to the day
+}
+
+// Findings of one shared LLM analysis
+export interface SharedAnalysisResult {
+  risks: Array<{
+    category: string;
+    severity: string;
+    title: string;
+    summary: string;
+    originalText: string;
+  }>;
+  summary: string;
+  overallSeverity: string;
+}
+
+// LLM analysis shared between users, keyed by agreement content hash
+export interface SharedAnalysis {
+  hash: string;
+  model: string;
+  promptVersion: number;
+  result: SharedAnalysisResult | null; // Served once enough clients submitted matching findings
+  publishedAt?: number;
+  // Submissions waiting for another client to confirm them
+  candidates: Array<{
+    fingerprint: string; // Categories and severities of the findings
+    result: SharedAnalysisResult;
+    submitters: string[]; // Hashed client IPs
+  }>;
+  hits: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
 export interface DatabaseSchema {
   users: User[];
   subscriptions: Subscription[];
   leads: Lead[];
   feedback: Feedback[];
   events: AnalyticsEvent[];
+  scanScores: ScanScore[];
+  analyses: SharedAnalysis[];
 }
 
 const defaultData: DatabaseSchema = {
@@ -72,6 +113,8 @@ const defaultData: DatabaseSchema = {
   leads: [],
   feedback: [],
   events: [],
+  scanScores: [],
+  analyses: [],
 };
 
 // Simple JSON file database
@@ -88,7 +131,8 @@ class JsonDatabase {
     try {
       if (fs.existsSync(this.filePath)) {
         const content = fs.readFileSync(this.filePath, 'utf-8');
-        this.data = JSON.parse(content);
+        // Fill in collections added after the file was created
+        this.data = { ...defaultData, ...JSON.parse(content) };
       } else {
         this.data = { ...defaultData };
       }
@@ -10,6 +10,8 @@ import feedbackRouter from './routes/feedback';
 import webhooksRouter from './routes/webhooks';
 import analyticsRouter from './routes/analytics';
 import bugsRouter from './routes/bugs';
+import benchmarksRouter from './routes/benchmarks';
+import analysesRouter from './routes/analyses';
 import { initDatabase } from './db/init';
 
 // Load environment variables
@@ -18,6 +20,9 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Behind the host's proxy, so req.ip is the client rather than the proxy
+app.set('trust proxy', 1);
+
 // Ensure data directory exists
 const dataDir = path.join(__dirname, '../data');
 if (!fs.existsSync(dataDir)) {
@@ -46,6 +51,8 @@ app.use('/api/subscription', subscriptionRouter);
 app.use('/api/feedback', feedbackRouter);
 app.use('/api/analytics', analyticsRouter);
 app.use('/api/bugs', bugsRouter);
+app.use('/api/benchmarks', benchmarksRouter);
+app.use('/api/analyses', analysesRouter);
 app.use('/webhooks', webhooksRouter);
 
 // Health check
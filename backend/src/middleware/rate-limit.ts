@@ -0,0 +1,41 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+// Expired clients are swept once this many are being tracked
+const MAX_TRACKED_CLIENTS = 10000;
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number; // Requests allowed per client per window
+}
+
+/**
+ * Limits how often each client IP can call a route, in fixed windows kept in memory
+ */
+export function rateLimit({ windowMs, max }: RateLimitOptions): RequestHandler {
+  const clients = new Map<string, { count: number; resetAt: number }>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    const key = req.ip || 'unknown';
+
+    let client = clients.get(key);
+    if (!client || client.resetAt <= now) {
+      client = { count: 0, resetAt: now + windowMs };
+      clients.set(key, client);
+    }
+    client.count++;
+
+    if (clients.size > MAX_TRACKED_CLIENTS) {
+      for (const [ip, entry] of clients) {
+        if (entry.resetAt <= now) clients.delete(ip);
+      }
+    }
+
+    if (client.count > max) {
+      res.setHeader('Retry-After', String(Math.ceil((client.resetAt - now) / 1000)));
+      return res.status(429).json({ error: 'Too many requests' });
+    }
+
+    next();
+  };
+}
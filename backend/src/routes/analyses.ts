@@ -0,0 +1,219 @@
+import crypto from 'crypto';
+import { Router, Request, Response } from 'express';
+import { getDatabase, SharedAnalysis, SharedAnalysisResult } from '../db/init';
+import { rateLimit } from '../middleware/rate-limit';
+
+const router = Router();
+
+// Oldest entries are evicted past this size
+const MAX_ANALYSES = 5000;
+
+// Submissions are anonymous, so an analysis is only served once this many
+// different clients have submitted the same findings
+const MIN_AGREEING_SUBMITTERS = 2;
+
+// Unconfirmed submissions kept per agreement
+const MAX_CANDIDATES = 5;
+
+// Published analyses are confirmed again after this long
+const MAX_ANALYSIS_AGE = 30 * 24 * 60 * 60 * 1000;
+
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+const VALID_SEVERITIES = ['low', 'medium', 'high', 'critical'];
+
+// Mirrors RiskCategory in the extension
+const VALID_CATEGORIES = [
+  'data_sharing',
+  'auto_renewal',
+  'third_party_access',
+  'liability_waiver',
+  'arbitration',
+  'data_retention',
+  'account_termination',
+  'jurisdiction',
+  'unilateral_changes',
+  'content_license',
+  'indemnification',
+  'biometric_data',
+  'location_tracking',
+  'price_changes',
+  'no_refunds',
+  'ai_training',
+];
+
+// Get a shared analysis for an agreement hash
+router.get('/:hash', async (req: Request, res: Response) => {
+  try {
+    const { hash } = req.params;
+    const { model, promptVersion } = req.query;
+
+    if (!HASH_PATTERN.test(hash) || typeof model !== 'string' || !promptVersion) {
+      return res.status(400).json({ error: 'Hash, model and prompt version required' });
+    }
+
+    const db = await getDatabase();
+    const entry = db.data!.analyses.find(a =>
+      a.hash === hash && a.model === model && a.promptVersion === Number(promptVersion)
+    );
+
+    if (!entry || !isPublished(entry)) {
+      return res.status(404).json({ error: 'Analysis not found' });
+    }
+
+    entry.hits++;
+    entry.lastUsedAt = Date.now();
+    await db.write();
+
+    res.json({ result: entry.result, createdAt: entry.publishedAt });
+
+  } catch (error) {
+    console.error('Error getting shared analysis:', error);
+    res.status(500).json({ error: 'Failed to get analysis' });
+  }
+});
+
+// Share an analysis for an agreement hash
+router.put('/:hash', rateLimit({ windowMs: 60 * 60 * 1000, max: 30 }), async (req: Request, res: Response) => {
+  try {
+    const { hash } = req.params;
+    const { model, promptVersion, result } = req.body as {
+      model?: unknown;
+      promptVersion?: unknown;
+      result?: unknown;
+    };
+
+    if (!HASH_PATTERN.test(hash) || typeof model !== 'string' || typeof promptVersion !== 'number') {
+      return res.status(400).json({ error: 'Hash, model and prompt version required' });
+    }
+
+    if (!isValidResult(result)) {
+      return res.status(400).json({ error: 'Invalid analysis result' });
+    }
+
+    const db = await getDatabase();
+    const now = Date.now();
+    let entry = db.data!.analyses.find(a =>
+      a.hash === hash && a.model === model && a.promptVersion === promptVersion
+    );
+
+    if (entry && isPublished(entry)) {
+      return res.json({ stored: false });
+    }
+
+    if (!entry) {
+      entry = { hash, model, promptVersion, result: null, candidates: [], hits: 0, createdAt: now, lastUsedAt: now };
+      db.data!.analyses.push(entry);
+    } else if (entry.result) {
+      // Expired: start collecting confirmations again
+      entry.result = null;
+      entry.publishedAt = undefined;
+    }
+    entry.candidates ||= [];
+
+    const submitter = hashClient(req);
+    const fingerprint = fingerprintResult(result);
+    const candidate = entry.candidates.find(c => c.fingerprint === fingerprint);
+
+    if (!candidate) {
+      entry.candidates.push({ fingerprint, result, submitters: [submitter] });
+      if (entry.candidates.length > MAX_CANDIDATES) entry.candidates.shift();
+    } else if (!candidate.submitters.includes(submitter)) {
+      candidate.submitters.push(submitter);
+    }
+
+    // Confirmed by another client: publish it
+    const confirmed = entry.candidates.find(c => c.submitters.length >= MIN_AGREEING_SUBMITTERS);
+    if (confirmed) {
+      entry.result = confirmed.result;
+      entry.publishedAt = now;
+      entry.candidates = [];
+    }
+    entry.lastUsedAt = now;
+
+    if (db.data!.analyses.length > MAX_ANALYSES) {
+      db.data!.analyses.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+      db.data!.analyses.length = MAX_ANALYSES;
+    }
+
+    await db.write();
+
+    res.json({ stored: true, published: Boolean(confirmed) });
+
+  } catch (error) {
+    console.error('Error storing shared analysis:', error);
+    res.status(500).json({ error: 'Failed to store analysis' });
+  }
+});
+
+/**
+ * Checks if an analysis has been confirmed and hasn't expired
+ */
+function isPublished(entry: SharedAnalysis): boolean {
+  return Boolean(entry.result && entry.publishedAt && Date.now() - entry.publishedAt < MAX_ANALYSIS_AGE);
+}
+
+/**
+ * Identifies a client without storing its IP
+ */
+function hashClient(req: Request): string {
+  return crypto.createHash('sha256').update(req.ip || 'unknown').digest('hex').substring(0, 16);
+}
+
+/**
+ * Summarizes findings by category and severity, so two clients' analyses
+ * of the same agreement can be compared
+ * Free text isn't compared: clients only use a shared analysis's
+ * categories, severities and quotes they find in their own copy
+ */
+function fingerprintResult(result: SharedAnalysisResult): string {
+  const findings = new Set(result.risks.map(risk => `${risk.category}:${risk.severity}`));
+  return [...findings].sort().join(',');
+}
+
+/**
+ * Checks if a request body value is an object, not null or an array
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks if a value is a string no longer than `maxLength`
+ */
+function isStringWithin(value: unknown, maxLength: number): value is string {
+  return typeof value === 'string' && value.length <= maxLength;
+}
+
+/**
+ * Checks if a value is one of the allowed strings
+ */
+function isOneOf(value: unknown, allowed: string[]): value is string {
+  return typeof value === 'string' && allowed.includes(value);
+}
+
+/**
+ * Checks the shape of one risk in a submitted analysis
+ */
+function isValidRisk(risk: unknown): risk is SharedAnalysisResult['risks'][number] {
+  return isRecord(risk) &&
+    isOneOf(risk.category, VALID_CATEGORIES) &&
+    isOneOf(risk.severity, VALID_SEVERITIES) &&
+    isStringWithin(risk.title, 200) &&
+    isStringWithin(risk.summary, 1000) &&
+    isStringWithin(risk.originalText, 5000);
+}
+
+/**
+ * Checks the shape of a submitted analysis result
+ */
+function isValidResult(result: unknown): result is SharedAnalysisResult {
+  if (!isRecord(result)) return false;
+  if (!isStringWithin(result.summary, 2000)) return false;
+  if (!isOneOf(result.overallSeverity, VALID_SEVERITIES)) return false;
+  if (!Array.isArray(result.risks) || result.risks.length > 100) return false;
+
+  return result.risks.every(isValidRisk);
+}
+
+export default router;
@@ -0,0 +1,139 @@
+import { Router, Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabase, ScanScore } from '../db/init';
+import { rateLimit } from '../middleware/rate-limit';
+
+const router = Router();
+
+const VALID_INDUSTRIES = [
+  'social_media',
+  'ecommerce',
+  'saas',
+  'finance',
+  'healthcare',
+  'streaming',
+  'gaming',
+  'default',
+];
+
+// Industries need this many scores before their distribution is published
+const MIN_SAMPLE_SIZE = 20;
+
+// Only the most recent scores are used so benchmarks follow current terms
+const MAX_SCORE_AGE = 365 * 24 * 60 * 60 * 1000;
+
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
+// The extension sends its queued scores about once a minute, in batches of at most this many
+const MAX_BATCH_SIZE = 50;
+
+interface BenchmarkDistribution {
+  count: number;
+  mean: number;
+  percentiles: number[]; // Score at every 5th percentile, 0 through 100
+}
+
+/**
+ * Checks a submitted score is one the extension could have produced
+ */
+function isValidScore(value: unknown): value is { industry: string; score: number } {
+  if (!value || typeof value !== 'object') return false;
+  const { industry, score } = value as Record<string, unknown>;
+
+  return typeof industry === 'string' && VALID_INDUSTRIES.includes(industry) &&
+    typeof score === 'number' && Number.isFinite(score) && score >= 0 && score <= 100;
+}
+
+// Submit anonymized scan scores (batch)
+router.post('/scores', rateLimit({ windowMs: 60 * 60 * 1000, max: 120 }), async (req: Request, res: Response) => {
+  try {
+    const { scores } = req.body as { scores?: unknown };
+
+    if (!scores || !Array.isArray(scores)) {
+      return res.status(400).json({ error: 'Scores array required' });
+    }
+    if (scores.length > MAX_BATCH_SIZE) {
+      return res.status(413).json({ error: `At most ${MAX_BATCH_SIZE} scores per batch` });
+    }
+
+    const valid = scores.filter(isValidScore);
+
+    const db = await getDatabase();
+    const today = Math.floor(Date.now() / ONE_DAY) * ONE_DAY;
+
+    // Scores too old to count toward benchmarks are dropped as new ones arrive
+    const cutoff = Date.now() - MAX_SCORE_AGE;
+    db.data!.scanScores = db.data!.scanScores.filter(entry => entry.createdAt >= cutoff);
+
+    for (const { industry, score } of valid) {
+      const entry: ScanScore = {
+        id: uuidv4(),
+        industry,
+        score: Math.round(score),
+        createdAt: today,
+      };
+      db.data!.scanScores.push(entry);
+    }
+
+    await db.write();
+
+    res.json({ received: valid.length });
+
+  } catch (error) {
+    console.error('Error storing scan scores:', error);
+    res.status(500).json({ error: 'Failed to store scores' });
+  }
+});
+
+// Get score distributions per industry
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const db = await getDatabase();
+    const cutoff = Date.now() - MAX_SCORE_AGE;
+
+    const scoresByIndustry: Record<string, number[]> = {};
+    for (const entry of db.data!.scanScores) {
+      if (entry.createdAt < cutoff) continue;
+      (scoresByIndustry[entry.industry] ||= []).push(entry.score);
+    }
+
+    // Every score also counts toward the overall distribution
+    scoresByIndustry.default = Object.values(scoresByIndustry).flat();
+
+    const industries: Record<string, BenchmarkDistribution> = {};
+    for (const [industry, scores] of Object.entries(scoresByIndustry)) {
+      if (scores.length >= MIN_SAMPLE_SIZE) {
+        industries[industry] = buildDistribution(scores);
+      }
+    }
+
+    res.json({ industries, generatedAt: Date.now() });
+
+  } catch (error) {
+    console.error('Error getting benchmarks:', error);
+    res.status(500).json({ error: 'Failed to get benchmarks' });
+  }
+});
+
+/**
+ * Builds a percentile distribution from raw scores
+ */
+function buildDistribution(scores: number[]): BenchmarkDistribution {
+  const sorted = [...scores].sort((a, b) => a - b);
+  const percentiles: number[] = [];
+
+  for (let p = 0; p <= 100; p += 5) {
+    const index = Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length));
+    percentiles.push(sorted[index]);
+  }
+
+  const mean = sorted.reduce((sum, score) => sum + score, 0) / sorted.length;
+
+  return {
+    count: sorted.length,
+    mean: Math.round(mean * 10) / 10,
+    percentiles,
+  };
+}
+
+export default router;
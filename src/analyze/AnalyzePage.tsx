@@ -0,0 +1,236 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AgreementDetection, ScanResult, Settings, STORAGE_KEYS } from '../shared/types';
+import { DEFAULT_SETTINGS, FREE_SCANS_PER_MONTH } from '../shared/constants';
+import { resolveJurisdiction } from '../shared/jurisdictions';
+import { runScanPipeline } from '../content/scan-pipeline';
+import { overlay } from '../content/overlay';
+import { lawyerModal } from '../content/LawyerModal';
+import { loadRulePacks } from '../services/rule-packs';
+import { loadBenchmarks } from '../services/benchmarks';
+import { getUsage, incrementUsage } from '../services/usage';
+import {
+  AgreementDocument,
+  SUPPORTED_DOCUMENT_EXTENSIONS,
+  readDocument,
+  readPastedText,
+} from '../services/document-reader';
+import Analytics from '../services/analytics';
+
+type Status = 'idle' | 'reading' | 'scanning' | 'done';
+
+// Shorter texts are unlikely to be an agreement
+const MIN_AGREEMENT_LENGTH = 200;
+
+export function AnalyzePage() {
+  const [pastedText, setPastedText] = useState('');
+  const [status, setStatus] = useState<Status>('idle');
+  const [error, setError] = useState('');
+  const [dragging, setDragging] = useState(false);
+  const [lastResult, setLastResult] = useState<ScanResult | null>(null);
+  const [scansRemaining, setScansRemaining] = useState(FREE_SCANS_PER_MONTH);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    // Load imported rule packs before any analysis runs
+    loadRulePacks().catch(error => {
+      console.warn('[ProtectYaNeck] Failed to load rule packs, using core rules:', error);
+    });
+    loadBenchmarks().catch(() => {
+      // Comparisons fall back to static averages
+    });
+  }, []);
+
+  async function analyzeFile(file: File) {
+    setError('');
+    setStatus('reading');
+
+    try {
+      await analyzeDocument(await readDocument(file));
+    } catch (err) {
+      console.error('[ProtectYaNeck] Failed to read document:', err);
+      setError(err instanceof Error ? err.message : 'Could not read this file.');
+      setStatus('idle');
+    }
+  }
+
+  async function analyzePasted() {
+    setError('');
+    await analyzeDocument({ name: 'Pasted text', text: readPastedText(pastedText) });
+  }
+
+  async function analyzeDocument(agreement: AgreementDocument) {
+    if (agreement.text.length < MIN_AGREEMENT_LENGTH) {
+      setError('There is not enough text here to analyze. Paste or upload the full agreement.');
+      setStatus('idle');
+      return;
+    }
+
+    // Check usage limits
+    const usage = await getUsage();
+    if (usage.tier === 'free' && FREE_SCANS_PER_MONTH - usage.scansThisMonth <= 0) {
+      overlay.showLimitReached();
+      setStatus('idle');
+      return;
+    }
+
+    Analytics.scanStarted();
+    const scanStartTime = Date.now();
+    setStatus('scanning');
+    overlay.showScanning();
+
+    try {
+      const settings = await getSettings();
+      await incrementUsage();
+      const remaining = FREE_SCANS_PER_MONTH - (await getUsage()).scansThisMonth;
+      setScansRemaining(remaining);
+
+      let shownResults = false;
+      const result = await runScanPipeline(agreement.text, {
+        url: chrome.runtime.getURL('analyze.html'),
+        detection: classifyDocument(agreement),
+        jurisdiction: resolveJurisdiction(settings.jurisdiction),
+        documentName: agreement.name,
+        pages: agreement.pages,
+        onProgress: (completed, total) => overlay.updateScanProgress(completed, total),
+        onResult: (latest) => {
+          setLastResult(latest);
+
+          // Don't bring back an overlay the user closed
+          if (shownResults && !overlay.isVisible()) return;
+          overlay.showResults(latest, remaining, () => lawyerModal.show(latest));
+          shownResults = true;
+        },
+      });
+
+      Analytics.scanCompleted(result.risks.length, Date.now() - scanStartTime);
+
+      // Saved to history like a page scan
+      chrome.runtime.sendMessage({ type: 'SCAN_COMPLETE', payload: result });
+      setStatus('done');
+    } catch (err) {
+      console.error('[ProtectYaNeck] Scan error:', err);
+      Analytics.errorOccurred('scan_failed');
+      overlay.destroy();
+      setError('Something went wrong while analyzing this document.');
+      setStatus('idle');
+    }
+  }
+
+  function handleDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setDragging(false);
+
+    const file = e.dataTransfer.files[0];
+    if (file) {
+      analyzeFile(file);
+    } else {
+      // Text dragged from another window
+      const text = e.dataTransfer.getData('text/plain');
+      if (text) setPastedText(text);
+    }
+  }
+
+  const busy = status === 'reading' || status === 'scanning';
+
+  return (
+    <div className="analyze-page">
+      <header className="analyze-header">
+        <div className="logo">
+          <span className="shield">🛡️</span>
+          <h1>Analyze a Document</h1>
+        </div>
+      </header>
+
+      <p className="section-description">
+        Check an agreement that arrived by email or as a file. It runs through the same
+        analysis as web pages and is saved to your scan history.
+      </p>
+
+      <div
+        className={`analyze-dropzone${dragging ? ' dragging' : ''}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+      >
+        <span className="analyze-dropzone-icon">📄</span>
+        <p>Drop a document here, or</p>
+        <button className="btn btn-secondary" onClick={() => fileInput.current?.click()} disabled={busy}>
+          Choose File
+        </button>
+        <p className="analyze-formats">{SUPPORTED_DOCUMENT_EXTENSIONS.join(' ')}</p>
+        <input
+          ref={fileInput}
+          type="file"
+          accept={SUPPORTED_DOCUMENT_EXTENSIONS.join(',')}
+          hidden
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) analyzeFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div className="analyze-paste">
+        <textarea
+          value={pastedText}
+          onChange={(e) => setPastedText(e.target.value)}
+          placeholder="…or paste the agreement text here"
+          rows={12}
+        />
+        <div className="analyze-actions">
+          <button className="btn btn-upgrade" onClick={analyzePasted} disabled={busy || !pastedText.trim()}>
+            {busy ? 'Analyzing…' : 'Analyze Text'}
+          </button>
+          {lastResult && !busy && (
+            <button
+              className="btn btn-secondary"
+              onClick={() => overlay.showResults(lastResult, scansRemaining, () => lawyerModal.show(lastResult))}
+            >
+              Show Last Results
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="error">{error}</p>}
+      {status === 'reading' && <p className="analyze-status">Reading document…</p>}
+      {status === 'done' && <p className="analyze-status">Saved to your scan history.</p>}
+    </div>
+  );
+}
+
+/**
+ * Guesses what kind of agreement a document is from its name and opening text
+ */
+function classifyDocument(agreement: AgreementDocument): AgreementDetection {
+  // The name and opening lines say more than clauses that mention other policies
+  const heading = `${agreement.name} ${agreement.title || ''} ${agreement.text.substring(0, 300)}`;
+  const sample = agreement.text.substring(0, 2000);
+
+  let type: AgreementDetection['type'] = 'unknown';
+  for (const text of [heading, sample]) {
+    if (/privacy/i.test(text)) type = 'privacy';
+    else if (/terms (of (service|use)|and conditions)|user agreement|\btos\b/i.test(text)) type = 'tos';
+    if (type !== 'unknown') break;
+  }
+
+  return {
+    isAgreement: true,
+    confidence: 1,
+    type,
+    title: agreement.title || agreement.name,
+    url: chrome.runtime.getURL('analyze.html'),
+  };
+}
+
+/**
+ * Gets current settings from storage
+ */
+async function getSettings(): Promise<Settings> {
+  const result = await chrome.storage.local.get(STORAGE_KEYS.SETTINGS);
+  return result[STORAGE_KEYS.SETTINGS] || DEFAULT_SETTINGS;
+}
@@ -1,5 +1,19 @@
-import { STORAGE_KEYS, UsageData, Settings, AgreementDetection, ScanResult } from '../shared/types';
+import {
+  STORAGE_KEYS,
+  UsageData,
+  Settings,
+  AgreementDetection,
+  AgreementChange,
+  ScanResult,
+  SitePolicy,
+  Industry,
+} from '../shared/types';
 import { DEFAULT_SETTINGS, DEFAULT_USAGE, FREE_SCANS_PER_MONTH, API_URL } from '../shared/constants';
+import { MAX_SCORE_BATCH_SIZE, refreshBenchmarks, submitScanScores } from '../services/benchmarks';
+import { checkWatchedAgreements, trackAcceptedAgreement, htmlToText, htmlTitle } from '../services/agreement-monitor';
+import { saveSitePolicy } from '../services/site-policies';
+import { arrayBufferToBase64 } from '../shared/base64';
+import { isPublicWebUrl } from '../shared/urls';
 
 /**
  * Background service worker for ProtectYaNeck
@@ -18,6 +32,9 @@ let analyticsQueue: QueuedAnalyticsEvent[] = [];
 const ANALYTICS_BATCH_INTERVAL = 60000; // 1 minute
 const ANALYTICS_BATCH_SIZE = 20;
 
+// Anonymized scan scores waiting to be sent for industry benchmarks
+let scoreQueue: Array<{ industry: Industry; score: number }> = [];
+
 // Initialize storage on install
 chrome.runtime.onInstalled.addListener(async (details) => {
   if (details.reason === 'install') {
@@ -49,12 +66,39 @@ chrome.runtime.onInstalled.addListener(async (details) => {
 // Set up analytics batch sending alarm
 chrome.alarms.create('sendAnalyticsBatch', { periodInMinutes: 1 });
 
+// Refresh industry benchmarks daily
+chrome.alarms.create('refreshBenchmarks', { delayInMinutes: 1, periodInMinutes: 24 * 60 });
+
+// Re-check agreed terms and privacy policies for changes daily
+chrome.alarms.create('checkAgreements', { delayInMinutes: 10, periodInMinutes: 24 * 60 });
+
 chrome.alarms.onAlarm.addListener((alarm) => {
   if (alarm.name === 'sendAnalyticsBatch') {
     flushAnalyticsQueue();
+    flushScoreQueue();
+  }
+
+  if (alarm.name === 'refreshBenchmarks') {
+    refreshBenchmarks();
+  }
+
+  if (alarm.name === 'checkAgreements') {
+    checkAgreementsForChanges();
   }
 });
 
+// Open the diff viewer when a change notification is clicked
+chrome.notifications.onClicked.addListener(async (notificationId) => {
+  const result = await chrome.storage.local.get(STORAGE_KEYS.AGREEMENT_CHANGES);
+  const changes: AgreementChange[] = result[STORAGE_KEYS.AGREEMENT_CHANGES] || [];
+  const change = changes.find(c => c.id === notificationId);
+
+  if (change) {
+    chrome.tabs.create({ url: chrome.runtime.getURL(`diff.html?change=${encodeURIComponent(change.id)}`) });
+  }
+  chrome.notifications.clear(notificationId);
+});
+
 // Message handler
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   switch (message.type) {
@@ -66,6 +110,10 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       handleScanComplete(message.payload as ScanResult);
       break;
 
+    case 'AGREEMENT_ACCEPTED':
+      handleAgreementAccepted(message.payload as { policy: SitePolicy; scan: ScanResult });
+      break;
+
     case 'GET_USAGE':
       getUsage().then(sendResponse);
       return true;
@@ -90,9 +138,127 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     case 'GET_ANALYTICS_SUMMARY':
       getAnalyticsSummary().then(sendResponse);
       return true;
+
+    case 'FETCH_PDF':
+      fetchPdf(message.url as string).then(sendResponse);
+      return true;
+
+    case 'FETCH_AGREEMENT':
+      fetchLinkedAgreement(message.url as string, sender).then(sendResponse);
+      return true;
+
+    case 'EXTRACT_PDF_TEXT':
+      extractPdfText(message.data as string).then(sendResponse);
+      return true;
   }
 });
 
+/**
+ * Downloads a PDF for a content script blocked by the page's CORS policy
+ * The URL comes from the page, so the user's cookies are never sent with it
+ */
+async function fetchPdf(url: string): Promise<{ data?: string; error?: string }> {
+  if (!isPublicWebUrl(url)) return { error: 'Unsupported link' };
+
+  try {
+    const response = await fetch(url, { credentials: 'omit' });
+    if (!response.ok) return { error: `HTTP ${response.status}` };
+    if (!isPublicWebUrl(response.url)) return { error: 'Unsupported link' };
+    return { data: arrayBufferToBase64(await response.arrayBuffer()) };
+  } catch (error) {
+    console.warn('[ProtectYaNeck] Failed to fetch PDF:', error);
+    return { error: 'Could not download the PDF' };
+  }
+}
+
+/**
+ * Fetches an agreement linked from a sign-up form, as text or (for PDFs) raw bytes
+ * The URL comes from the page, so the user's cookies are never sent with it,
+ * and only public pages the sending page actually links to are fetched
+ */
+async function fetchLinkedAgreement(
+  url: string,
+  sender: chrome.runtime.MessageSender
+): Promise<{ text?: string; title?: string; pdf?: string; error?: string }> {
+  if (!isPublicWebUrl(url) || !(await isLinkedFrom(sender, url))) return { error: 'Unsupported link' };
+
+  try {
+    const response = await fetch(url, { credentials: 'omit' });
+    if (!response.ok) return { error: `HTTP ${response.status}` };
+    if (!isPublicWebUrl(response.url)) return { error: 'Unsupported link' };
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('application/pdf') || /\.pdf$/i.test(new URL(response.url).pathname)) {
+      return { pdf: arrayBufferToBase64(await response.arrayBuffer()) };
+    }
+
+    const html = await response.text();
+    return { text: htmlToText(html), title: htmlTitle(html) };
+  } catch (error) {
+    console.warn('[ProtectYaNeck] Failed to fetch linked agreement:', url, error);
+    return { error: 'Could not load this document' };
+  }
+}
+
+/**
+ * Checks that the frame a message came from has a link to a URL, so content
+ * scripts can't be used to fetch arbitrary pages
+ */
+async function isLinkedFrom(sender: chrome.runtime.MessageSender, url: string): Promise<boolean> {
+  if (sender.tab?.id === undefined) return false;
+
+  try {
+    const [injection] = await chrome.scripting.executeScript({
+      target: { tabId: sender.tab.id, frameIds: [sender.frameId ?? 0] },
+      func: (linkUrl: string) => Array.from(document.querySelectorAll<HTMLAnchorElement>('a[href]'))
+        .some(anchor => anchor.href.split('#')[0] === linkUrl),
+      args: [url],
+    });
+    return injection?.result === true;
+  } catch (error) {
+    console.warn('[ProtectYaNeck] Failed to check agreement link:', error);
+    return false;
+  }
+}
+
+// Only one offscreen document can exist, so concurrent parses share its creation
+let creatingOffscreenDocument: Promise<void> | null = null;
+
+/**
+ * Extracts a PDF's text for a content script, in the offscreen document
+ * that holds the parser
+ */
+async function extractPdfText(data: string): Promise<{ pdf?: unknown; error?: string }> {
+  try {
+    await ensureOffscreenDocument();
+    return await chrome.runtime.sendMessage({ type: 'PARSE_PDF', data });
+  } catch (error) {
+    console.warn('[ProtectYaNeck] Failed to extract PDF text:', error);
+    return { error: 'Could not read the PDF' };
+  }
+}
+
+/**
+ * Opens the offscreen document unless it's already open
+ */
+async function ensureOffscreenDocument(): Promise<void> {
+  const contexts = await chrome.runtime.getContexts({
+    contextTypes: [chrome.runtime.ContextType.OFFSCREEN_DOCUMENT],
+  });
+  if (contexts.length > 0) return;
+
+  if (!creatingOffscreenDocument) {
+    creatingOffscreenDocument = chrome.offscreen.createDocument({
+      url: 'offscreen.html',
+      reasons: [chrome.offscreen.Reason.DOM_PARSER],
+      justification: 'Parse the text of PDF agreements',
+    }).finally(() => {
+      creatingOffscreenDocument = null;
+    });
+  }
+  await creatingOffscreenDocument;
+}
+
 /**
  * Handles agreement detection notification from content script
  */
@@ -130,6 +296,11 @@ async function handleScanComplete(result: ScanResult): Promise<void> {
     });
   }
 
+  // Contribute the anonymized score to industry benchmarks
+  if (typeof result.score === 'number' && result.industry) {
+    scoreQueue.push({ industry: result.industry, score: result.score });
+  }
+
   // Save to history (limit to last 50 scans)
   const history = await getScanHistory();
   history.unshift(result);
@@ -137,6 +308,86 @@ async function handleScanComplete(result: ScanResult): Promise<void> {
   await chrome.storage.local.set({ [STORAGE_KEYS.SCAN_HISTORY]: trimmedHistory });
 }
 
+/**
+ * Remembers the user's decision for the site, adds an "accepted on" record
+ * to the scan of the accepted agreement, or a new scan if there isn't one,
+ * and starts watching its terms and privacy pages
+ */
+async function handleAgreementAccepted({ policy, scan }: { policy: SitePolicy; scan: ScanResult }): Promise<void> {
+  await saveSitePolicy(policy);
+
+  const accepted = { acceptedAt: policy.acceptedAt, mode: policy.mode, agreementHash: policy.agreementHash };
+  const history = await getScanHistory();
+  const index = history.findIndex(entry => entry.url === scan.url && documentHashes(entry) === documentHashes(scan));
+
+  if (index >= 0) {
+    history[index] = { ...history[index], accepted };
+  } else {
+    history.unshift({ ...scan, accepted });
+  }
+  await chrome.storage.local.set({ [STORAGE_KEYS.SCAN_HISTORY]: history.slice(0, 50) });
+
+  // Start watching the accepted terms and privacy pages for changes
+  const settings = await getSettings();
+  if (settings.watchAgreements !== false) {
+    await trackAcceptedAgreement(scan);
+  }
+}
+
+/**
+ * Identifies the documents a scan covered by their text hashes
+ */
+function documentHashes(scan: ScanResult): string {
+  return [scan.textHash, ...(scan.linkedAgreements || []).map(linked => linked.textHash)]
+    .filter(Boolean)
+    .sort()
+    .join(',');
+}
+
+/**
+ * Re-fetches watched agreements and notifies the user about changes
+ */
+async function checkAgreementsForChanges(): Promise<void> {
+  const settings = await getSettings();
+  if (!settings.enabled || settings.watchAgreements === false) return;
+
+  const changes = await checkWatchedAgreements(await getScanHistory());
+  changes.forEach(notifyAgreementChange);
+}
+
+/**
+ * Shows a notification listing the risks added and removed in a changed agreement
+ */
+function notifyAgreementChange(change: AgreementChange): void {
+  let hostname = change.url;
+  try {
+    hostname = new URL(change.url).hostname;
+  } catch {
+    // Fall back to the full URL
+  }
+
+  const items = [
+    ...change.addedRisks.map(risk => ({ title: `+ ${risk.title}`, message: risk.originalText })),
+    ...change.removedRisks.map(risk => ({ title: `− ${risk.title}`, message: risk.originalText })),
+  ];
+
+  const clauseSummary = `${change.addedClauses.length} clause${change.addedClauses.length === 1 ? '' : 's'} added, ` +
+    `${change.removedClauses.length} removed`;
+
+  chrome.notifications.create(change.id, items.length > 0 ? {
+    type: 'list',
+    iconUrl: 'icons/icon-128.png',
+    title: `Terms changed: ${hostname}`,
+    message: clauseSummary,
+    items: items.slice(0, 5),
+  } : {
+    type: 'basic',
+    iconUrl: 'icons/icon-128.png',
+    title: `Terms changed: ${hostname}`,
+    message: `${clauseSummary}. No risks were added or removed.`,
+  });
+}
+
 /**
  * Gets current usage data
  */
@@ -294,6 +545,29 @@ async function flushAnalyticsQueue(): Promise<void> {
   }
 }
 
+/**
+ * Sends queued scan scores when analytics is enabled
+ */
+async function flushScoreQueue(): Promise<void> {
+  if (scoreQueue.length === 0) return;
+
+  const result = await chrome.storage.local.get('analyticsSettings');
+  if (!result.analyticsSettings?.enabled) {
+    scoreQueue = [];
+    return;
+  }
+
+  // A backlog is sent a batch at a time, one per flush
+  const scoresToSend = scoreQueue.slice(0, MAX_SCORE_BATCH_SIZE);
+  scoreQueue = scoreQueue.slice(MAX_SCORE_BATCH_SIZE);
+
+  const sent = await submitScanScores(scoresToSend);
+  if (!sent) {
+    // Put scores back in queue to retry later
+    scoreQueue = [...scoresToSend, ...scoreQueue];
+  }
+}
+
 /**
  * Gets analytics summary from local storage
  */
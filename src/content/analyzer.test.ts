@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeRisks, calculateRiskScore, detectRedFlags } from './analyzer';
+import { detectQualifiers } from './qualifiers';
+import { RiskCategory, RiskItem, RiskSeverity } from '../shared/types';
+
+function risk(category: RiskCategory, severity: RiskSeverity): RiskItem {
+  return { id: `${category}-${severity}`, category, severity, title: '', summary: '', originalText: '' };
+}
+
+/**
+ * Qualifiers for the first occurrence of a phrase in a sentence
+ */
+function qualifiersFor(sentence: string, phrase: string) {
+  return detectQualifiers(sentence, sentence.indexOf(phrase), phrase.length);
+}
+
+describe('negation', () => {
+  it('negates the verb that governs the match', () => {
+    expect(qualifiersFor('We do not sell your data.', 'sell your data')).toContain('negated');
+    expect(qualifiersFor('We will never share your information with anyone.', 'share your information')).toContain('negated');
+  });
+
+  it("doesn't count a negated way out as a negated risk", () => {
+    expect(qualifiersFor('You cannot opt out of binding arbitration.', 'binding arbitration')).not.toContain('negated');
+    expect(qualifiersFor('You may not withdraw from binding arbitration.', 'binding arbitration')).not.toContain('negated');
+  });
+
+  it('ignores negation idioms', () => {
+    expect(qualifiersFor(
+      'Nothing in these Terms limits our right to sell your personal information to advertisers.',
+      'sell your personal information'
+    )).not.toContain('negated');
+    expect(qualifiersFor(
+      'No later than 30 days after signup, we will share your personal information with advertising partners.',
+      'share your personal information'
+    )).not.toContain('negated');
+  });
+
+  it("doesn't negate a match governed by another verb", () => {
+    expect(qualifiersFor(
+      'We do not limit how we share your personal information with advertisers.',
+      'share your personal information'
+    )).not.toContain('negated');
+  });
+
+  it('ends at a new clause', () => {
+    expect(qualifiersFor("We don't rent lists, but we sell your data.", 'sell your data')).not.toContain('negated');
+  });
+});
+
+describe('analyzeRisks regressions', () => {
+  it.each([
+    ['You cannot opt out of binding arbitration.', 'arbitration'],
+    ['Nothing in these Terms limits our right to sell your personal information to advertisers.', 'data_sharing'],
+    ['No later than 30 days after signup, we will share your personal information with advertising partners.', 'data_sharing'],
+    ['We do not limit how we share your personal information with advertisers.', 'data_sharing'],
+  ])('reports "%s"', (sentence, category) => {
+    const risk = analyzeRisks(sentence).find(r => r.category === category);
+
+    expect(risk).toBeDefined();
+    expect(risk!.qualifiers ?? []).not.toContain('negated');
+    expect(risk!.severity).not.toBe('low');
+  });
+
+  it('keeps the red flags of those sentences', () => {
+    expect(detectRedFlags('You cannot opt out of binding arbitration.')).not.toHaveLength(0);
+    expect(detectRedFlags('Nothing in these Terms limits our right to sell your personal information.')).not.toHaveLength(0);
+    expect(detectRedFlags('We do not limit how we sell your personal information to advertisers.')).not.toHaveLength(0);
+  });
+
+  it('lowers the severity of negated matches instead of dropping them', () => {
+    const risks = analyzeRisks('We do not sell your data to anyone.');
+
+    expect(risks).toHaveLength(1);
+    expect(risks[0].qualifiers).toContain('negated');
+    expect(risks[0].severity).toBe('low');
+  });
+});
+
+describe('calculateRiskScore', () => {
+  it('leaves room below 100 for an agreement with ten risky clauses', () => {
+    const score = calculateRiskScore([
+      risk('data_sharing', 'high'),
+      risk('data_sharing', 'high'),
+      risk('data_sharing', 'medium'),
+      risk('arbitration', 'critical'),
+      risk('arbitration', 'high'),
+      risk('auto_renewal', 'medium'),
+      risk('auto_renewal', 'medium'),
+      risk('liability_waiver', 'high'),
+      risk('unilateral_changes', 'medium'),
+      risk('data_retention', 'low'),
+    ]);
+
+    expect(score).toBeGreaterThanOrEqual(70);
+    expect(score).toBeLessThan(100);
+  });
+
+  it('weighs repeats in a category less than risks in new categories', () => {
+    const repeated = calculateRiskScore([risk('data_sharing', 'high'), risk('data_sharing', 'high'), risk('data_sharing', 'high')]);
+    const spread = calculateRiskScore([risk('data_sharing', 'high'), risk('content_license', 'high'), risk('price_changes', 'high')]);
+    const single = calculateRiskScore([risk('data_sharing', 'high')]);
+
+    expect(repeated).toBeGreaterThan(single);
+    expect(repeated).toBeLessThan(spread);
+  });
+});
@@ -1,120 +1,365 @@
-import { RiskItem, RiskCategory, RiskSeverity } from '../shared/types';
-import { RISK_KEYWORDS, RISK_CATEGORIES } from '../shared/constants';
-import { analyzeWithLLM, getAPIKey } from '../services/llm-analyzer';
-
-// Dangerous clause combinations that increase severity
-const DANGEROUS_COMBINATIONS: Array<{
-  categories: RiskCategory[];
-  severityBoost: number;
-  warning: string;
-}> = [
-  {
-    categories: ['arbitration', 'liability_waiver'],
-    severityBoost: 1,
-    warning: 'Combined arbitration and liability waiver severely limits your legal options',
-  },
-  {
-    categories: ['data_sharing', 'third_party_access', 'data_retention'],
-    severityBoost: 1,
-    warning: 'Your data can be shared widely and kept indefinitely',
-  },
-  {
-    categories: ['auto_renewal', 'account_termination'],
-    severityBoost: 1,
-    warning: 'They can charge you automatically but terminate you at will',
-  },
-];
-
-// Red flag phrases that always indicate critical severity
-const RED_FLAGS = [
-  /waive\s+(your\s+)?right\s+to\s+(a\s+)?jury/i,
-  /class\s+action\s+waiver/i,
-  /binding\s+arbitration/i,
-  /sell\s+(your\s+)?(personal\s+)?(data|information)/i,
-  /perpetual\s+(and\s+)?irrevocable\s+license/i,
-  /without\s+(prior\s+)?notice/i,
-  /sole\s+(and\s+absolute\s+)?discretion/i,
-  /indemnify\s+(and\s+)?hold\s+harmless/i,
-  /waive\s+any\s+claims/i,
-  /no\s+refunds?\s+(under\s+any\s+circumstances)?/i,
-];
-
-// Average risk scores for comparison (would be populated from real data)
-const INDUSTRY_AVERAGES: Record<string, number> = {
+import {
+  RiskItem,
+  RiskCategory,
+  RiskSeverity,
+  RiskQualifier,
+  ProtectionItem,
+  ProtectionCategory,
+  Jurisdiction,
+  Industry,
+  LLMUsageTotals,
+} from '../shared/types';
+import { RISK_CATEGORIES, PROTECTION_PATTERNS, PROTECTION_CATEGORIES, INDUSTRIES } from '../shared/constants';
+import { JURISDICTION_RULES } from '../shared/jurisdictions';
+import { analyzeWithLLM, getLLMConfig, LLMProgressCallback } from '../services/llm-analyzer';
+import { getActiveRuleSet, renderSummaryTemplate, CompiledRule, PatternMatch } from '../services/rule-packs';
+import { getBenchmarkDistribution, percentileOf } from '../services/benchmarks';
+import { segmentClauses, formatSectionLabel } from './segmenter';
+import { detectQualifiers, isUserProtective } from './qualifiers';
+import { inferIndustry } from './industry';
+
+// Fallback average risk scores, used until the backend has enough benchmark data
+const INDUSTRY_AVERAGES: Record<Industry, number> = {
   'social_media': 72,
   'ecommerce': 58,
   'saas': 54,
   'finance': 68,
   'healthcare': 62,
+  'streaming': 56,
+  'gaming': 60,
   'default': 55,
 };
 
+// Callbacks for streaming LLM findings into keyword results
+export interface HybridAnalysisOptions {
+  jurisdiction?: Jurisdiction;
+  onProgress?: LLMProgressCallback;
+  onUpdate?: (risks: RiskItem[]) => void;
+}
+
 /**
- * Analyzes text for legal risks
- * Uses LLM when available, falls back to keyword matching
+ * Refines keyword results with LLM analysis
+ * LLM findings confirm, add to or overrule keyword hits as each chunk completes.
+ * Returns null when no LLM is configured or the analysis fails.
  */
-export async function analyzeRisksWithLLM(text: string): Promise<RiskItem[]> {
+export async function analyzeRisksWithLLM(
+  text: string,
+  keywordRisks: RiskItem[],
+  options: HybridAnalysisOptions = {}
+): Promise<{ risks: RiskItem[]; summary: string; usage?: LLMUsageTotals } | null> {
+  const config = await getLLMConfig();
+  if (!config) return null;
+
+  let risks = markAwaitingLLM(keywordRisks);
+
   try {
-    const apiKey = await getAPIKey();
-    if (apiKey) {
-      const result = await analyzeWithLLM(text, { apiKey });
-      return result.risks;
-    }
+    const result = await analyzeWithLLM(text, config, {
+      onProgress: options.onProgress,
+      onRisks: (llmRisks) => {
+        risks = mergeLLMRisks(risks, prepareLLMRisks(llmRisks, text, options.jurisdiction));
+        options.onUpdate?.(risks);
+      },
+    });
+
+    return { risks: finalizeLLMMerge(risks), summary: result.summary, usage: result.usage };
   } catch (error) {
     console.warn('[ProtectYaNeck] LLM analysis failed, using keyword matching:', error);
+    return null;
+  }
+}
+
+/**
+ * Tags keyword risks as waiting on LLM review
+ */
+export function markAwaitingLLM(risks: RiskItem[]): RiskItem[] {
+  return risks.map(risk => ({ ...risk, agreement: 'pending' }));
+}
+
+/**
+ * Labels LLM risks with their section and applies the user's jurisdiction
+ */
+function prepareLLMRisks(llmRisks: RiskItem[], text: string, jurisdiction?: Jurisdiction): RiskItem[] {
+  const clauses = segmentClauses(text);
+
+  const labeled = llmRisks.map(risk => {
+    const start = risk.location?.startIndex;
+    const clause = start === undefined ? undefined : clauses.find(c => c.startIndex <= start && start < c.endIndex);
+    const section = clause ? formatSectionLabel(clause) : undefined;
+    return section ? { ...risk, section } : risk;
+  });
+
+  return jurisdiction ? applyJurisdiction(labeled, jurisdiction) : labeled;
+}
+
+/**
+ * Merges LLM findings into the current results
+ * Matching keyword hits are confirmed; anything new is added as an LLM-only risk
+ */
+export function mergeLLMRisks(current: RiskItem[], llmRisks: RiskItem[]): RiskItem[] {
+  const merged = [...current];
+
+  for (const llmRisk of llmRisks) {
+    const index = merged.findIndex(risk => risk.category === llmRisk.category && risksOverlap(risk, llmRisk));
+
+    if (index === -1) {
+      merged.push({ ...llmRisk, source: 'llm', agreement: 'llm_only' });
+      continue;
+    }
+
+    const existing = merged[index];
+
+    if (existing.agreement === 'pending') {
+      // Keep the page's own wording and position, take the LLM's reading of it
+      merged[index] = {
+        ...existing,
+        severity: llmRisk.severity,
+        summary: llmRisk.summary || existing.summary,
+        jurisdictionNote: llmRisk.jurisdictionNote ?? existing.jurisdictionNote,
+        likelyUnenforceable: llmRisk.likelyUnenforceable ?? existing.likelyUnenforceable,
+        source: 'both',
+        agreement: 'confirmed',
+      };
+    } else if (severityRank(llmRisk.severity) > severityRank(existing.severity)) {
+      // The same clause reported twice (e.g. by overlapping chunks) keeps the higher severity
+      merged[index] = { ...existing, severity: llmRisk.severity };
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Marks keyword hits the LLM never confirmed as disputed and lowers their weight
+ */
+export function finalizeLLMMerge(risks: RiskItem[]): RiskItem[] {
+  return risks.map(risk => risk.agreement !== 'pending' ? risk : {
+    ...risk,
+    severity: shiftSeverity(risk.severity, -1),
+    confidence: risk.confidence !== undefined ? Math.round(risk.confidence * 50) / 100 : undefined,
+    agreement: 'disputed',
+  });
+}
+
+/**
+ * Checks if two risks point at the same clause
+ */
+function risksOverlap(a: RiskItem, b: RiskItem): boolean {
+  if (a.location && b.location) {
+    return a.location.startIndex < b.location.endIndex && b.location.startIndex < a.location.endIndex;
   }
 
-  // Fallback to keyword-based analysis
-  return analyzeRisks(text);
+  const quoteA = normalizeQuote(a.originalText);
+  const quoteB = normalizeQuote(b.originalText);
+  if (!quoteA || !quoteB) return true;
+
+  return quoteA.includes(quoteB) || quoteB.includes(quoteA);
 }
 
 /**
- * Analyzes text for legal risks using keyword matching
+ * Normalizes quoted text for comparison
+ */
+function normalizeQuote(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Analyzes text for legal risks using the active rule packs
  * This is a basic implementation used as fallback when LLM is not available
  */
-export function analyzeRisks(text: string): RiskItem[] {
+export function analyzeRisks(text: string, jurisdiction?: Jurisdiction): RiskItem[] {
   const risks: RiskItem[] = [];
-  const textLower = text.toLowerCase();
-
-  for (const [category, keywords] of Object.entries(RISK_KEYWORDS)) {
-    const riskCategory = category as RiskCategory;
-
-    for (const keyword of keywords) {
-      const keywordLower = keyword.toLowerCase();
-      const index = textLower.indexOf(keywordLower);
-
-      if (index !== -1) {
-        // Extract surrounding context (100 chars before and after)
-        const start = Math.max(0, index - 100);
-        const end = Math.min(text.length, index + keyword.length + 100);
-        const context = text.substring(start, end);
-
-        // Check if we already have a risk for this category
-        const existingRisk = risks.find(r => r.category === riskCategory);
-
-        if (!existingRisk) {
-          const categoryMeta = RISK_CATEGORIES[riskCategory];
-
-          risks.push({
-            id: `risk-${category}-${Date.now()}`,
-            category: riskCategory,
-            severity: determineSeverity(riskCategory, context),
-            title: categoryMeta.label,
-            summary: generateSummary(riskCategory, context),
-            originalText: context.trim(),
-            location: {
-              startIndex: index,
-              endIndex: index + keyword.length,
-            },
-          });
-        }
-
-        break; // Only need one match per category
+  const { rules } = getActiveRuleSet();
+
+  // Every clause that matches a category becomes its own risk
+  for (const clause of segmentClauses(text)) {
+    const candidates = new Map<RiskCategory, {
+      rule: CompiledRule;
+      match: PatternMatch;
+      matchCount: number;
+      qualifiers: RiskQualifier[];
+      severity: RiskSeverity;
+    }>();
+
+    for (const rule of rules) {
+      const matches = findRuleMatches(clause.text, rule);
+      if (matches.length === 0) continue;
+
+      // Use the least qualified match; negated ones stay, at a lower severity,
+      // since a misread negation shouldn't hide a risk
+      const qualified = matches
+        .map(match => ({ match, qualifiers: detectQualifiers(clause.text, match.index, match.length) }))
+        .sort((a, b) => a.qualifiers.length - b.qualifiers.length);
+
+      const { match, qualifiers } = qualified[0];
+      const baseSeverity = rule.severity || determineSeverity(rule.category, clause.text);
+      const adjustment = rule.severityModifiers
+        .filter(modifier => modifier.pattern.find(clause.text))
+        .reduce((total, modifier) => total + modifier.adjust, 0);
+      const severity = applyQualifiers(shiftSeverity(baseSeverity, adjustment), qualifiers);
+
+      // Keep the most severe rule per category for this clause
+      const existing = candidates.get(rule.category);
+      if (!existing || severityRank(severity) > severityRank(existing.severity)) {
+        candidates.set(rule.category, { rule, match, matchCount: matches.length, qualifiers, severity });
+      }
+    }
+
+    for (const [category, { rule, match, matchCount, qualifiers, severity }] of candidates) {
+      const categoryMeta = RISK_CATEGORIES[category];
+      const section = formatSectionLabel(clause);
+
+      risks.push({
+        id: `risk-${category}-${clause.startIndex}`,
+        category,
+        severity,
+        title: rule.title || categoryMeta.label,
+        summary: rule.summary
+          ? renderSummaryTemplate(rule.summary, {
+            label: categoryMeta.label,
+            match: clause.text.substring(match.index, match.index + match.length),
+            section,
+          })
+          : generateSummary(category, clause.text),
+        originalText: clause.text,
+        section,
+        confidence: calculateConfidence(matchCount, qualifiers),
+        qualifiers: qualifiers.length > 0 ? qualifiers : undefined,
+        source: 'keyword',
+        location: {
+          startIndex: clause.startIndex,
+          endIndex: clause.endIndex,
+        },
+      });
+    }
+  }
+
+  const adjusted = jurisdiction ? applyJurisdiction(risks, jurisdiction) : risks;
+  return adjusted.sort((a, b) => severityRank(b.severity) - severityRank(a.severity));
+}
+
+/**
+ * Adjusts severity and adds explanations based on the user's local consumer law
+ */
+export function applyJurisdiction(risks: RiskItem[], jurisdiction: Jurisdiction): RiskItem[] {
+  const rules = JURISDICTION_RULES[jurisdiction];
+
+  return risks.map(risk => {
+    const rule = rules[risk.category];
+    if (!rule) return risk;
+
+    return {
+      ...risk,
+      severity: shiftSeverity(risk.severity, rule.adjust),
+      jurisdictionNote: rule.note,
+      likelyUnenforceable: rule.unenforceable || undefined,
+    };
+  });
+}
+
+/**
+ * Detects consumer-friendly clauses such as arbitration opt-outs and deletion rights
+ */
+export function analyzeProtections(text: string): ProtectionItem[] {
+  const protections: ProtectionItem[] = [];
+
+  for (const clause of segmentClauses(text)) {
+    for (const [category, patterns] of Object.entries(PROTECTION_PATTERNS)) {
+      const protectionCategory = category as ProtectionCategory;
+
+      // "You may not opt out of arbitration" is not a protection
+      const isProtected = patterns.some(pattern => {
+        const match = clause.text.match(pattern);
+        if (!match) return false;
+        const qualifiers = detectQualifiers(clause.text, match.index ?? 0, match[0].length);
+        return !qualifiers.includes('negated') || protectionCategory === 'no_data_sale';
+      });
+
+      if (isProtected) {
+        protections.push({
+          id: `protection-${category}-${clause.startIndex}`,
+          category: protectionCategory,
+          title: PROTECTION_CATEGORIES[protectionCategory].label,
+          summary: generateProtectionSummary(protectionCategory),
+          originalText: clause.text,
+          section: formatSectionLabel(clause),
+          location: {
+            startIndex: clause.startIndex,
+            endIndex: clause.endIndex,
+          },
+        });
       }
     }
   }
 
-  return risks.sort((a, b) => severityRank(b.severity) - severityRank(a.severity));
+  return protections;
+}
+
+/**
+ * Finds the first match of each rule pattern, honoring proximity constraints
+ */
+function findRuleMatches(clauseText: string, rule: CompiledRule): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+
+  for (const pattern of rule.patterns) {
+    const match = pattern.find(clauseText);
+    if (match && satisfiesProximity(clauseText, match, rule)) {
+      matches.push(match);
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Checks that a proximity pattern appears close enough to the match
+ */
+function satisfiesProximity(clauseText: string, match: PatternMatch, rule: CompiledRule): boolean {
+  if (!rule.proximity) return true;
+
+  const { patterns, within } = rule.proximity;
+  const windowStart = Math.max(0, match.index - within);
+  const windowEnd = Math.min(clauseText.length, match.index + match.length + within);
+  const window = clauseText.substring(windowStart, windowEnd);
+
+  return patterns.some(pattern => pattern.find(window) !== null);
+}
+
+/**
+ * Moves a severity up or down by a number of steps
+ */
+function shiftSeverity(severity: RiskSeverity, steps: number): RiskSeverity {
+  const ordered: RiskSeverity[] = ['low', 'medium', 'high', 'critical'];
+  const index = Math.min(ordered.length - 1, Math.max(0, severityRank(severity) - 1 + steps));
+  return ordered[index];
+}
+
+/**
+ * Downgrades severity for negated or narrowed clauses
+ */
+function applyQualifiers(severity: RiskSeverity, qualifiers: RiskQualifier[]): RiskSeverity {
+  // "We never sell your data" is a promise, not a risk
+  if (isUserProtective(qualifiers)) return 'low';
+
+  let steps = 0;
+  if (qualifiers.includes('negated')) {
+    steps = 2; // "We do not share your data except as required by law"
+  } else if (qualifiers.includes('exception') || qualifiers.includes('scoped')) {
+    steps = 1;
+  }
+
+  return shiftSeverity(severity, -steps);
+}
+
+/**
+ * Estimates how confident the keyword match is (0-1)
+ */
+function calculateConfidence(matchCount: number, qualifiers: RiskQualifier[]): number {
+  let confidence = Math.min(0.95, 0.8 + (matchCount - 1) * 0.05);
+
+  if (qualifiers.includes('negated')) confidence *= 0.6;
+  if (qualifiers.includes('exception') || qualifiers.includes('scoped')) confidence *= 0.8;
+
+  return Math.round(confidence * 100) / 100;
 }
 
 /**
@@ -130,6 +375,11 @@ function determineSeverity(category: RiskCategory, context: string): RiskSeverit
     }
   }
 
+  // Permanent rights over user content are as serious as it gets
+  if (category === 'content_license' && /perpetual|irrevocable/i.test(contextLower) && /sublicens|transferable/i.test(contextLower)) {
+    return 'critical';
+  }
+
   // High severity indicators
   if (/sell|monetize|indefinitely|without notice|any reason/i.test(contextLower)) {
     return 'high';
@@ -152,6 +402,33 @@ function generateSummary(category: RiskCategory, context: string): string {
     data_retention: 'Your data may be kept for an extended period, even after you close your account.',
     account_termination: 'The company can suspend or terminate your account at their discretion, potentially without warning.',
     jurisdiction: 'Legal matters will be handled according to specific laws and courts, which may not be in your location.',
+    unilateral_changes: 'The company can change these terms whenever it wants, and continuing to use the service may count as accepting the changes.',
+    content_license: 'You give the company broad, often permanent rights to use, copy and share the content you upload.',
+    indemnification: 'If someone sues the company over how you used the service, you may have to cover their legal costs and damages.',
+    biometric_data: 'The service may collect biometric data such as face scans, voiceprints or fingerprints, which cannot be changed if leaked.',
+    location_tracking: 'The service may collect and store your location, potentially even when you are not actively using it.',
+    price_changes: 'The company can raise prices during your subscription, sometimes with little notice.',
+    no_refunds: 'Payments are non-refundable, so you may not get your money back even if you cancel early.',
+    ai_training: 'Your content or data may be used to train the company\'s artificial intelligence or machine learning models.',
+  };
+
+  return summaries[category];
+}
+
+/**
+ * Generates a plain-language summary for a protection
+ */
+function generateProtectionSummary(category: ProtectionCategory): string {
+  const summaries: Record<ProtectionCategory, string> = {
+    arbitration_opt_out: 'You can opt out of forced arbitration, usually by notifying them within a set number of days after signing up.',
+    small_claims: 'You keep the right to bring disputes to small claims court instead of arbitration.',
+    data_deletion: 'You can ask the company to delete the personal data they hold about you.',
+    data_access: 'You can request a copy of the personal data the company holds about you.',
+    no_data_sale: 'The company states that it does not sell your personal information.',
+    prorated_refund: 'You can get money back for unused time or recent purchases.',
+    easy_cancellation: 'You can cancel whenever you like without jumping through hoops.',
+    termination_notice: 'The company will warn you before suspending or closing your account.',
+    change_notice: 'The company will tell you before material changes to these terms take effect.',
   };
 
   return summaries[category];
@@ -187,9 +464,13 @@ export function calculateOverallSeverity(risks: RiskItem[]): RiskSeverity {
 /**
  * Generates an overall summary of all risks
  */
-export function generateOverallSummary(risks: RiskItem[]): string {
+export function generateOverallSummary(risks: RiskItem[], protections: ProtectionItem[] = []): string {
+  const protectionNote = protections.length > 0
+    ? ` Also found ${protections.length} term${protections.length === 1 ? '' : 's'} in your favor.`
+    : '';
+
   if (risks.length === 0) {
-    return 'No significant risks detected in this agreement.';
+    return `No significant risks detected in this agreement.${protectionNote}`;
   }
 
   const criticalCount = risks.filter(r => r.severity === 'critical').length;
@@ -205,43 +486,91 @@ export function generateOverallSummary(risks: RiskItem[]): string {
     summary += `${highCount} high-priority concern${highCount === 1 ? '' : 's'}. `;
   }
 
-  return summary.trim();
+  return summary.trim() + protectionNote;
 }
 
+// Each further risk in a category adds this share of its own weight
+const REPEAT_RISK_WEIGHT = 0.25;
+
+// Points at which the score reaches about 63; more points approach 100 ever more slowly
+const RISK_SCORE_SCALE = 80;
+
 /**
  * Calculates a risk score (0-100) for comparison purposes
  */
-export function calculateRiskScore(risks: RiskItem[]): number {
+export function calculateRiskScore(risks: RiskItem[], protections: ProtectionItem[] = []): number {
   if (risks.length === 0) return 0;
 
   let score = 0;
 
-  // Base score from individual risks
+  // The worst risk in each category counts in full and repeats only partly,
+  // since every matching clause is its own risk
+  const weightsByCategory = new Map<RiskCategory, number[]>();
   for (const risk of risks) {
-    score += severityRank(risk.severity) * 8;
+    const weights = weightsByCategory.get(risk.category) || [];
+    weights.push(severityRank(risk.severity) * 8);
+    weightsByCategory.set(risk.category, weights);
+  }
+  for (const weights of weightsByCategory.values()) {
+    const [worst, ...repeats] = weights.sort((a, b) => b - a);
+    score += worst + repeats.reduce((sum, weight) => sum + weight * REPEAT_RISK_WEIGHT, 0);
   }
 
   // Check for dangerous combinations
   const categories = risks.map(r => r.category);
-  for (const combo of DANGEROUS_COMBINATIONS) {
+  for (const combo of getActiveRuleSet().combinations) {
     const hasAllCategories = combo.categories.every(c => categories.includes(c));
     if (hasAllCategories) {
       score += combo.severityBoost * 15;
     }
   }
 
-  // Cap at 100
-  return Math.min(100, score);
+  // Consumer-friendly terms offset the score, once per protection category
+  const protectionCategories = new Set(protections.map(p => p.category));
+  for (const category of protectionCategories) {
+    score -= PROTECTION_CATEGORIES[category].scoreOffset;
+  }
+
+  // Diminishing returns keep 100 for agreements with many serious risks
+  return Math.round(100 * (1 - Math.exp(-Math.max(0, score) / RISK_SCORE_SCALE)));
 }
 
 /**
- * Compares risk score to industry average
+ * Compares risk score to other services in the same industry
+ * Uses backend benchmark percentiles when cached, static averages otherwise
  */
-export function compareToAverage(score: number, industry: string = 'default'): {
+export function compareToAverage(score: number, industry: Industry = 'default'): {
   comparison: 'better' | 'average' | 'worse';
   percentile: number;
   message: string;
 } {
+  const distribution = getBenchmarkDistribution(industry) || getBenchmarkDistribution('default');
+  const similar = industry === 'default' ? 'similar services' : `${INDUSTRIES[industry].label} services`;
+
+  if (distribution) {
+    const percentile = Math.min(99, Math.max(1, percentileOf(score, distribution)));
+
+    if (percentile >= 65) {
+      return {
+        comparison: 'worse',
+        percentile,
+        message: `This agreement is riskier than ${percentile}% of ${similar}`,
+      };
+    }
+    if (percentile <= 35) {
+      return {
+        comparison: 'better',
+        percentile,
+        message: `This agreement is better than ${100 - percentile}% of ${similar}`,
+      };
+    }
+    return {
+      comparison: 'average',
+      percentile,
+      message: `This agreement has typical risk levels for ${similar}`,
+    };
+  }
+
   const average = INDUSTRY_AVERAGES[industry] || INDUSTRY_AVERAGES.default;
   const difference = score - average;
 
@@ -249,13 +578,13 @@ export function compareToAverage(score: number, industry: string = 'default'): {
     return {
       comparison: 'better',
       percentile: Math.max(5, 50 - Math.abs(difference)),
-      message: `This agreement is better than ${100 - Math.max(5, 50 - Math.abs(difference))}% of similar services`,
+      message: `This agreement is better than ${100 - Math.max(5, 50 - Math.abs(difference))}% of ${similar}`,
     };
   } else if (difference > 15) {
     return {
       comparison: 'worse',
       percentile: Math.min(95, 50 + difference),
-      message: `This agreement is riskier than ${Math.min(95, 50 + difference)}% of similar services`,
+      message: `This agreement is riskier than ${Math.min(95, 50 + difference)}% of ${similar}`,
     };
   } else {
     return {
@@ -273,7 +602,7 @@ export function detectDangerousCombinations(risks: RiskItem[]): string[] {
   const warnings: string[] = [];
   const categories = risks.map(r => r.category);
 
-  for (const combo of DANGEROUS_COMBINATIONS) {
+  for (const combo of getActiveRuleSet().combinations) {
     const hasAllCategories = combo.categories.every(c => categories.includes(c));
     if (hasAllCategories) {
       warnings.push(combo.warning);
@@ -285,14 +614,27 @@ export function detectDangerousCombinations(risks: RiskItem[]): string[] {
 
 /**
  * Checks for red flag phrases that indicate serious issues
+ * Negated mentions ("we will never sell your data") are not flags
  */
 export function detectRedFlags(text: string): string[] {
   const flags: string[] = [];
 
-  for (const pattern of RED_FLAGS) {
-    const match = text.match(pattern);
-    if (match) {
-      flags.push(match[0]);
+  for (const pattern of getActiveRuleSet().redFlags) {
+    const globalPattern = new RegExp(pattern.source, `${pattern.flags}g`);
+
+    for (const match of text.matchAll(globalPattern)) {
+      const index = match.index ?? 0;
+      const sentence = findSentenceBounds(text, index);
+      const qualifiers = detectQualifiers(
+        text.substring(sentence.start, sentence.end),
+        index - sentence.start,
+        match[0].length
+      );
+
+      if (!qualifiers.includes('negated')) {
+        flags.push(match[0]);
+        break;
+      }
     }
   }
 
@@ -300,24 +642,78 @@ export function detectRedFlags(text: string): string[] {
 }
 
 /**
- * Enhanced analysis that includes scoring and comparisons
+ * Finds the start and end of the sentence containing an index
  */
-export function analyzeRisksEnhanced(text: string): {
+function findSentenceBounds(text: string, index: number): { start: number; end: number } {
+  const before = text.substring(0, index);
+  const boundary = Math.max(before.lastIndexOf('. '), before.lastIndexOf('! '), before.lastIndexOf('? '), before.lastIndexOf('\n'));
+  const start = boundary === -1 ? 0 : boundary + 1;
+
+  const endMatch = text.substring(index).search(/[.!?](?:\s|$)|\n/);
+  const end = endMatch === -1 ? text.length : index + endMatch + 1;
+
+  return { start, end };
+}
+
+// Result of the enhanced analysis used by the before-you-sign modal
+export interface EnhancedAnalysis {
   risks: RiskItem[];
+  protections: ProtectionItem[];
+  industry: Industry;
   score: number;
   comparison: ReturnType<typeof compareToAverage>;
   redFlags: string[];
   combinationWarnings: string[];
   overallSeverity: RiskSeverity;
   summary: string;
-} {
-  const risks = analyzeRisks(text);
-  const score = calculateRiskScore(risks);
-  const comparison = compareToAverage(score);
+}
+
+/**
+ * Enhanced analysis that includes scoring and comparisons
+ */
+export function analyzeRisksEnhanced(text: string, jurisdiction?: Jurisdiction, url: string = window.location.href): EnhancedAnalysis {
+  const risks = analyzeRisks(text, jurisdiction);
+  const protections = analyzeProtections(text);
+  const industry = inferIndustry(url, text);
   const redFlags = detectRedFlags(text);
+
+  return scoreAnalysis(risks, protections, industry, redFlags);
+}
+
+/**
+ * Re-scores an enhanced analysis after its risks change, e.g. when LLM findings arrive
+ */
+export function updateEnhancedAnalysis(analysis: EnhancedAnalysis, risks: RiskItem[], summary?: string): EnhancedAnalysis {
+  const updated = scoreAnalysis(risks, analysis.protections, analysis.industry, analysis.redFlags);
+  return summary ? { ...updated, summary } : updated;
+}
+
+/**
+ * Scores several documents' analyses as one, e.g. the Terms and Privacy Policy behind a sign-up form
+ */
+export function combineEnhancedAnalyses(analyses: EnhancedAnalysis[]): EnhancedAnalysis {
+  return scoreAnalysis(
+    analyses.flatMap(analysis => analysis.risks),
+    analyses.flatMap(analysis => analysis.protections),
+    analyses[0]?.industry || 'default',
+    [...new Set(analyses.flatMap(analysis => analysis.redFlags))]
+  );
+}
+
+/**
+ * Computes score, comparison, warnings and severity for a set of findings
+ */
+function scoreAnalysis(
+  risks: RiskItem[],
+  protections: ProtectionItem[],
+  industry: Industry,
+  redFlags: string[]
+): EnhancedAnalysis {
+  const score = calculateRiskScore(risks, protections);
+  const comparison = compareToAverage(score, industry);
   const combinationWarnings = detectDangerousCombinations(risks);
   const overallSeverity = calculateOverallSeverity(risks);
-  const summary = generateOverallSummary(risks);
+  const summary = generateOverallSummary(risks, protections);
 
   // Boost severity if red flags found
   let finalSeverity = overallSeverity;
@@ -329,6 +725,8 @@ export function analyzeRisksEnhanced(text: string): {
 
   return {
     risks,
+    protections,
+    industry,
     score,
     comparison,
     redFlags,
@@ -0,0 +1,353 @@
+/**
+ * Content Extractor
+ * Finds the agreement among a page's menus, footers and banners by scoring
+ * blocks on text density, link density and heading structure, then turns it
+ * into a document model of headings, paragraphs and list items
+ */
+
+import {
+  BLOCK_TAGS,
+  MODAL_SELECTOR,
+  SKIPPED_TAGS,
+  SearchRoot,
+  getDeepText,
+  getParent,
+  getRenderedChildren,
+  isVisible,
+  queryAllDeep,
+} from './deep-dom';
+import { splitSectionNumber } from './segmenter';
+
+// One line of the agreement as the user sees it
+export interface ContentBlock {
+  type: 'heading' | 'paragraph' | 'list-item';
+  text: string;
+  level: number; // Heading level 1–6, or list nesting depth
+  marker?: string; // List marker as shown, e.g. "3." or "b."
+  startIndex: number; // Offsets into AgreementContent.text
+  endIndex: number;
+}
+
+// A heading and everything up to the next heading of the same or higher level
+export interface ContentSection {
+  number?: string; // "14.2", from the heading text or its list marker
+  heading: string;
+  level: number;
+  startIndex: number;
+  endIndex: number;
+  blocks: ContentBlock[];
+  subsections: ContentSection[];
+}
+
+export interface AgreementContent {
+  title?: string;
+  text: string; // One block per line, with section numbers and list markers kept
+  blocks: ContentBlock[];
+  sections: ContentSection[]; // Text before the first heading is only in blocks
+}
+
+// Elements whose text is scored as a paragraph
+const PARAGRAPH_SELECTOR = 'p, pre, td, li, blockquote, dd, div';
+
+const BLOCK_SELECTOR = [...BLOCK_TAGS].map(tag => tag.toLowerCase()).join(',');
+
+// Shorter text is a label, button or menu entry
+const MIN_PARAGRAPH_LENGTH = 25;
+
+// The winning block must hold at least this much text to be the agreement
+const MIN_CONTENT_LENGTH = 500;
+
+// Class and id hints, as in Readability
+const POSITIVE_PATTERN = /article|body|content|entry|main|page|post|text|terms|privacy|policy|legal|agreement|conditions/i;
+const NEGATIVE_PATTERN = /nav|menu|footer|header|masthead|related|toolbar|widget|sidebar/i;
+const UNLIKELY_PATTERN = /cookie|consent-banner|banner|breadcrumb|share|social|newsletter|subscribe|promo|advert|popup|skip-link|comment/i;
+
+// Landmarks that never hold the agreement itself
+const BOILERPLATE_TAGS = new Set(['NAV', 'ASIDE', 'FORM', 'BUTTON', 'SELECT', 'INPUT', 'TEXTAREA', 'LABEL', 'MENU']);
+const BOILERPLATE_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'search', 'complementary', 'menu', 'menubar']);
+const LANDMARK_SELECTOR = 'nav, aside, form, [role="navigation"], [role="banner"], [role="contentinfo"]';
+
+/**
+ * Scores every block on the page and returns the one holding the main text,
+ * or null when nothing stands out
+ */
+export function findMainContent(roots: SearchRoot[]): Element | null {
+  const scores = new Map<Element, number>();
+
+  for (const paragraph of queryAllDeep<HTMLElement>(PARAGRAPH_SELECTOR, roots)) {
+    // Only divs used as paragraphs, not as wrappers
+    if (paragraph.tagName === 'DIV' && paragraph.querySelector(BLOCK_SELECTOR)) continue;
+    if (isBoilerplate(paragraph) || paragraph.closest(`${LANDMARK_SELECTOR}, ${MODAL_SELECTOR}`)) continue;
+    if (!isVisible(paragraph)) continue;
+
+    const text = (paragraph.textContent || '').trim();
+    if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+
+    // Long, comma-heavy prose scores highest
+    const score = 1 + (text.match(/[,;]/g)?.length || 0) + Math.min(Math.floor(text.length / 100), 3);
+
+    // Credit the paragraph's container, and a share to the two above it
+    let ancestor = getParent(paragraph);
+    for (let level = 0; level < 3 && ancestor?.nodeType === Node.ELEMENT_NODE; level++) {
+      const element = ancestor as Element;
+      scores.set(element, (scores.get(element) || 0) + score / (level + 1));
+      ancestor = getParent(element);
+    }
+  }
+
+  let best: Element | null = null;
+  let bestScore = 0;
+
+  for (const [candidate, score] of scores) {
+    if (isBoilerplate(candidate)) continue;
+
+    const hints = getHints(candidate);
+    const weight = (POSITIVE_PATTERN.test(hints) ? 25 : 0) - (NEGATIVE_PATTERN.test(hints) ? 25 : 0);
+
+    // Agreements are organised under headings
+    const headings = Math.min(candidate.querySelectorAll('h1, h2, h3, h4, h5, h6, [role="heading"]').length, 10);
+
+    const total = (score + weight + headings * 2) * (1 - getLinkDensity(candidate));
+    if (total > bestScore) {
+      best = candidate;
+      bestScore = total;
+    }
+  }
+
+  return best && (best.textContent || '').trim().length >= MIN_CONTENT_LENGTH ? best : null;
+}
+
+/**
+ * Turns a block of the page into headings, paragraphs and list items,
+ * dropping menus, banners and forms inside it
+ */
+export function buildContentModel(root: Element): AgreementContent {
+  const blocks: ContentBlock[] = [];
+  let text = '';
+  let inline = '';
+  let listDepth = 0;
+
+  // A list item's marker goes on its first line of text
+  let pendingMarker: string | undefined;
+
+  const pushBlock = (type: ContentBlock['type'], line: string, level: number, marker?: string) => {
+    const startIndex = text ? text.length + 1 : 0;
+    text += `${text ? '\n' : ''}${marker ? `${marker} ` : ''}${line}`;
+    blocks.push({ type, text: line, level, marker, startIndex, endIndex: text.length });
+  };
+
+  const flush = () => {
+    const line = inline.replace(/\s+/g, ' ').trim();
+    inline = '';
+    if (!line) return;
+
+    if (pendingMarker !== undefined) {
+      pushBlock('list-item', line, listDepth, pendingMarker || undefined);
+      pendingMarker = undefined;
+    } else {
+      pushBlock('paragraph', line, listDepth);
+    }
+  };
+
+  const visit = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      inline += node.textContent || '';
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    const tag = element.tagName.toUpperCase();
+    if (SKIPPED_TAGS.has(tag) || !isVisible(element)) return;
+    if (element !== root && (isBoilerplate(element) || element.matches(MODAL_SELECTOR))) return;
+
+    const headingLevel = getHeadingLevel(element);
+    if (headingLevel) {
+      flush();
+      const heading = getDeepText(element).replace(/\s+/g, ' ').trim();
+      if (heading) {
+        // A heading that opens a numbered list item takes the item's number
+        const { number } = splitSectionNumber(heading);
+        const marker = !number && pendingMarker ? pendingMarker : undefined;
+        pushBlock('heading', heading, headingLevel, marker);
+        pendingMarker = undefined;
+      }
+      return;
+    }
+
+    if (tag === 'BR') {
+      flush();
+      return;
+    }
+
+    if (tag === 'OL' || tag === 'UL') {
+      flush();
+      listDepth++;
+      const items = getRenderedChildren(element).filter(
+        (child): child is Element => child.nodeType === Node.ELEMENT_NODE && (child as Element).tagName === 'LI'
+      );
+      const markers = getListMarkers(element, items);
+      items.forEach((item, index) => {
+        flush();
+        pendingMarker = markers[index];
+        getRenderedChildren(item).forEach(visit);
+        flush();
+        pendingMarker = undefined;
+      });
+      listDepth--;
+      return;
+    }
+
+    const isBlock = isBlockElement(element);
+    if (isBlock) flush();
+    getRenderedChildren(element).forEach(visit);
+
+    // Table cells on one row stay on one line
+    if (tag === 'TD' || tag === 'TH') inline += ' ';
+    if (isBlock) flush();
+  };
+
+  visit(root);
+  flush();
+
+  return {
+    title: blocks.find(block => block.type === 'heading' && block.level === 1)?.text,
+    text,
+    blocks,
+    sections: buildSections(blocks),
+  };
+}
+
+/**
+ * Nests blocks under their headings
+ */
+function buildSections(blocks: ContentBlock[]): ContentSection[] {
+  const sections: ContentSection[] = [];
+  const open: ContentSection[] = [];
+
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      const { number, rest } = splitSectionNumber(block.text);
+      const section: ContentSection = {
+        number: number || block.marker?.replace(/\.$/, ''),
+        heading: number ? rest : block.text,
+        level: block.level,
+        startIndex: block.startIndex,
+        endIndex: block.endIndex,
+        blocks: [],
+        subsections: [],
+      };
+
+      while (open.length > 0 && open[open.length - 1].level >= section.level) open.pop();
+      (open.length > 0 ? open[open.length - 1].subsections : sections).push(section);
+      open.push(section);
+      continue;
+    }
+
+    open[open.length - 1]?.blocks.push(block);
+    for (const section of open) section.endIndex = block.endIndex;
+  }
+
+  return sections;
+}
+
+/**
+ * Gets the markers a list shows for its items: "1.", "b.", "iv." or a bullet
+ */
+function getListMarkers(list: Element, items: Element[]): string[] {
+  const style = getComputedStyle(list).listStyleType;
+
+  // Some sites hide the markers and number items in the text instead
+  if (style === 'none') return items.map(() => '');
+  if (list.tagName !== 'OL') return items.map(() => '•');
+
+  let counter = Number(list.getAttribute('start') || 1);
+  return items.map(item => {
+    const value = item.getAttribute('value');
+    if (value && !isNaN(Number(value))) counter = Number(value);
+    return `${formatListNumber(counter++, style)}.`;
+  });
+}
+
+function formatListNumber(value: number, style: string): string {
+  if (/alpha|latin/.test(style)) {
+    const letter = String.fromCharCode(96 + ((value - 1) % 26) + 1);
+    return style.startsWith('upper') ? letter.toUpperCase() : letter;
+  }
+  if (/roman/.test(style)) {
+    const roman = toRoman(value);
+    return style.startsWith('upper') ? roman.toUpperCase() : roman;
+  }
+  return String(value);
+}
+
+function toRoman(value: number): string {
+  const numerals: Array<[number, string]> = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+    [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+  ];
+  let result = '';
+  for (const [amount, numeral] of numerals) {
+    while (value >= amount) {
+      result += numeral;
+      value -= amount;
+    }
+  }
+  return result;
+}
+
+/**
+ * Gets an element's heading level, or 0 when it isn't a heading
+ */
+function getHeadingLevel(element: Element): number {
+  const match = element.tagName.match(/^H([1-6])$/i);
+  if (match) return Number(match[1]);
+  if (element.getAttribute('role') === 'heading') {
+    return Number(element.getAttribute('aria-level')) || 2;
+  }
+  return 0;
+}
+
+/**
+ * Whether an element is a menu, banner or form rather than agreement text
+ */
+function isBoilerplate(element: Element): boolean {
+  if (BOILERPLATE_TAGS.has(element.tagName.toUpperCase())) return true;
+  if (BOILERPLATE_ROLES.has(element.getAttribute('role') || '')) return true;
+
+  const hints = getHints(element);
+  if (!hints || POSITIVE_PATTERN.test(hints)) return false;
+  if (UNLIKELY_PATTERN.test(hints)) return true;
+
+  // Site headers and footers are mostly links; an article's own header isn't
+  const isChrome = NEGATIVE_PATTERN.test(hints) || /^(HEADER|FOOTER)$/i.test(element.tagName);
+  return isChrome && getLinkDensity(element) > 0.5;
+}
+
+/**
+ * Whether an element starts its own line, including custom elements
+ * that are laid out as blocks
+ */
+function isBlockElement(element: Element): boolean {
+  if (BLOCK_TAGS.has(element.tagName.toUpperCase())) return true;
+  if (!element.tagName.includes('-')) return false;
+  return /^(block|flex|grid|list-item|table)$/.test(getComputedStyle(element).display);
+}
+
+/**
+ * Share of an element's text that is link text
+ */
+function getLinkDensity(element: Element): number {
+  const length = (element.textContent || '').trim().length;
+  if (length === 0) return 0;
+
+  let linkLength = 0;
+  for (const link of element.querySelectorAll('a')) {
+    linkLength += (link.textContent || '').trim().length;
+  }
+  return Math.min(linkLength / length, 1);
+}
+
+function getHints(element: Element): string {
+  return `${element.getAttribute('class') || ''} ${element.id || ''}`.trim();
+}
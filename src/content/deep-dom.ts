@@ -0,0 +1,192 @@
+/**
+ * Deep DOM
+ * Reads the page the way the user sees it: through open shadow roots
+ * (web components) and same-origin iframes, which plain querySelector and
+ * innerText skip
+ */
+
+export type SearchRoot = Document | ShadowRoot;
+
+// Consent modals, cookie banners and "Review our terms" popups
+export const MODAL_SELECTOR = [
+  'dialog[open]',
+  '[role="dialog"]',
+  '[role="alertdialog"]',
+  '[aria-modal="true"]',
+].join(',');
+
+export const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG']);
+
+// Elements that start a new line when flattened to text
+export const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'BR', 'DD', 'DETAILS', 'DIALOG', 'DIV', 'DL', 'DT',
+  'FIELDSET', 'FIGCAPTION', 'FIGURE', 'FOOTER', 'FORM', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6',
+  'HEADER', 'HR', 'LI', 'MAIN', 'NAV', 'OL', 'P', 'PRE', 'SECTION', 'SUMMARY', 'TABLE', 'TR', 'UL',
+]);
+
+/**
+ * Lists the top document, every open shadow root and every same-origin
+ * iframe document, outermost first
+ */
+export function getSearchRoots(root: SearchRoot = document): SearchRoot[] {
+  const roots: SearchRoot[] = [root];
+
+  for (const element of root.querySelectorAll('*')) {
+    if (element.shadowRoot) {
+      roots.push(...getSearchRoots(element.shadowRoot));
+    }
+
+    if (element.tagName === 'IFRAME' || element.tagName === 'FRAME') {
+      const frameDocument = getFrameDocument(element as HTMLIFrameElement);
+      if (frameDocument) roots.push(...getSearchRoots(frameDocument));
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * querySelectorAll across shadow roots and same-origin frames
+ */
+export function queryAllDeep<T extends Element = Element>(selector: string, roots = getSearchRoots()): T[] {
+  return roots.flatMap(root => Array.from(root.querySelectorAll<T>(selector)));
+}
+
+/**
+ * Finds open modal dialogs, topmost (last in the page) first
+ */
+export function findModalDialogs(roots = getSearchRoots()): HTMLElement[] {
+  const dialogs = queryAllDeep<HTMLElement>(MODAL_SELECTOR, roots).filter(isVisible);
+
+  // Nested matches (a dialog role inside a <dialog>) count once
+  return dialogs
+    .filter(dialog => !dialogs.some(other => other !== dialog && other.contains(dialog)))
+    .reverse();
+}
+
+/**
+ * Whether an element is rendered at all
+ */
+export function isVisible(element: Element): boolean {
+  // Web components often render their host with display: contents, which has no box
+  return element.getClientRects().length > 0 || getComputedStyle(element).display === 'contents';
+}
+
+/**
+ * Same as innerText, but includes the contents of shadow roots and
+ * same-origin iframes inside the element
+ */
+export function getDeepText(element: Element): string {
+  const hosts = findNestedHosts(element);
+  if (hosts.length === 0) return getInnerText(element);
+
+  // Only the branches leading to a shadow root or frame need walking by hand
+  const branches = new Set<Node>();
+  for (const host of hosts) {
+    for (let node: Node | null = host; node && !branches.has(node); node = getParent(node)) {
+      branches.add(node);
+      if (node === element) break;
+    }
+  }
+
+  return walkText(element, branches);
+}
+
+/**
+ * The child nodes the user actually sees: a shadow root's contents instead
+ * of the host's own children, a slot's assigned nodes, a frame's body
+ */
+export function getRenderedChildren(element: Element): Node[] {
+  if (isFrame(element)) {
+    const body = getFrameDocument(element as HTMLIFrameElement)?.body;
+    return body ? [body] : [];
+  }
+  if (element.shadowRoot) {
+    return Array.from(element.shadowRoot.childNodes);
+  }
+  if (element.tagName === 'SLOT') {
+    return (element as HTMLSlotElement).assignedNodes({ flatten: true });
+  }
+  return Array.from(element.childNodes);
+}
+
+/**
+ * The next node up, crossing from a shadow root or frame document to its host
+ */
+export function getParent(node: Node): Node | null {
+  if (node.parentNode && node.parentNode.nodeType === Node.DOCUMENT_FRAGMENT_NODE) {
+    return (node.parentNode as ShadowRoot).host;
+  }
+  if (node.parentNode && node.parentNode.nodeType === Node.DOCUMENT_NODE) {
+    return (node.parentNode as Document).defaultView?.frameElement || null;
+  }
+  return node.parentNode;
+}
+
+/**
+ * Gets the document of a same-origin frame, or null for cross-origin ones
+ */
+function getFrameDocument(frame: HTMLIFrameElement): Document | null {
+  try {
+    return frame.contentDocument;
+  } catch {
+    return null; // Cross-origin
+  }
+}
+
+/**
+ * Finds shadow hosts, their slots and same-origin frames anywhere below an
+ * element, including inside other shadow roots and frames
+ */
+function findNestedHosts(root: Element | ShadowRoot): Element[] {
+  const hosts: Element[] = [];
+  const candidates = root.nodeType === Node.ELEMENT_NODE
+    ? [root as Element, ...root.querySelectorAll('*')]
+    : Array.from(root.querySelectorAll('*'));
+
+  for (const candidate of candidates) {
+    if (candidate.shadowRoot) {
+      // Slots show the host's own children, so they're walked by hand too
+      hosts.push(candidate, ...candidate.shadowRoot.querySelectorAll('slot'), ...findNestedHosts(candidate.shadowRoot));
+    } else if (isFrame(candidate)) {
+      const body = getFrameDocument(candidate as HTMLIFrameElement)?.body;
+      if (body) hosts.push(candidate, ...findNestedHosts(body));
+    }
+  }
+
+  return hosts;
+}
+
+/**
+ * Flattens a subtree to text, stepping into shadow roots and frames along
+ * the given branches and using innerText everywhere else
+ */
+function walkText(node: Node, branches: Set<Node>): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return node.textContent || '';
+  }
+
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return '';
+  }
+
+  const element = node as Element;
+  if (SKIPPED_TAGS.has(element.tagName.toUpperCase()) || !isVisible(element)) {
+    return '';
+  }
+
+  if (!branches.has(node)) {
+    return getInnerText(element);
+  }
+
+  const text = getRenderedChildren(element).map(child => walkText(child, branches)).join('');
+  return BLOCK_TAGS.has(element.tagName) ? `\n${text}\n` : text;
+}
+
+function getInnerText(element: Element): string {
+  return (element as HTMLElement).innerText ?? element.textContent ?? '';
+}
+
+function isFrame(element: Element): boolean {
+  return element.tagName === 'IFRAME' || element.tagName === 'FRAME';
+}
@@ -1,13 +1,25 @@
 import { AgreementDetection } from '../shared/types';
 import { AGREEMENT_PATTERNS } from '../shared/constants';
+import { findModalDialogs, getDeepText, getSearchRoots, queryAllDeep, SearchRoot } from './deep-dom';
+import { AgreementContent, buildContentModel, findMainContent } from './content-extractor';
+
+// Modals about these are agreements; others are newsletters and promos
+const AGREEMENT_MODAL_PATTERN = /terms|privacy|policy|agreement|consent|cookie|conditions/i;
+
+// Shorter blocks are navigation or notices, not agreement text
+const MIN_AGREEMENT_TEXT_LENGTH = 500;
 
 /**
  * Detects if the current page contains an agreement/ToS
  */
 export function detectAgreement(): AgreementDetection {
   const url = window.location.href.toLowerCase();
-  const title = document.title.toLowerCase();
-  const bodyText = document.body?.innerText || '';
+  const roots = getSearchRoots();
+
+  // Consent modals come first: they cover the page and are what gets agreed to
+  const modalText = findModalDialogs(roots).map(getDeepText).join('\n');
+  const title = `${document.title} ${modalText.substring(0, 300)}`.toLowerCase();
+  const bodyText = `${modalText}\n${document.body ? getDeepText(document.body) : ''}`;
 
   let confidence = 0;
   let type: AgreementDetection['type'] = 'unknown';
@@ -45,7 +57,7 @@ export function detectAgreement(): AgreementDetection {
   }
 
   // Check for agreement checkboxes
-  const checkboxes = document.querySelectorAll('input[type="checkbox"]');
+  const checkboxes = queryAllDeep('input[type="checkbox"]', roots);
   for (const checkbox of checkboxes) {
     const label = getCheckboxLabel(checkbox as HTMLInputElement);
     if (label && /agree|accept|terms|privacy|policy/i.test(label)) {
@@ -56,7 +68,7 @@ export function detectAgreement(): AgreementDetection {
   }
 
   // Check for common agreement links
-  const links = document.querySelectorAll('a');
+  const links = queryAllDeep<HTMLAnchorElement>('a', roots);
   let agreementLinksFound = 0;
   for (const link of links) {
     const text = link.textContent?.toLowerCase() || '';
@@ -85,10 +97,12 @@ export function detectAgreement(): AgreementDetection {
 /**
  * Gets the label text for a checkbox
  */
-function getCheckboxLabel(checkbox: HTMLInputElement): string | null {
+export function getCheckboxLabel(checkbox: HTMLInputElement): string | null {
   // Check for associated label
   if (checkbox.id) {
-    const label = document.querySelector(`label[for="${checkbox.id}"]`);
+    // Labels live in the same shadow root or frame as their checkbox
+    const root = checkbox.getRootNode() as SearchRoot;
+    const label = root.querySelector(`label[for="${CSS.escape(checkbox.id)}"]`);
     if (label) return label.textContent;
   }
 
@@ -104,32 +118,31 @@ function getCheckboxLabel(checkbox: HTMLInputElement): string | null {
 }
 
 /**
- * Extracts the main agreement text from the page
+ * Extracts the agreement on the page as headings, paragraphs and list items,
+ * looking inside open shadow roots and same-origin iframes, and preferring
+ * an open modal
  */
-export function extractAgreementText(): string {
-  // Try to find the main content area
-  const selectors = [
-    'main',
-    'article',
-    '[role="main"]',
-    '.terms',
-    '.privacy',
-    '.policy',
-    '.agreement',
-    '.content',
-    '#content',
-    '#main',
-  ];
-
-  for (const selector of selectors) {
-    const element = document.querySelector(selector);
-    if (element && element.textContent && element.textContent.length > 500) {
-      return cleanText(element.textContent);
+export function extractAgreementContent(): AgreementContent {
+  const roots = getSearchRoots();
+
+  // An agreement shown in a modal is what the user is being asked to accept
+  for (const dialog of findModalDialogs(roots)) {
+    const content = buildContentModel(dialog);
+    if (content.text.length > MIN_AGREEMENT_TEXT_LENGTH && AGREEMENT_MODAL_PATTERN.test(content.text)) {
+      return content;
     }
   }
 
-  // Fallback to body text
-  return cleanText(document.body?.innerText || '');
+  // The densest block of prose, without menus, footers and banners
+  return buildContentModel(findMainContent(roots) || document.body);
+}
+
+/**
+ * Extracts the main agreement text from the page, one block per line with
+ * section numbers and list markers kept
+ */
+export function extractAgreementText(): string {
+  return cleanText(extractAgreementContent().text);
 }
 
 /**
@@ -137,31 +150,39 @@ export function extractAgreementText(): string {
  */
 function cleanText(text: string): string {
   return text
-    .replace(/\s+/g, ' ')  // Normalize whitespace
+    .replace(/[^\S\n]+/g, ' ')  // Normalize whitespace, keeping line breaks
+    .replace(/ ?\n ?/g, '\n')
     .replace(/\n{3,}/g, '\n\n')  // Limit consecutive newlines
     .trim()
     .substring(0, 50000);  // Limit text length
 }
 
 /**
- * Finds elements containing specific text for highlighting
+ * Finds elements containing specific text for highlighting, including
+ * inside shadow roots and same-origin frames
  */
 export function findTextElements(searchText: string): HTMLElement[] {
   const elements: HTMLElement[] = [];
-  const walker = document.createTreeWalker(
-    document.body,
-    NodeFilter.SHOW_TEXT,
-    null
-  );
-
   const searchLower = searchText.toLowerCase();
-  let node: Text | null;
 
-  while ((node = walker.nextNode() as Text | null)) {
-    if (node.textContent?.toLowerCase().includes(searchLower)) {
-      const parent = node.parentElement;
-      if (parent && !elements.includes(parent)) {
-        elements.push(parent);
+  // Each shadow root and frame has its own tree to walk
+  for (const root of getSearchRoots()) {
+    const start = root.nodeType === Node.DOCUMENT_NODE ? (root as Document).body : root;
+    if (!start) continue;
+
+    const walker = (start.ownerDocument || document).createTreeWalker(
+      start,
+      NodeFilter.SHOW_TEXT,
+      null
+    );
+    let node: Text | null;
+
+    while ((node = walker.nextNode() as Text | null)) {
+      if (node.textContent?.toLowerCase().includes(searchLower)) {
+        const parent = node.parentElement;
+        if (parent && !elements.includes(parent)) {
+          elements.push(parent);
+        }
       }
     }
   }
@@ -0,0 +1,355 @@
+/**
+ * Clause Highlighter
+ * Marks each risk's clause in the page, colored by severity, with a hover
+ * tooltip, and puts the marks back when the page re-renders them away
+ */
+
+import { RiskItem, RiskSeverity } from '../shared/types';
+import { SEVERITY_COLORS } from '../shared/constants';
+import { locateQuote } from '../services/quote-matcher';
+import { SKIPPED_TAGS, getSearchRoots, isVisible } from './deep-dom';
+
+const HIGHLIGHT_CLASS = 'pyn-highlight';
+const TOOLTIP_HOST_ID = 'pyn-tooltip-host';
+
+// The extension's own UI is never highlighted
+const OWN_UI_SELECTOR = '#pyn-shadow-host, #pyn-intercept-modal, #pyn-tooltip-host, textarea, input';
+
+// Stop restoring highlights on pages that keep re-rendering them away
+const MAX_RESTORES = 10;
+
+const SEVERITY_RANK: Record<RiskSeverity, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+interface HighlighterState {
+  risks: RiskItem[];
+  marks: HTMLElement[];
+  observer: MutationObserver | null;
+  restoreTimer?: ReturnType<typeof setTimeout>;
+  restores: number;
+  tooltip: { host: HTMLElement; shadow: ShadowRoot } | null;
+}
+
+const state: HighlighterState = {
+  risks: [],
+  marks: [],
+  observer: null,
+  restores: 0,
+  tooltip: null,
+};
+
+/**
+ * Highlights the clause of every risk that can be found in the page
+ * Calling it again with the same risks keeps the existing marks
+ */
+export function highlightRisks(risks: RiskItem[]): void {
+  const unchanged = risks.length === state.risks.length &&
+    risks.every((risk, index) => risk.id === state.risks[index].id) &&
+    state.marks.every(mark => mark.isConnected);
+  if (unchanged) return;
+
+  clearHighlights();
+  state.risks = risks;
+  applyHighlights();
+  watchForRerenders();
+}
+
+/**
+ * Removes every highlight and restores the page's text nodes
+ */
+export function clearHighlights(): void {
+  state.observer?.disconnect();
+  state.observer = null;
+  clearTimeout(state.restoreTimer);
+  removeMarks();
+  state.tooltip?.host.remove();
+  state.tooltip = null;
+  state.risks = [];
+  state.restores = 0;
+}
+
+/**
+ * Gets the risks currently highlighted in the page
+ */
+export function getHighlightedRisks(): RiskItem[] {
+  return state.risks;
+}
+
+/**
+ * Whether a risk's clause was found and highlighted in the page
+ */
+export function isRiskHighlighted(riskId: string): boolean {
+  return state.marks.some(mark => mark.dataset.pynRisk === riskId && mark.isConnected);
+}
+
+/**
+ * Gets the first mark of a risk's clause, for ordering risks as they appear
+ */
+export function getRiskMark(riskId: string): HTMLElement | null {
+  return state.marks.find(mark => mark.dataset.pynRisk === riskId && mark.isConnected) || null;
+}
+
+/**
+ * Scrolls a risk's clause into view and flashes it
+ * Returns false when the clause isn't in the page
+ */
+export function scrollToRisk(riskId: string): boolean {
+  const marks = state.marks.filter(mark => mark.dataset.pynRisk === riskId && mark.isConnected);
+  if (marks.length === 0) return false;
+
+  marks[0].scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+  const color = marks[0].dataset.pynColor || SEVERITY_COLORS.high;
+  for (const mark of marks) {
+    mark.animate(
+      [
+        { boxShadow: `0 0 0 0 ${color}00` },
+        { boxShadow: `0 0 0 6px ${color}99` },
+        { boxShadow: `0 0 0 0 ${color}00` },
+      ],
+      { duration: 700, iterations: 2, delay: 300 }
+    );
+  }
+  return true;
+}
+
+/**
+ * Finds each risk's clause in the page text and wraps it in marks
+ */
+function applyHighlights(): void {
+  const index = buildTextIndex();
+  if (!index.text) return;
+
+  // When clauses overlap, the most severe risk gets the mark
+  const risks = [...state.risks].sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+  const taken: Array<[number, number]> = [];
+  const segments: Array<{ node: Text; start: number; end: number; risk: RiskItem }> = [];
+
+  for (const risk of risks) {
+    if (!risk.originalText) continue;
+
+    const match = locateQuote(risk.originalText, index.text);
+    if (!match || taken.some(([start, end]) => match.startIndex < end && match.endIndex > start)) continue;
+    taken.push([match.startIndex, match.endIndex]);
+
+    for (let i = findNodeIndex(index.starts, match.startIndex); i < index.nodes.length; i++) {
+      const nodeStart = index.starts[i];
+      if (nodeStart >= match.endIndex) break;
+
+      const node = index.nodes[i];
+      const start = Math.max(match.startIndex - nodeStart, 0);
+      const end = Math.min(match.endIndex - nodeStart, node.length);
+      if (end > start && node.data.substring(start, end).trim()) {
+        segments.push({ node, start, end, risk });
+      }
+    }
+  }
+
+  // Later segments of a node are wrapped first so earlier offsets stay valid
+  const byNode = new Map<Text, typeof segments>();
+  for (const segment of segments) {
+    byNode.set(segment.node, [...(byNode.get(segment.node) || []), segment]);
+  }
+  for (const nodeSegments of byNode.values()) {
+    nodeSegments.sort((a, b) => b.start - a.start);
+    for (const segment of nodeSegments) {
+      state.marks.push(wrapSegment(segment.node, segment.start, segment.end, segment.risk));
+    }
+  }
+}
+
+/**
+ * Concatenates the page's visible text nodes, remembering where each starts
+ */
+function buildTextIndex(): { text: string; nodes: Text[]; starts: number[] } {
+  const nodes: Text[] = [];
+  const starts: number[] = [];
+  const visibility = new Map<Element, boolean>();
+  let text = '';
+
+  for (const root of getSearchRoots()) {
+    const start = root.nodeType === Node.DOCUMENT_NODE ? (root as Document).body : root;
+    if (!start) continue;
+
+    const walker = (start.ownerDocument || document).createTreeWalker(start, NodeFilter.SHOW_TEXT);
+    let node: Text | null;
+
+    while ((node = walker.nextNode() as Text | null)) {
+      const parent = node.parentElement;
+      if (!parent || SKIPPED_TAGS.has(parent.tagName.toUpperCase()) || parent.closest(OWN_UI_SELECTOR)) continue;
+
+      if (!visibility.has(parent)) visibility.set(parent, isVisible(parent));
+      if (!visibility.get(parent)) continue;
+
+      nodes.push(node);
+      starts.push(text.length);
+      text += node.data;
+    }
+
+    // Keep clauses from running across shadow roots and frames
+    text += '\n';
+  }
+
+  return { text, nodes, starts };
+}
+
+/**
+ * Binary search for the text node containing an offset
+ */
+function findNodeIndex(starts: number[], offset: number): number {
+  let low = 0;
+  let high = starts.length - 1;
+
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (starts[middle] <= offset) low = middle;
+    else high = middle - 1;
+  }
+  return low;
+}
+
+/**
+ * Wraps part of a text node in a mark for a risk
+ */
+function wrapSegment(node: Text, start: number, end: number, risk: RiskItem): HTMLElement {
+  let target = node;
+  if (end < target.length) target.splitText(end);
+  if (start > 0) target = target.splitText(start);
+
+  // Inline styles, since the extension's stylesheet doesn't reach shadow roots and frames
+  const color = SEVERITY_COLORS[risk.severity];
+  const mark = (node.ownerDocument || document).createElement('mark');
+  mark.className = `${HIGHLIGHT_CLASS} ${HIGHLIGHT_CLASS}-${risk.severity}`;
+  mark.dataset.pynRisk = risk.id;
+  mark.dataset.pynColor = color;
+  mark.style.setProperty('background-color', `${color}33`, 'important');
+  mark.style.setProperty('border-bottom', `2px solid ${color}`, 'important');
+  mark.style.setProperty('color', 'inherit', 'important');
+  mark.style.setProperty('cursor', 'help', 'important');
+  mark.style.setProperty('border-radius', '2px', 'important');
+
+  mark.addEventListener('mouseenter', () => showTooltip(mark, risk));
+  mark.addEventListener('mouseleave', hideTooltip);
+
+  target.parentNode?.insertBefore(mark, target);
+  mark.appendChild(target);
+  return mark;
+}
+
+/**
+ * Unwraps every mark, merging the split text nodes back together
+ */
+function removeMarks(): void {
+  const parents = new Set<Node>();
+
+  for (const mark of state.marks) {
+    const parent = mark.parentNode;
+    if (!parent) continue;
+
+    while (mark.firstChild) parent.insertBefore(mark.firstChild, mark);
+    parent.removeChild(mark);
+    parents.add(parent);
+  }
+
+  parents.forEach(parent => parent.normalize());
+  state.marks = [];
+}
+
+/**
+ * Puts highlights back when the page re-renders the marked text
+ */
+function watchForRerenders(): void {
+  if (state.marks.length === 0 || !document.body) return;
+
+  state.observer = new MutationObserver(() => {
+    if (state.marks.every(mark => mark.isConnected)) return;
+
+    clearTimeout(state.restoreTimer);
+    state.restoreTimer = setTimeout(() => {
+      if (state.restores >= MAX_RESTORES) return;
+      state.restores++;
+
+      // Our own changes shouldn't trigger another restore
+      state.observer?.disconnect();
+      removeMarks();
+      applyHighlights();
+      state.observer?.observe(document.body, { childList: true, subtree: true });
+    }, 500);
+  });
+
+  state.observer.observe(document.body, { childList: true, subtree: true });
+}
+
+/**
+ * Shows a risk's plain-language summary next to its mark
+ */
+function showTooltip(mark: HTMLElement, risk: RiskItem): void {
+  if (!state.tooltip) {
+    const host = document.createElement('div');
+    host.id = TOOLTIP_HOST_ID;
+    host.style.cssText = 'position: fixed; z-index: 2147483647; pointer-events: none; top: 0; left: 0;';
+
+    const shadow = host.attachShadow({ mode: 'closed' });
+    shadow.innerHTML = `
+      <style>
+        .pyn-tooltip {
+          max-width: 320px;
+          padding: 10px 12px;
+          background: #111827;
+          color: #f9fafb;
+          border-radius: 8px;
+          box-shadow: 0 10px 25px rgba(0, 0, 0, 0.25);
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+          font-size: 13px;
+          line-height: 1.45;
+        }
+        .pyn-tooltip-title {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          font-weight: 600;
+          margin-bottom: 4px;
+        }
+        .pyn-tooltip-dot {
+          width: 8px;
+          height: 8px;
+          border-radius: 50%;
+          flex-shrink: 0;
+        }
+      </style>
+      <div class="pyn-tooltip">
+        <div class="pyn-tooltip-title"><span class="pyn-tooltip-dot"></span><span class="pyn-tooltip-heading"></span></div>
+        <div class="pyn-tooltip-summary"></div>
+      </div>
+    `;
+    document.body.appendChild(host);
+    state.tooltip = { host, shadow };
+  }
+
+  const { host, shadow } = state.tooltip;
+  shadow.querySelector<HTMLElement>('.pyn-tooltip-dot')!.style.background = SEVERITY_COLORS[risk.severity];
+  shadow.querySelector('.pyn-tooltip-heading')!.textContent = risk.title;
+  shadow.querySelector('.pyn-tooltip-summary')!.textContent = risk.summary;
+
+  // Marks inside frames are positioned relative to the frame
+  const rect = mark.getBoundingClientRect();
+  let left = rect.left;
+  let top = rect.bottom;
+  for (let view: Window | null = mark.ownerDocument.defaultView; view?.frameElement; view = view.parent) {
+    const frameRect = view.frameElement.getBoundingClientRect();
+    left += frameRect.left;
+    top += frameRect.top;
+  }
+
+  host.style.display = 'block';
+  host.style.left = `${Math.max(8, Math.min(left, window.innerWidth - 336))}px`;
+  host.style.top = `${top + 6}px`;
+
+  // Flip above the clause near the bottom of the window
+  if (top + host.offsetHeight + 6 > window.innerHeight) {
+    host.style.top = `${Math.max(8, top - rect.height - host.offsetHeight - 6)}px`;
+  }
+}
+
+function hideTooltip(): void {
+  if (state.tooltip) state.tooltip.host.style.display = 'none';
+}
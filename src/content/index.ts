@@ -1,11 +1,19 @@
 import { detectAgreement, extractAgreementText } from './detector';
-import { analyzeRisks, calculateOverallSeverity, generateOverallSummary } from './analyzer';
+import { findModalDialogs } from './deep-dom';
+import { runScanPipeline } from './scan-pipeline';
+import { findPdfUrl, isLikelyAgreementPdf, extractPdfAgreement, detectPdfAgreement } from './pdf';
+import { findLinkedAgreements, scanLinkedAgreements } from './linked-agreements';
 import { overlay } from './overlay';
+import { highlightRisks } from './highlighter';
 import { lawyerModal } from './LawyerModal';
 import { initInterceptor, setInterceptorEnabled } from './interceptor';
-import { ScanResult, UsageData, Settings, STORAGE_KEYS } from '../shared/types';
-import { DEFAULT_SETTINGS, DEFAULT_USAGE, FREE_SCANS_PER_MONTH } from '../shared/constants';
+import { ScanResult, Settings, STORAGE_KEYS } from '../shared/types';
+import { DEFAULT_SETTINGS, FREE_SCANS_PER_MONTH } from '../shared/constants';
+import { resolveJurisdiction } from '../shared/jurisdictions';
 import Analytics from '../services/analytics';
+import { loadRulePacks, watchRulePacks } from '../services/rule-packs';
+import { loadBenchmarks } from '../services/benchmarks';
+import { getUsage, incrementUsage } from '../services/usage';
 
 // Store last scan result for lawyer modal
 let lastScanResult: ScanResult | null = null;
@@ -29,6 +37,15 @@ async function init(): Promise<void> {
   const hostname = window.location.hostname;
   if (settings.whitelist.includes(hostname)) return;
 
+  // Load imported rule packs before any analysis runs
+  await loadRulePacks().catch(error => {
+    console.warn('[ProtectYaNeck] Failed to load rule packs, using core rules:', error);
+  });
+  watchRulePacks();
+  loadBenchmarks().catch(() => {
+    // Comparisons fall back to static averages
+  });
+
   // Set up message listener for manual scans from popup
   chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
     if (message.type === 'SCAN_PAGE') {
@@ -52,18 +69,29 @@ async function init(): Promise<void> {
     // Wait a moment for page to settle
     setTimeout(() => {
       autoDetectAndNotify();
+      watchForModals();
     }, 1000);
   }
 
   // Initialize before-you-sign interceptor
-  initInterceptor();
+  initInterceptor({
+    jurisdiction: resolveJurisdiction(settings.jurisdiction),
+    threshold: settings.interceptThreshold,
+  });
 }
 
 /**
  * Auto-detects agreements and shows subtle notification
  */
 async function autoDetectAndNotify(): Promise<void> {
-  const detection = detectAgreement();
+  // Only PDFs that look like agreements are worth parsing up front
+  const pdfUrl = findPdfUrl();
+  if (pdfUrl && !isLikelyAgreementPdf(pdfUrl)) return;
+
+  const detection = pdfUrl
+    ? await extractPdfAgreement(pdfUrl).then(pdf => detectPdfAgreement(pdfUrl, pdf)).catch(() => null)
+    : detectAgreement();
+  if (!detection) return;
 
   if (detection.isAgreement && detection.confidence >= 0.5) {
     // Track agreement detection
@@ -77,6 +105,30 @@ async function autoDetectAndNotify(): Promise<void> {
   }
 }
 
+/**
+ * Re-checks for an agreement when a modal opens, since consent dialogs
+ * usually appear after the page has loaded
+ */
+function watchForModals(): void {
+  let modalCount = findModalDialogs().length;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  new MutationObserver(() => {
+    // Opening a modal touches many nodes, so wait for it to settle
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const count = findModalDialogs().length;
+      if (count > modalCount) autoDetectAndNotify();
+      modalCount = count;
+    }, 500);
+  }).observe(document.body, {
+    childList: true,
+    subtree: true,
+    attributes: true,
+    attributeFilter: ['open', 'aria-modal', 'class', 'style'],
+  });
+}
+
 /**
  * Performs a full page scan
  */
@@ -102,50 +154,70 @@ async function scanPage(): Promise<ScanResult | { error: string }> {
   overlay.showScanning();
 
   try {
-    // Detect agreement
-    const detection = detectAgreement();
+    // Detect agreement, in the PDF if the page shows one
+    const pdfUrl = findPdfUrl();
+    const pdf = pdfUrl ? await extractPdfAgreement(pdfUrl) : null;
+    const detection = pdfUrl && pdf ? detectPdfAgreement(pdfUrl, pdf) : detectAgreement();
 
     if (!detection.isAgreement) {
       overlay.showNoAgreement();
       return { error: 'NO_AGREEMENT' };
     }
 
-    // Extract and analyze text
-    const text = extractAgreementText();
-    const risks = analyzeRisks(text);
-    const overallSeverity = calculateOverallSeverity(risks);
-    const summary = generateOverallSummary(risks);
-
-    // Create scan result
-    const result: ScanResult = {
-      id: `scan-${Date.now()}`,
-      url: window.location.href,
-      timestamp: Date.now(),
-      detection,
-      risks,
-      overallSeverity,
-      summary,
-    };
+    // Extract and analyze text, adjusted for where the user lives
+    const settings = await getSettings();
+    const jurisdiction = resolveJurisdiction(settings.jurisdiction);
+
+    // Sign-up pages only link to their terms, so analyze the linked documents instead
+    const links = !pdf && detection.type === 'signup' ? findLinkedAgreements() : [];
 
     // Increment usage counter
     await incrementUsage();
     const newUsage = await getUsage();
     const newScansRemaining = FREE_SCANS_PER_MONTH - newUsage.scansThisMonth;
 
-    // Store result for lawyer modal
-    lastScanResult = result;
+    let shownResults = false;
+    const showResult = (latest: ScanResult) => {
+      // Store result for lawyer modal
+      lastScanResult = latest;
 
-    // Show results
-    overlay.showResults(result, newScansRemaining, () => lawyerModal.show(result));
+      // Don't bring back an overlay the user closed
+      if (shownResults && !overlay.isVisible()) return;
+
+      // Mark the clauses in the page so the overlay can jump to them
+      if (!pdf) highlightRisks(latest.risks);
+      overlay.showResults(latest, newScansRemaining, () => lawyerModal.show(lastScanResult || undefined));
+      shownResults = true;
+    };
+    const onProgress = (completed: number, total: number) => overlay.updateScanProgress(completed, total);
+
+    const result = links.length > 0
+      ? await scanLinkedAgreements(links, {
+        id: `scan-${Date.now()}`,
+        url: window.location.href,
+        timestamp: Date.now(),
+        detection,
+        risks: [],
+        overallSeverity: 'low',
+        summary: '',
+      }, { jurisdiction, onResult: showResult, onProgress })
+      : await runScanPipeline(pdf ? pdf.text : extractAgreementText(), {
+        url: pdfUrl || window.location.href,
+        detection,
+        jurisdiction,
+        pages: pdf?.pages,
+        onResult: showResult,
+        onProgress,
+      });
 
     hasScannedPage = true;
 
     // Track scan completion
     const scanDuration = Date.now() - scanStartTime;
-    Analytics.scanCompleted(risks.length, scanDuration);
+    Analytics.scanCompleted(result.risks.length, scanDuration);
 
     // Track each risk for analytics
-    risks.forEach(risk => {
+    result.risks.forEach(risk => {
       Analytics.riskDisplayed(risk.severity, risk.category);
     });
 
@@ -176,52 +248,6 @@ async function getSettings(): Promise<Settings> {
   });
 }
 
-/**
- * Gets current usage data from storage
- */
-async function getUsage(): Promise<UsageData> {
-  return new Promise((resolve) => {
-    chrome.storage.local.get(STORAGE_KEYS.USAGE, (result) => {
-      const usage = result[STORAGE_KEYS.USAGE] || DEFAULT_USAGE;
-
-      // Check if we need to reset for new month
-      const now = Date.now();
-      const monthStart = new Date(usage.monthStart);
-      const currentMonth = new Date(now);
-
-      if (monthStart.getMonth() !== currentMonth.getMonth() ||
-          monthStart.getFullYear() !== currentMonth.getFullYear()) {
-        // Reset for new month
-        const resetUsage: UsageData = {
-          ...usage,
-          scansThisMonth: 0,
-          monthStart: now,
-        };
-        chrome.storage.local.set({ [STORAGE_KEYS.USAGE]: resetUsage });
-        resolve(resetUsage);
-      } else {
-        resolve(usage);
-      }
-    });
-  });
-}
-
-/**
- * Increments the scan counter
- */
-async function incrementUsage(): Promise<void> {
-  const usage = await getUsage();
-
-  const newUsage: UsageData = {
-    ...usage,
-    scansThisMonth: usage.scansThisMonth + 1,
-  };
-
-  return new Promise((resolve) => {
-    chrome.storage.local.set({ [STORAGE_KEYS.USAGE]: newUsage }, resolve);
-  });
-}
-
 // Initialize when DOM is ready
 if (document.readyState === 'loading') {
   document.addEventListener('DOMContentLoaded', init);
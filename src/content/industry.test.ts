@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { inferIndustry } from './industry';
+
+describe('inferIndustry', () => {
+  it('matches content signals as whole words', () => {
+    const text = 'Our capital desk reacts to rapid changes, with a stopwatch, subtitles and mainstreaming of new ideas.';
+    expect(inferIndustry('', text)).toBe('default');
+  });
+
+  it('infers the industry from whole-word signals', () => {
+    const text = 'Invite your team to a workspace, manage seats and connect the API. We target 99.9% uptime.';
+    expect(inferIndustry('', text)).toBe('saas');
+  });
+});
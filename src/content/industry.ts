@@ -0,0 +1,69 @@
+/**
+ * Infers which kind of service an agreement belongs to from its domain and content
+ */
+
+import { Industry } from '../shared/types';
+
+// Well-known domains per industry
+const DOMAIN_SIGNALS: Record<Exclude<Industry, 'default'>, RegExp> = {
+  social_media: /facebook|instagram|tiktok|twitter|(^|\.)x\.com|reddit|snapchat|linkedin|pinterest|discord|tumblr|threads\.net|bsky/i,
+  ecommerce: /amazon|ebay|etsy|shopify|walmart|aliexpress|temu|target\.com|bestbuy|wayfair|shop/i,
+  saas: /slack|notion|dropbox|atlassian|zoom\.us|github|salesforce|hubspot|figma|canva|adobe|microsoft|openai|app\./i,
+  finance: /paypal|stripe|bank|chase|venmo|coinbase|robinhood|wise\.com|revolut|klarna|affirm|fidelity|schwab|capitalone/i,
+  healthcare: /health|clinic|pharma|hospital|fitbit|myfitnesspal|23andme|teladoc|hims|medical|care\./i,
+  streaming: /netflix|spotify|hulu|disneyplus|youtube|twitch|primevideo|max\.com|deezer|soundcloud|crunchyroll/i,
+  gaming: /steam|epicgames|roblox|xbox|playstation|nintendo|riotgames|blizzard|ea\.com|ubisoft/i,
+};
+
+// Phrases typical of each industry's agreements
+const CONTENT_SIGNALS: Record<Exclude<Industry, 'default'>, string[]> = {
+  social_media: ['followers', 'your posts', 'your profile', 'friends', 'news feed', 'direct messages', 'user-generated content'],
+  ecommerce: ['your order', 'shipping', 'returns', 'purchase', 'seller', 'shopping cart', 'delivery'],
+  saas: ['workspace', 'software', 'api', 'uptime', 'service level', 'customer data', 'seats'],
+  finance: ['account balance', 'transactions', 'credit', 'loan', 'interest rate', 'securities', 'wire transfer'],
+  healthcare: ['health information', 'hipaa', 'medical', 'patient', 'prescription', 'diagnosis', 'treatment'],
+  streaming: ['streaming', 'content library', 'watch', 'playlist', 'episodes', 'viewing history', 'titles'],
+  gaming: ['in-game', 'virtual currency', 'virtual items', 'gameplay', 'players', 'loot', 'game client'],
+};
+
+// Phrases match whole words only, so "api" doesn't count in "capital"
+const CONTENT_PATTERNS = Object.fromEntries(
+  Object.entries(CONTENT_SIGNALS).map(([industry, phrases]) => [
+    industry,
+    phrases.map(phrase => new RegExp(`\\b${phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`)),
+  ])
+) as Record<Exclude<Industry, 'default'>, RegExp[]>;
+
+const DOMAIN_WEIGHT = 5;
+const MIN_SIGNAL_SCORE = 3;
+
+/**
+ * Infers the industry of the service behind an agreement
+ */
+export function inferIndustry(url: string, text: string): Industry {
+  let hostname = '';
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    // Keep empty for pasted text or invalid URLs
+  }
+
+  const sample = text.substring(0, 20000).toLowerCase();
+  let best: Industry = 'default';
+  let bestScore = 0;
+
+  for (const industry of Object.keys(CONTENT_SIGNALS) as Array<Exclude<Industry, 'default'>>) {
+    let score = hostname && DOMAIN_SIGNALS[industry].test(hostname) ? DOMAIN_WEIGHT : 0;
+
+    for (const pattern of CONTENT_PATTERNS[industry]) {
+      if (pattern.test(sample)) score++;
+    }
+
+    if (score > bestScore) {
+      best = industry;
+      bestScore = score;
+    }
+  }
+
+  return bestScore >= MIN_SIGNAL_SCORE ? best : 'default';
+}
@@ -0,0 +1,218 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { initInterceptor } from './interceptor';
+
+// Elements marked data-agree, or in a form with a data-terms notice, are
+// agreement triggers; the scoring itself is covered by the trigger
+// classifier's fixtures
+vi.mock('./trigger-classifier', () => ({
+  scoreAgreementTrigger: (element: Element) => ({
+    score: element.hasAttribute('data-agree') || element.closest('form')?.querySelector('[data-terms]') ? 1 : 0,
+    signals: [],
+  }),
+}));
+
+vi.mock('./detector', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./detector')>()),
+  detectAgreement: () => ({ isAgreement: true, confidence: 1, type: 'signup', url: window.location.href }),
+  extractAgreementText: () => 'By signing up you agree to binding arbitration and waive your right to a jury trial.',
+}));
+
+vi.mock('../services/llm-analyzer', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/llm-analyzer')>()),
+  isLLMAvailable: async () => false,
+}));
+
+vi.mock('../services/site-policies', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/site-policies')>()),
+  getSitePoliciesFor: async () => [],
+}));
+
+vi.mock('../services/agreement-texts', () => ({
+  saveAgreementText: async () => undefined,
+}));
+
+// The modal's shadow root is closed, so keep a handle on it as it's created
+const shadowRoots = new WeakMap<Element, ShadowRoot>();
+const attachShadow = Element.prototype.attachShadow;
+
+/**
+ * Waits for the before-you-sign modal and clicks one of its buttons
+ */
+async function clickModalButton(id: 'pyn-proceed' | 'pyn-cancel'): Promise<void> {
+  const root = await vi.waitFor(() => {
+    const host = document.getElementById('pyn-intercept-modal');
+    const shadow = host && shadowRoots.get(host);
+    if (!shadow) throw new Error('Modal not shown');
+    return shadow;
+  });
+  root.querySelector<HTMLButtonElement>(`#${id}`)!.click();
+}
+
+/**
+ * Renders a page and waits for the interceptor to pick up its triggers
+ */
+async function renderPage(html: string): Promise<void> {
+  document.body.innerHTML = html;
+  await new Promise(resolve => setTimeout(resolve, 350));
+}
+
+function isModalOpen(): boolean {
+  return document.getElementById('pyn-intercept-modal') !== null;
+}
+
+describe('interceptor', () => {
+  beforeAll(() => {
+    vi.spyOn(Element.prototype, 'attachShadow').mockImplementation(function (this: Element, init) {
+      const root = attachShadow.call(this, init);
+      shadowRoots.set(this, root);
+      return root;
+    });
+    vi.stubGlobal('chrome', { runtime: { sendMessage: vi.fn() } });
+    initInterceptor({ threshold: 0.5 });
+  });
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  afterEach(() => {
+    document.getElementById('pyn-intercept-modal')?.remove();
+  });
+
+  it('blocks a button click and replays it once accepted', async () => {
+    await renderPage('<button data-agree>I agree</button>');
+    const button = document.querySelector('button')!;
+    const onClick = vi.fn();
+    button.addEventListener('click', onClick);
+
+    button.click();
+    expect(onClick).not.toHaveBeenCalled();
+
+    await clickModalButton('pyn-proceed');
+    expect(onClick).toHaveBeenCalledTimes(1);
+  });
+
+  it('resumes a submit button without an untrusted click reaching the page', async () => {
+    await renderPage('<form><input name="email"><button type="submit" data-agree>Sign up</button></form>');
+    const button = document.querySelector('button')!;
+    const onClick = vi.fn();
+    const signUp = vi.fn((event: SubmitEvent) => event.preventDefault());
+    button.addEventListener('click', onClick);
+    document.querySelector('form')!.addEventListener('submit', signUp);
+
+    button.click();
+    expect(onClick).not.toHaveBeenCalled();
+    expect(signUp).not.toHaveBeenCalled();
+
+    await clickModalButton('pyn-proceed');
+    expect(signUp).toHaveBeenCalledTimes(1);
+    expect(onClick).not.toHaveBeenCalled();
+  });
+
+  it('resubmits a clicked submit button once, with the same submitter', async () => {
+    await renderPage('<form><input name="email"><button type="submit" data-agree>Create account</button></form>');
+    const button = document.querySelector('button')!;
+    const onSubmit = vi.fn((event: SubmitEvent) => event.preventDefault());
+    document.querySelector('form')!.addEventListener('submit', onSubmit);
+
+    button.click();
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    await clickModalButton('pyn-proceed');
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+    expect(onSubmit.mock.calls[0][0].submitter).toBe(button);
+  });
+
+  it('blocks a submit that no click triggered and resumes it with requestSubmit', async () => {
+    await renderPage('<form><input name="email"><button type="submit" data-agree>Join</button></form>');
+    const form = document.querySelector('form')!;
+    const onSubmit = vi.fn((event: SubmitEvent) => event.preventDefault());
+    form.addEventListener('submit', onSubmit);
+
+    form.requestSubmit();
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    await clickModalButton('pyn-proceed');
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets submits of forms without agreement buttons through', async () => {
+    await renderPage('<form><input name="q"><button type="submit">Search</button></form>');
+    const onSubmit = vi.fn((event: SubmitEvent) => event.preventDefault());
+    document.querySelector('form')!.addEventListener('submit', onSubmit);
+
+    document.querySelector('button')!.click();
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+    expect(isModalOpen()).toBe(false);
+  });
+
+  it('scores a form\'s buttons again when a consent notice is added to it', async () => {
+    await renderPage('<form><input name="email"><button type="submit">Sign up</button></form>');
+    const form = document.querySelector('form')!;
+    const onSubmit = vi.fn((event: SubmitEvent) => event.preventDefault());
+    form.addEventListener('submit', onSubmit);
+
+    form.querySelector('button')!.click();
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+
+    form.insertAdjacentHTML('beforeend', '<p data-terms>By signing up you agree to our Terms</p>');
+    await new Promise(resolve => setTimeout(resolve, 350));
+
+    form.querySelector('button')!.click();
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+
+    await clickModalButton('pyn-cancel');
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+  });
+
+  it('blocks Enter on a custom button and replays it as a click', async () => {
+    await renderPage('<div role="button" tabindex="0" data-agree>Accept</div>');
+    const button = document.querySelector<HTMLElement>('[role="button"]')!;
+    const onKeydown = vi.fn();
+    const onClick = vi.fn();
+    button.addEventListener('keydown', onKeydown);
+    button.addEventListener('click', onClick);
+
+    button.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true, composed: true }));
+    expect(onKeydown).not.toHaveBeenCalled();
+
+    await clickModalButton('pyn-proceed');
+    expect(onClick).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps an agreement checkbox unticked until the user accepts', async () => {
+    await renderPage('<label><input type="checkbox" data-agree> I agree to the Terms</label>');
+    const checkbox = document.querySelector<HTMLInputElement>('input')!;
+    const onChange = vi.fn();
+    checkbox.addEventListener('change', onChange);
+
+    checkbox.click();
+    expect(checkbox.checked).toBe(false);
+    expect(onChange).not.toHaveBeenCalled();
+
+    await clickModalButton('pyn-proceed');
+    expect(checkbox.checked).toBe(true);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('reverts a checkbox ticked without a click', async () => {
+    await renderPage('<input type="checkbox" data-agree>');
+    const checkbox = document.querySelector<HTMLInputElement>('input')!;
+
+    checkbox.checked = true;
+    checkbox.dispatchEvent(new Event('change', { bubbles: true }));
+    expect(checkbox.checked).toBe(false);
+
+    await clickModalButton('pyn-proceed');
+    expect(checkbox.checked).toBe(true);
+  });
+
+  it('lets an agreement checkbox be unticked', async () => {
+    await renderPage('<input type="checkbox" data-agree checked>');
+    const checkbox = document.querySelector<HTMLInputElement>('input')!;
+
+    checkbox.click();
+    expect(checkbox.checked).toBe(false);
+    expect(isModalOpen()).toBe(false);
+  });
+});
@@ -3,85 +3,123 @@
  * Catches clicks on "I Agree" buttons and checkboxes to warn users
  */
 
-import { ScanResult } from '../shared/types';
-import { analyzeRisksEnhanced } from './analyzer';
-import { extractAgreementText } from './detector';
-
-// Patterns to identify agreement buttons/checkboxes
-const AGREEMENT_BUTTON_PATTERNS = [
-  /^i\s*(agree|accept|consent)$/i,
-  /^agree(\s+(&|and)\s+continue)?$/i,
-  /^accept(\s+(terms|all|&\s+continue))?$/i,
-  /^continue$/i,
-  /^sign\s*up$/i,
-  /^create\s*account$/i,
-  /^register$/i,
-  /^submit$/i,
-  /^get\s*started$/i,
-];
-
-const AGREEMENT_CHECKBOX_PATTERNS = [
-  /i\s*(have\s+read|agree|accept|consent)/i,
-  /terms\s*(of\s*)?(service|use)/i,
-  /privacy\s*policy/i,
-  /agree\s+to\s+the/i,
-];
+import {
+  AgreementDetection,
+  Jurisdiction,
+  LinkedAgreementResult,
+  RiskItem,
+  ScanResult,
+  SitePolicy,
+  SitePolicyMode,
+} from '../shared/types';
+import {
+  DEFAULT_INTERCEPT_THRESHOLD,
+  DEFAULT_SITE_POLICY_MODE,
+  RISK_AGREEMENT_LABELS,
+  SITE_POLICY_MODES,
+} from '../shared/constants';
+import {
+  analyzeRisksEnhanced,
+  analyzeRisksWithLLM,
+  combineEnhancedAnalyses,
+  markAwaitingLLM,
+  updateEnhancedAnalysis,
+  EnhancedAnalysis,
+} from './analyzer';
+import { detectAgreement, extractAgreementText } from './detector';
+import { scoreAgreementTrigger } from './trigger-classifier';
+import { findLinkedAgreements, fetchLinkedAgreement, MIN_AGREEMENT_LENGTH } from './linked-agreements';
+import { startReviewWalkthrough } from './review-walkthrough';
+import { isLLMAvailable } from '../services/llm-analyzer';
+import { hashAgreement } from '../services/analysis-cache';
+import { saveAgreementText } from '../services/agreement-texts';
+import { getSitePoliciesFor, isSiteMuted, shouldWarn } from '../services/site-policies';
+import { escapeHtml } from '../shared/html';
 
 interface InterceptorState {
   isEnabled: boolean;
+  resuming: boolean; // True while replaying an action the user confirmed
   hasScanned: boolean;
   scanResult: ScanResult | null;
   interceptedElements: Set<Element>;
+  // Elements scored below the threshold, with the page confidence at the time
+  rejectedElements: WeakMap<Element, number>;
+  jurisdiction?: Jurisdiction;
+  threshold: number; // Trigger score needed before a click is intercepted
+  // detectAgreement's confidence, refreshed at most every PAGE_CONFIDENCE_TTL
+  pageConfidence?: { value: number; checkedAt: number };
+  // Finished LLM analyses, reused while an agreement's text stays the same
+  llmResults: Map<string, { risks: RiskItem[]; summary: string }>;
+}
+
+// One agreement behind the intercepted click: the page itself or a linked document
+interface InterceptedDocument {
+  title: string;
+  url: string;
+  type: AgreementDetection['type'];
+  text: string;
+  textHash: string;
+  keywordResult: EnhancedAnalysis;
+  analysis: EnhancedAnalysis;
+  llmStatus: ScanResult['llmStatus'];
 }
 
 const state: InterceptorState = {
   isEnabled: true,
+  resuming: false,
   hasScanned: false,
   scanResult: null,
   interceptedElements: new Set(),
+  rejectedElements: new WeakMap(),
+  threshold: DEFAULT_INTERCEPT_THRESHOLD,
+  llmResults: new Map(),
 };
 
+// Re-running detection on every DOM change would be too slow
+const PAGE_CONFIDENCE_TTL = 2000;
+
+// Buttons, links and checkboxes that could accept an agreement
+const TRIGGER_SELECTOR = 'button, a, [role="button"], input[type="submit"], input[type="checkbox"]';
+
 /**
  * Checks if an element is an agreement trigger
+ * Rejected elements aren't scored again until the page's confidence changes
  */
 function isAgreementTrigger(element: Element): boolean {
-  const tagName = element.tagName.toLowerCase();
-  const text = element.textContent?.trim() || '';
-  const ariaLabel = element.getAttribute('aria-label') || '';
-  const value = (element as HTMLInputElement).value || '';
-
-  // Check buttons and links
-  if (tagName === 'button' || tagName === 'a' || element.getAttribute('role') === 'button') {
-    const checkText = `${text} ${ariaLabel} ${value}`.toLowerCase();
-    return AGREEMENT_BUTTON_PATTERNS.some(pattern => pattern.test(checkText));
-  }
-
-  // Check checkboxes
-  if (tagName === 'input' && (element as HTMLInputElement).type === 'checkbox') {
-    // Check the label
-    const id = element.id;
-    const label = id ? document.querySelector(`label[for="${id}"]`) : null;
-    const labelText = label?.textContent || '';
+  const pageConfidence = getPageConfidence();
+  if (state.rejectedElements.get(element) === pageConfidence) return false;
 
-    // Check parent text (for checkboxes without proper labels)
-    const parentText = element.parentElement?.textContent || '';
+  const isTrigger = scoreAgreementTrigger(element, pageConfidence).score >= state.threshold;
+  if (!isTrigger) state.rejectedElements.set(element, pageConfidence);
+  return isTrigger;
+}
 
-    const checkText = `${labelText} ${parentText}`.toLowerCase();
-    return AGREEMENT_CHECKBOX_PATTERNS.some(pattern => pattern.test(checkText));
+/**
+ * How agreement-like the page is, cached while the DOM churns
+ */
+function getPageConfidence(): number {
+  const now = Date.now();
+  if (!state.pageConfidence || now - state.pageConfidence.checkedAt > PAGE_CONFIDENCE_TTL) {
+    state.pageConfidence = { value: detectAgreement().confidence, checkedAt: now };
   }
-
-  return false;
+  return state.pageConfidence.value;
 }
 
 /**
- * Creates a warning modal before signing
+ * Creates a warning modal before signing, grouping risks per document when
+ * the click agrees to linked agreements, with a choice of what to remember
+ * for next time
+ * Returns a function that re-renders the modal as LLM findings arrive
  */
 function showWarningModal(
   element: Element,
-  scanResult: ReturnType<typeof analyzeRisksEnhanced>,
-  onProceed: () => void,
-  onCancel: () => void
-): void {
+  initialResult: EnhancedAnalysis,
+  llmStatus: ScanResult['llmStatus'],
+  documents: InterceptedDocument[] | undefined,
+  rememberMode: SitePolicyMode,
+  onProceed: (mode: SitePolicyMode) => void,
+  onCancel: (mode: SitePolicyMode) => void
+): (scanResult: EnhancedAnalysis, llmStatus: ScanResult['llmStatus'], documents?: InterceptedDocument[]) => void {
   // Create modal container
   const modalContainer = document.createElement('div');
   modalContainer.id = 'pyn-intercept-modal';
@@ -210,6 +248,29 @@ function showWarningModal(
       border-bottom: none;
     }
 
+    .pyn-doc-heading {
+      display: flex;
+      justify-content: space-between;
+      gap: 8px;
+      padding: 12px 0 4px 0;
+      font-size: 14px;
+      font-weight: 600;
+      color: #111827;
+    }
+
+    .pyn-doc-count {
+      font-size: 12px;
+      font-weight: 500;
+      color: #6b7280;
+      white-space: nowrap;
+    }
+
+    .pyn-doc-more {
+      font-size: 12px;
+      color: #6b7280;
+      padding: 4px 0 8px 0;
+    }
+
     .pyn-risk-badge {
       padding: 2px 8px;
       border-radius: 4px;
@@ -230,6 +291,42 @@ function showWarningModal(
       line-height: 1.4;
     }
 
+    .pyn-risk-agreement {
+      display: block;
+      font-size: 11px;
+      font-weight: 600;
+      color: #6b7280;
+      margin-top: 4px;
+    }
+
+    .pyn-jurisdiction-note {
+      display: block;
+      font-size: 12px;
+      color: #1d4ed8;
+      margin-top: 4px;
+    }
+
+    .pyn-protections {
+      background: #f0fdf4;
+      border: 1px solid #86efac;
+      border-radius: 8px;
+      padding: 12px;
+      margin-bottom: 16px;
+    }
+
+    .pyn-protections-title {
+      font-weight: 600;
+      color: #166534;
+      margin: 0 0 8px 0;
+      font-size: 14px;
+    }
+
+    .pyn-protection-text {
+      font-size: 13px;
+      color: #166534;
+      margin: 4px 0;
+    }
+
     .pyn-warnings {
       background: #fef3c7;
       border: 1px solid #f59e0b;
@@ -257,6 +354,25 @@ function showWarningModal(
       display: flex;
       gap: 12px;
       justify-content: flex-end;
+      align-items: flex-end;
+    }
+
+    .pyn-remember {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      margin-right: auto;
+      font-size: 12px;
+      color: #6b7280;
+    }
+
+    .pyn-remember select {
+      padding: 6px 8px;
+      border: 1px solid #d1d5db;
+      border-radius: 6px;
+      background: white;
+      color: #374151;
+      font-size: 13px;
     }
 
     .pyn-btn {
@@ -306,184 +422,581 @@ function showWarningModal(
   `;
   shadow.appendChild(styles);
 
-  // Determine header style based on severity
-  const headerClass = scanResult.overallSeverity === 'critical' ? '' :
-    scanResult.overallSeverity === 'high' ? 'warning' : 'caution';
-
-  const headerIcon = scanResult.overallSeverity === 'critical' ? '🚨' :
-    scanResult.overallSeverity === 'high' ? '⚠️' : '📋';
-
-  const headerTitle = scanResult.overallSeverity === 'critical' ? 'Wait! Critical Issues Found' :
-    scanResult.overallSeverity === 'high' ? 'Caution: Significant Risks' : 'Review Before You Agree';
-
-  // Score color
-  const scoreClass = scanResult.score >= 70 ? 'critical' :
-    scanResult.score >= 50 ? 'high' :
-    scanResult.score >= 30 ? 'medium' : 'low';
-
-  // Build modal content
   const modal = document.createElement('div');
   modal.className = 'pyn-modal-overlay';
-  modal.innerHTML = `
-    <div class="pyn-modal">
-      <div class="pyn-modal-header ${headerClass}">
-        <span class="pyn-modal-icon">${headerIcon}</span>
-        <div>
-          <h2 class="pyn-modal-title">${headerTitle}</h2>
-          <p class="pyn-modal-subtitle">ProtectYaNeck analyzed this agreement</p>
+
+  const renderRisk = (risk: RiskItem) => `
+    <li class="pyn-risk-item">
+      <span class="pyn-risk-badge ${escapeHtml(risk.severity)}">${escapeHtml(risk.severity)}</span>
+      <span class="pyn-risk-text">
+        <strong>${escapeHtml(risk.title)}:</strong> ${escapeHtml(risk.summary)}
+        ${risk.jurisdictionNote ? `<span class="pyn-jurisdiction-note">${risk.likelyUnenforceable ? 'Likely unenforceable where you live. ' : ''}${escapeHtml(risk.jurisdictionNote)}</span>` : ''}
+        ${risk.agreement && risk.agreement !== 'pending' ? `<span class="pyn-risk-agreement">${RISK_AGREEMENT_LABELS[risk.agreement]}</span>` : ''}
+      </span>
+    </li>
+  `;
+
+  // Top risks of each linked document under its own heading
+  const renderDocuments = (docs: InterceptedDocument[]) => docs.map(doc => `
+    <li class="pyn-doc-heading">
+      <span>📄 ${escapeHtml(doc.title)}</span>
+      <span class="pyn-doc-count">${doc.analysis.risks.length} risk${doc.analysis.risks.length !== 1 ? 's' : ''}</span>
+    </li>
+    ${doc.analysis.risks.slice(0, 3).map(renderRisk).join('')}
+    ${doc.analysis.risks.length > 3 ? `<li class="pyn-doc-more">+ ${doc.analysis.risks.length - 3} more in this document</li>` : ''}
+  `).join('');
+
+  const render = (scanResult: EnhancedAnalysis, status: ScanResult['llmStatus'], docs?: InterceptedDocument[]) => {
+    // Determine header style based on severity
+    const headerClass = scanResult.overallSeverity === 'critical' ? '' :
+      scanResult.overallSeverity === 'high' ? 'warning' : 'caution';
+
+    const headerIcon = scanResult.overallSeverity === 'critical' ? '🚨' :
+      scanResult.overallSeverity === 'high' ? '⚠️' : '📋';
+
+    const headerTitle = scanResult.overallSeverity === 'critical' ? 'Wait! Critical Issues Found' :
+      scanResult.overallSeverity === 'high' ? 'Caution: Significant Risks' : 'Review Before You Agree';
+
+    // Score color
+    const scoreClass = scanResult.score >= 70 ? 'critical' :
+      scanResult.score >= 50 ? 'high' :
+      scanResult.score >= 30 ? 'medium' : 'low';
+
+    // Build modal content
+    modal.innerHTML = `
+      <div class="pyn-modal">
+        <div class="pyn-modal-header ${headerClass}">
+          <span class="pyn-modal-icon">${headerIcon}</span>
+          <div>
+            <h2 class="pyn-modal-title">${headerTitle}</h2>
+            <p class="pyn-modal-subtitle">${status === 'pending' ? '🤖 AI is still reviewing this agreement...' : 'ProtectYaNeck analyzed this agreement'}</p>
+          </div>
         </div>
-      </div>
-      <div class="pyn-modal-body">
-        <div class="pyn-score-label">
-          <span>Risk Score</span>
-          <span><strong>${scanResult.score}</strong>/100</span>
+        <div class="pyn-modal-body">
+          <div class="pyn-score-label">
+            <span>Risk Score</span>
+            <span><strong>${scanResult.score}</strong>/100</span>
+          </div>
+          <div class="pyn-score-bar">
+            <div class="pyn-score-fill ${scoreClass}" style="width: ${scanResult.score}%"></div>
+          </div>
+          <p class="pyn-comparison">${escapeHtml(scanResult.comparison.message)}</p>
+
+          ${scanResult.combinationWarnings.length > 0 ? `
+            <div class="pyn-warnings">
+              <p class="pyn-warning-title">⚠️ Warning</p>
+              ${scanResult.combinationWarnings.map(w => `<p class="pyn-warning-text">• ${escapeHtml(w)}</p>`).join('')}
+            </div>
+          ` : ''}
+
+          <ul class="pyn-risks-list">
+            ${docs ? renderDocuments(docs) : scanResult.risks.slice(0, 5).map(renderRisk).join('')}
+          </ul>
+
+          ${!docs && scanResult.risks.length > 5 ? `<p style="color: #6b7280; font-size: 13px; text-align: center;">+ ${scanResult.risks.length - 5} more risks detected</p>` : ''}
+
+          ${scanResult.protections.length > 0 ? `
+            <div class="pyn-protections">
+              <p class="pyn-protections-title">✅ In Your Favor</p>
+              ${scanResult.protections.slice(0, 3).map(p => `<p class="pyn-protection-text">• <strong>${escapeHtml(p.title)}:</strong> ${escapeHtml(p.summary)}</p>`).join('')}
+            </div>
+          ` : ''}
         </div>
-        <div class="pyn-score-bar">
-          <div class="pyn-score-fill ${scoreClass}" style="width: ${scanResult.score}%"></div>
+        <div class="pyn-modal-footer">
+          <label class="pyn-remember">
+            Next time on ${escapeHtml(window.location.hostname)}
+            <select id="pyn-remember">
+              ${(Object.keys(SITE_POLICY_MODES) as SitePolicyMode[]).map(mode => `
+                <option value="${mode}" ${mode === rememberMode ? 'selected' : ''}>${SITE_POLICY_MODES[mode].label}</option>
+              `).join('')}
+            </select>
+          </label>
+          <button class="pyn-btn pyn-btn-cancel" id="pyn-cancel">Review Agreement</button>
+          <button class="pyn-btn pyn-btn-proceed ${scanResult.score < 30 ? 'safe' : ''}" id="pyn-proceed">
+            ${scanResult.score < 30 ? 'Proceed' : 'Accept Anyway'}
+          </button>
         </div>
-        <p class="pyn-comparison">${scanResult.comparison.message}</p>
-
-        ${scanResult.combinationWarnings.length > 0 ? `
-          <div class="pyn-warnings">
-            <p class="pyn-warning-title">⚠️ Warning</p>
-            ${scanResult.combinationWarnings.map(w => `<p class="pyn-warning-text">• ${w}</p>`).join('')}
-          </div>
-        ` : ''}
-
-        <ul class="pyn-risks-list">
-          ${scanResult.risks.slice(0, 5).map(risk => `
-            <li class="pyn-risk-item">
-              <span class="pyn-risk-badge ${risk.severity}">${risk.severity}</span>
-              <span class="pyn-risk-text"><strong>${risk.title}:</strong> ${risk.summary}</span>
-            </li>
-          `).join('')}
-        </ul>
-
-        ${scanResult.risks.length > 5 ? `<p style="color: #6b7280; font-size: 13px; text-align: center;">+ ${scanResult.risks.length - 5} more risks detected</p>` : ''}
       </div>
-      <div class="pyn-modal-footer">
-        <button class="pyn-btn pyn-btn-cancel" id="pyn-cancel">Review Agreement</button>
-        <button class="pyn-btn pyn-btn-proceed ${scanResult.score < 30 ? 'safe' : ''}" id="pyn-proceed">
-          ${scanResult.score < 30 ? 'Proceed' : 'Accept Anyway'}
-        </button>
-      </div>
-    </div>
-  `;
+    `;
 
-  shadow.appendChild(modal);
-  document.body.appendChild(modalContainer);
+    // Event listeners
+    // The choice survives re-renders while LLM findings stream in
+    modal.querySelector('#pyn-remember')?.addEventListener('change', (e) => {
+      rememberMode = (e.target as HTMLSelectElement).value as SitePolicyMode;
+    });
 
-  // Event listeners
-  shadow.getElementById('pyn-cancel')?.addEventListener('click', () => {
-    modalContainer.remove();
-    onCancel();
-  });
+    modal.querySelector('#pyn-cancel')?.addEventListener('click', () => {
+      modalContainer.remove();
+      onCancel(rememberMode);
+    });
 
-  shadow.getElementById('pyn-proceed')?.addEventListener('click', () => {
-    modalContainer.remove();
-    onProceed();
-  });
+    modal.querySelector('#pyn-proceed')?.addEventListener('click', () => {
+      modalContainer.remove();
+      onProceed(rememberMode);
+    });
+  };
+
+  render(initialResult, llmStatus, documents);
+  shadow.appendChild(modal);
+  document.body.appendChild(modalContainer);
 
-  // Close on overlay click
+  // Close on overlay click, without starting the review
   modal.addEventListener('click', (e) => {
     if (e.target === modal) {
       modalContainer.remove();
-      onCancel();
     }
   });
+
+  return (scanResult, status, docs) => {
+    if (modalContainer.isConnected) render(scanResult, status, docs);
+  };
 }
 
 /**
- * Handles click interception
+ * Warns about the agreement behind a blocked action, and resumes the action
+ * if the user goes ahead
  */
-function handleInterceptedClick(event: MouseEvent, element: Element): void {
-  if (!state.isEnabled) return;
+async function handleInterception(element: Element, resume: () => void): Promise<void> {
+  // Sites the user chose never to be warned on don't need the documents at all
+  const policies = await getSitePoliciesFor(window.location.hostname);
+  if (isSiteMuted(policies)) {
+    resume();
+    return;
+  }
 
-  // Prevent the original action
-  event.preventDefault();
-  event.stopPropagation();
+  // Keyword analysis first, so the modal appears as soon as the documents load
+  const linked = await loadLinkedDocuments(element);
+  const documents = linked.length > 0
+    ? linked
+    : [await createDocument(document.title, window.location.href, detectAgreement().type, extractAgreementText())];
 
-  // Perform quick scan if not done already
-  const text = extractAgreementText();
-  const scanResult = analyzeRisksEnhanced(text);
+  // Skip the warning if the user already accepted these exact terms here
+  const agreementHash = await hashDocuments(documents);
+  if (!shouldWarn(policies, agreementHash)) {
+    resume();
+    return;
+  }
+
+  const useLLM = documents.some(doc => !state.llmResults.has(doc.text)) && await isLLMAvailable();
+  for (const doc of documents) {
+    const cached = state.llmResults.get(doc.text);
+    if (cached) {
+      doc.analysis = updateEnhancedAnalysis(doc.keywordResult, cached.risks, cached.summary);
+      doc.llmStatus = 'complete';
+    } else if (useLLM) {
+      doc.analysis = updateEnhancedAnalysis(doc.keywordResult, markAwaitingLLM(doc.keywordResult.risks));
+      doc.llmStatus = 'pending';
+    }
+  }
+
+  const combined = () => documents.length === 1
+    ? documents[0].analysis
+    : combineEnhancedAnalyses(documents.map(doc => doc.analysis));
 
   // Only show modal if risks found
-  if (scanResult.risks.length === 0) {
+  if (combined().risks.length === 0) {
     // No risks, let it through
-    triggerOriginalAction(element);
+    resume();
     return;
   }
 
+  const accept = (mode: SitePolicyMode) => {
+    recordAcceptance(documents, combined(), agreementHash, mode);
+    resume();
+  };
+
   // Show warning modal
-  showWarningModal(
+  const groups = linked.length > 0 ? documents : undefined;
+  const updateModal = showWarningModal(
     element,
-    scanResult,
-    () => {
+    combined(),
+    combinedStatus(documents),
+    groups,
+    policies[0]?.mode ?? DEFAULT_SITE_POLICY_MODE,
+    (mode) => {
       // User chose to proceed
-      triggerOriginalAction(element);
+      accept(mode);
     },
-    () => {
-      // User chose to review
-      // Could scroll to risks or highlight them
+    (mode) => {
+      // User chose to review: step through each flagged clause, then back to the button
+      startReviewWalkthrough({
+        risks: combined().risks,
+        trigger: element,
+        onAgree: () => accept(mode),
+      });
     }
   );
+  const refresh = () => updateModal(combined(), combinedStatus(documents), groups);
+
+  // Stream LLM findings into the open modal
+  await Promise.all(documents.filter(doc => doc.llmStatus === 'pending').map(async doc => {
+    const llmResult = await analyzeRisksWithLLM(doc.text, doc.keywordResult.risks, {
+      jurisdiction: state.jurisdiction,
+      onUpdate: (risks) => {
+        doc.analysis = updateEnhancedAnalysis(doc.keywordResult, risks);
+        refresh();
+      },
+    });
+
+    if (llmResult) {
+      state.llmResults.set(doc.text, llmResult);
+      doc.analysis = updateEnhancedAnalysis(doc.keywordResult, llmResult.risks, llmResult.summary);
+      doc.llmStatus = 'complete';
+    } else {
+      doc.analysis = doc.keywordResult;
+      doc.llmStatus = 'failed';
+    }
+    refresh();
+  }));
 }
 
 /**
- * Triggers the original click action
+ * Fetches and analyzes the agreements linked next to a checkbox or button
  */
-function triggerOriginalAction(element: Element): void {
-  // Temporarily disable interceptor
-  state.isEnabled = false;
-
-  // Create and dispatch a new click event
-  const clickEvent = new MouseEvent('click', {
-    bubbles: true,
-    cancelable: true,
-    view: window,
+async function loadLinkedDocuments(element: Element): Promise<InterceptedDocument[]> {
+  const documents = await Promise.all(findLinkedAgreements(element).map(link =>
+    fetchLinkedAgreement(link)
+      .then(agreement => agreement.text.length >= MIN_AGREEMENT_LENGTH
+        ? createDocument(agreement.title, link.url, link.type, agreement.text)
+        : null)
+      .catch(error => {
+        console.warn('[ProtectYaNeck] Failed to load linked agreement:', link.url, error);
+        return null;
+      })
+  ));
+
+  return documents.filter((doc): doc is InterceptedDocument => doc !== null);
+}
+
+/**
+ * Runs keyword analysis on one agreement
+ */
+async function createDocument(
+  title: string,
+  url: string,
+  type: AgreementDetection['type'],
+  text: string
+): Promise<InterceptedDocument> {
+  const keywordResult = analyzeRisksEnhanced(text, state.jurisdiction, url);
+  const textHash = await hashAgreement(text);
+  return { title, url, type, text, textHash, keywordResult, analysis: keywordResult, llmStatus: undefined };
+}
+
+/**
+ * Hashes everything the action agrees to, so a change to any linked
+ * document counts as changed terms
+ */
+async function hashDocuments(documents: InterceptedDocument[]): Promise<string> {
+  if (documents.length === 1) return documents[0].textHash;
+  return hashAgreement(documents.map(doc => doc.textHash).sort().join(','));
+}
+
+/**
+ * Remembers the user's decision for this site and records the acceptance
+ * in the scan history
+ */
+function recordAcceptance(
+  documents: InterceptedDocument[],
+  analysis: EnhancedAnalysis,
+  agreementHash: string,
+  mode: SitePolicyMode
+): void {
+  const acceptedAt = Date.now();
+  const policy: SitePolicy = {
+    hostname: window.location.hostname,
+    url: window.location.href,
+    title: document.title,
+    mode,
+    agreementHash,
+    acceptedAt,
+  };
+
+  // Keep the texts so the accepted version can be compared with later ones
+  Promise.all(documents.map(doc => saveAgreementText(doc.textHash, doc.text))).catch(error => {
+    console.warn('[ProtectYaNeck] Failed to save accepted agreement text:', error);
+  });
+
+  const isPage = documents.length === 1 && documents[0].url === window.location.href;
+  const linkedAgreements: LinkedAgreementResult[] | undefined = isPage ? undefined : documents.map(doc => ({
+    url: doc.url,
+    title: doc.title,
+    type: doc.type,
+    risks: doc.analysis.risks,
+    protections: doc.analysis.protections,
+    overallSeverity: doc.analysis.overallSeverity,
+    llmStatus: doc.llmStatus,
+    textHash: doc.textHash,
+  }));
+
+  const scan: ScanResult = {
+    id: `scan-${acceptedAt}`,
+    url: window.location.href,
+    timestamp: acceptedAt,
+    detection: detectAgreement(),
+    risks: analysis.risks,
+    protections: analysis.protections,
+    overallSeverity: analysis.overallSeverity,
+    summary: analysis.summary,
+    score: analysis.score,
+    industry: analysis.industry,
+    llmStatus: combinedStatus(documents),
+    textHash: isPage ? documents[0].textHash : undefined,
+    linkedAgreements,
+  };
+
+  chrome.runtime.sendMessage({
+    type: 'AGREEMENT_ACCEPTED',
+    payload: { policy, scan },
   });
+}
+
+/**
+ * Summarizes the AI review state across documents
+ */
+function combinedStatus(documents: InterceptedDocument[]): ScanResult['llmStatus'] {
+  const statuses = documents.map(doc => doc.llmStatus);
+  if (statuses.includes('pending')) return 'pending';
+  if (statuses.includes('failed')) return 'failed';
+  return statuses.includes('complete') ? 'complete' : undefined;
+}
+
+/**
+ * Blocks clicks on agreement buttons, links and submit buttons, and ticks
+ * of agreement checkboxes
+ */
+function onClick(event: MouseEvent): void {
+  const element = findIntercepted(event);
+  if (!element) return;
+
+  if (isCheckbox(element)) {
+    // Only agreeing is intercepted, not unticking. The browser has already
+    // flipped the box; cancelling the click flips it back
+    if (!(element as HTMLInputElement).checked) return;
+    block(event);
+    handleInterception(element, () => restoreCheckbox(element as HTMLInputElement));
+    return;
+  }
+
+  // Submit buttons are caught at the click too, since pages often cancel
+  // the submit from their own click handler. They're resumed through the
+  // form, so the page never sees an untrusted click
+  block(event);
+  const form = getSubmittedForm(element);
+  handleInterception(element, form
+    ? () => resumeSubmit(form, element as HTMLElement)
+    : () => resumeClick(element));
+}
+
+/**
+ * Blocks form submissions that didn't come from a click, such as a page
+ * script calling requestSubmit() or Enter in a form without a submit button
+ * Clicked submits were already caught, or let through, at the click
+ */
+function onSubmit(event: SubmitEvent): void {
+  if (!state.isEnabled || state.resuming) return;
+
+  const form = event.target as HTMLFormElement;
+  const submitter = event.submitter;
+
+  // Submits without a submitter are tied to the form's agreement button
+  const trigger = submitter
+    ? (state.interceptedElements.has(submitter) ? submitter : null)
+    : Array.from(form.elements).find(field => state.interceptedElements.has(field) && !isCheckbox(field)) || null;
+  if (!trigger) return;
+
+  block(event);
+  handleInterception(trigger, () => resumeSubmit(form, submitter));
+}
+
+/**
+ * Blocks Enter and Space on custom buttons (role="button"), which don't
+ * turn key presses into clicks the way native buttons do
+ */
+function onKeydown(event: KeyboardEvent): void {
+  if (event.key !== 'Enter' && event.key !== ' ') return;
+
+  const element = findIntercepted(event);
+  if (!element || isNativeControl(element)) return;
+
+  block(event);
+  handleInterception(element, () => resumeClick(element));
+}
+
+/**
+ * Catches agreement checkboxes ticked without a click, e.g. by a label
+ * script; the box is unticked until the user confirms
+ */
+function onChange(event: Event): void {
+  const element = findIntercepted(event);
+  if (!element || !isCheckbox(element) || !(element as HTMLInputElement).checked) return;
+
+  (element as HTMLInputElement).checked = false;
+  block(event);
+  handleInterception(element, () => restoreCheckbox(element as HTMLInputElement));
+}
+
+/**
+ * Finds the intercepted element an event is for, through shadow roots
+ */
+function findIntercepted(event: Event): Element | null {
+  if (!state.isEnabled || state.resuming) return null;
+
+  for (const target of event.composedPath()) {
+    if (target instanceof Element && state.interceptedElements.has(target)) return target;
+  }
+  return null;
+}
+
+/**
+ * Stops the page from seeing an event
+ */
+function block(event: Event): void {
+  event.preventDefault();
+  event.stopImmediatePropagation();
+}
+
+/**
+ * Submits the form again through the same button, so the page's own submit
+ * handlers run and see a trusted event
+ */
+function resumeSubmit(form: HTMLFormElement, submitter: HTMLElement | null): void {
+  if (!form.isConnected) return;
+
+  state.resuming = true;
+  try {
+    form.requestSubmit(submitter && submitter.isConnected ? submitter : undefined);
+  } catch {
+    // The button is no longer a submit button of this form
+    form.requestSubmit();
+  } finally {
+    state.resuming = false;
+  }
+}
+
+/**
+ * Ticks the checkbox again, with the events a real tick fires
+ */
+function restoreCheckbox(checkbox: HTMLInputElement): void {
+  if (checkbox.checked || !checkbox.isConnected) return;
+
+  state.resuming = true;
+  try {
+    // click() flips the box and fires click, input and change, which is
+    // what frameworks listen for
+    checkbox.click();
+
+    // A page handler cancelled the click, so set the state directly
+    if (!checkbox.checked) {
+      checkbox.checked = true;
+      checkbox.dispatchEvent(new Event('input', { bubbles: true, composed: true }));
+      checkbox.dispatchEvent(new Event('change', { bubbles: true }));
+    }
+  } finally {
+    state.resuming = false;
+  }
+}
 
-  element.dispatchEvent(clickEvent);
+/**
+ * Clicks a button or link that doesn't submit a form again, so the page's
+ * own click handlers run
+ */
+function resumeClick(element: Element): void {
+  if (!element.isConnected) return;
+
+  state.resuming = true;
+  try {
+    (element as HTMLElement).click();
+  } finally {
+    state.resuming = false;
+  }
+}
 
-  // Re-enable after a short delay
-  setTimeout(() => {
-    state.isEnabled = true;
-  }, 100);
+function isCheckbox(element: Element): boolean {
+  return element.tagName === 'INPUT' && (element as HTMLInputElement).type === 'checkbox';
 }
 
 /**
- * Sets up interception on agreement triggers
+ * Gets the form a submit button submits, or null for anything else
  */
-function setupInterceptors(): void {
-  // Find all potential agreement triggers
-  const buttons = document.querySelectorAll('button, a, [role="button"], input[type="submit"]');
-  const checkboxes = document.querySelectorAll('input[type="checkbox"]');
+function getSubmittedForm(element: Element): HTMLFormElement | null {
+  if (element instanceof HTMLButtonElement) return element.type === 'submit' ? element.form : null;
+  if (element instanceof HTMLInputElement) return ['submit', 'image'].includes(element.type) ? element.form : null;
+  return null;
+}
 
-  buttons.forEach(button => {
-    if (isAgreementTrigger(button) && !state.interceptedElements.has(button)) {
-      button.addEventListener('click', (e) => handleInterceptedClick(e as MouseEvent, button), true);
-      state.interceptedElements.add(button);
+function isNativeControl(element: Element): boolean {
+  return ['BUTTON', 'INPUT', 'A', 'SELECT', 'TEXTAREA'].includes(element.tagName);
+}
+
+/**
+ * Sets up interception on the agreement triggers in and under `root`
+ */
+function setupInterceptors(root: Element = document.body): void {
+  const candidates = [
+    ...(root.matches(TRIGGER_SELECTOR) ? [root] : []),
+    ...root.querySelectorAll(TRIGGER_SELECTOR),
+  ];
+
+  for (const element of candidates) {
+    if (!state.interceptedElements.has(element) && isAgreementTrigger(element)) {
+      state.interceptedElements.add(element);
     }
-  });
+  }
+}
+
+/**
+ * Scores the triggers a batch of added nodes could affect: those inside
+ * the nodes, and those in the form or button the nodes were added to,
+ * whose label or surroundings just changed
+ */
+function setupAddedInterceptors(nodes: Node[]): void {
+  const roots = new Set<Element>();
+
+  for (const node of nodes) {
+    const parent = node.parentElement;
+    if (!node.isConnected || !parent) continue;
+    if (node instanceof Element) roots.add(node);
 
-  checkboxes.forEach(checkbox => {
-    if (isAgreementTrigger(checkbox) && !state.interceptedElements.has(checkbox)) {
-      checkbox.addEventListener('click', (e) => handleInterceptedClick(e as MouseEvent, checkbox), true);
-      state.interceptedElements.add(checkbox);
+    const context = parent.closest(`form, ${TRIGGER_SELECTOR}`);
+    if (context && !roots.has(context)) {
+      roots.add(context);
+      for (const trigger of [context, ...context.querySelectorAll(TRIGGER_SELECTOR)]) {
+        state.rejectedElements.delete(trigger);
+      }
     }
-  });
+  }
+
+  roots.forEach(root => setupInterceptors(root));
 }
 
 /**
  * Initializes the interceptor with MutationObserver for dynamic content
  */
-export function initInterceptor(): void {
+export function initInterceptor(options: { jurisdiction?: Jurisdiction; threshold?: number } = {}): void {
+  state.jurisdiction = options.jurisdiction;
+  state.threshold = options.threshold ?? DEFAULT_INTERCEPT_THRESHOLD;
+
+  // Listen on the window, ahead of the page's own handlers, for every way
+  // an agreement gets accepted
+  window.addEventListener('click', onClick, true);
+  window.addEventListener('submit', onSubmit, true);
+  window.addEventListener('keydown', onKeydown, true);
+  window.addEventListener('change', onChange, true);
+
   // Initial setup
   setupInterceptors();
 
-  // Watch for dynamically added elements
-  const observer = new MutationObserver(() => {
-    setupInterceptors();
+  // Watch for dynamically added elements, scoring them once the DOM settles
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let addedNodes: Node[] = [];
+  const observer = new MutationObserver(records => {
+    for (const record of records) addedNodes.push(...record.addedNodes);
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const nodes = addedNodes;
+      addedNodes = [];
+      setupAddedInterceptors(nodes);
+    }, 300);
   });
 
   observer.observe(document.body, {
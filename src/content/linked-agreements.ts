@@ -0,0 +1,259 @@
+/**
+ * Linked Agreements
+ * Resolves the Terms and Privacy Policy links next to sign-up checkboxes and
+ * buttons, and analyzes each linked document on its own
+ */
+
+import {
+  AgreementDetection,
+  Jurisdiction,
+  LinkedAgreementResult,
+  ScanResult,
+} from '../shared/types';
+import { PdfPage } from '../services/pdf-pages';
+import { addUsage } from '../services/llm-budget';
+import { runScanPipeline, withRisks } from './scan-pipeline';
+import { parsePdf } from './pdf';
+import { isPublicWebUrl } from '../shared/urls';
+
+export interface AgreementLink {
+  url: string;
+  title: string;
+  type: AgreementDetection['type'];
+}
+
+export interface LinkedAgreementText {
+  text: string;
+  title: string;
+  pages?: PdfPage[];
+}
+
+// Sign-up forms rarely link more than terms, privacy and cookie policies
+const MAX_LINKED_AGREEMENTS = 4;
+
+// Anything shorter is a login wall or error page, not an agreement
+export const MIN_AGREEMENT_LENGTH = 500;
+
+// How far up from a checkbox or button to look for its links
+const MAX_CONTAINER_DEPTH = 4;
+
+const AGREEMENT_LINK_PATTERN = /terms|privacy|policy|agreement|conditions|eula|cookie/i;
+
+// "By creating an account you agree to..." notices and checkbox labels
+const CONSENT_TEXT_PATTERN = /\b(agree|accept|consent|acknowledge)\b/i;
+
+// Fetched documents, so repeat clicks don't re-download them
+const fetchCache = new Map<string, Promise<LinkedAgreementText>>();
+
+// URLs findLinkedAgreements returned; nothing else is fetched
+const foundLinks = new Set<string>();
+
+/**
+ * Finds agreement links next to a checkbox or button, or next to any
+ * consent notice on the page when no element is given
+ */
+export function findLinkedAgreements(near?: Element): AgreementLink[] {
+  const containers = near ? [findContainer(near)] : findConsentContainers();
+  const links: AgreementLink[] = [];
+  const pageUrl = stripHash(window.location.href);
+
+  for (const container of containers) {
+    for (const anchor of container.querySelectorAll<HTMLAnchorElement>('a[href]')) {
+      const text = anchor.textContent?.trim() || '';
+      if (!AGREEMENT_LINK_PATTERN.test(text) && !AGREEMENT_LINK_PATTERN.test(anchor.href)) continue;
+      if (!isPublicWebUrl(anchor.href)) continue;
+
+      const url = stripHash(anchor.href);
+      if (url === pageUrl || links.some(link => link.url === url)) continue;
+
+      links.push({ url, title: text || url, type: classifyLink(`${text} ${anchor.href}`) });
+      foundLinks.add(url);
+      if (links.length >= MAX_LINKED_AGREEMENTS) return links;
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Fetches a linked agreement through the background worker, which isn't
+ * bound by the page's CORS policy
+ * Only links found next to a consent notice or agreement trigger are fetched
+ */
+export function fetchLinkedAgreement(link: AgreementLink): Promise<LinkedAgreementText> {
+  if (!foundLinks.has(link.url)) {
+    return Promise.reject(new Error('Not a linked agreement'));
+  }
+
+  let cached = fetchCache.get(link.url);
+
+  if (!cached) {
+    cached = (async () => {
+      const response = await chrome.runtime.sendMessage({ type: 'FETCH_AGREEMENT', url: link.url });
+      if (response?.error) throw new Error(response.error);
+
+      if (response?.pdf) {
+        const pdf = await parsePdf(response.pdf);
+        return { text: pdf.text, title: link.title || pdf.title || link.url, pages: pdf.pages };
+      }
+
+      return { text: response?.text || '', title: link.title || response?.title || link.url };
+    })();
+
+    fetchCache.set(link.url, cached);
+    cached.catch(() => fetchCache.delete(link.url));
+  }
+
+  return cached;
+}
+
+/**
+ * Analyzes each linked agreement and combines the results, grouped per document
+ */
+export async function scanLinkedAgreements(
+  links: AgreementLink[],
+  base: ScanResult,
+  options: {
+    jurisdiction?: Jurisdiction;
+    onResult?: (result: ScanResult) => void;
+    onProgress?: (completed: number, total: number) => void;
+  }
+): Promise<ScanResult> {
+  const documents: LinkedAgreementResult[] = links.map(link => ({
+    url: link.url,
+    title: link.title,
+    type: link.type,
+    risks: [],
+    protections: [],
+    overallSeverity: 'low',
+    llmStatus: 'pending',
+  }));
+
+  const emit = () => options.onResult?.(combineLinkedAgreements(base, documents));
+  const progress = links.map(() => ({ completed: 0, total: 0 }));
+
+  await Promise.all(links.map(async (link, index) => {
+    try {
+      const agreement = await fetchLinkedAgreement(link);
+      if (agreement.text.length < MIN_AGREEMENT_LENGTH) {
+        throw new Error('No agreement text found');
+      }
+
+      await runScanPipeline(agreement.text, {
+        url: link.url,
+        detection: { isAgreement: true, confidence: 1, type: link.type, title: agreement.title, url: link.url },
+        jurisdiction: options.jurisdiction,
+        pages: agreement.pages,
+        onProgress: (completed, total) => {
+          progress[index] = { completed, total };
+          options.onProgress?.(
+            progress.reduce((sum, p) => sum + p.completed, 0),
+            progress.reduce((sum, p) => sum + p.total, 0)
+          );
+        },
+        onResult: (result) => {
+          documents[index] = toLinkedResult(link, agreement.title, result, index);
+          emit();
+        },
+      });
+    } catch (error) {
+      console.warn('[ProtectYaNeck] Failed to analyze linked agreement:', link.url, error);
+      documents[index] = {
+        ...documents[index],
+        llmStatus: undefined,
+        error: error instanceof Error ? error.message : 'Could not analyze this document',
+      };
+      emit();
+    }
+  }));
+
+  return combineLinkedAgreements(base, documents);
+}
+
+/**
+ * Merges per-document findings into one scan result, keeping the groups
+ */
+export function combineLinkedAgreements(base: ScanResult, documents: LinkedAgreementResult[]): ScanResult {
+  const statuses = documents.filter(d => !d.error).map(d => d.llmStatus);
+  const llmStatus: ScanResult['llmStatus'] =
+    statuses.includes('pending') ? 'pending'
+      : statuses.includes('failed') ? 'failed'
+        : statuses.includes('over_budget') ? 'over_budget'
+          : statuses.includes('complete') ? 'complete'
+            : undefined;
+
+  const llmUsage = documents.reduce<ScanResult['llmUsage']>(
+    (total, d) => (d.llmUsage ? addUsage(total, d.llmUsage) : total),
+    undefined
+  );
+
+  return withRisks({
+    ...base,
+    protections: documents.flatMap(d => d.protections),
+    linkedAgreements: documents,
+    llmStatus,
+    llmUsage,
+  }, documents.flatMap(d => d.risks));
+}
+
+/**
+ * Keeps a document's findings, with ids made unique across documents
+ */
+function toLinkedResult(link: AgreementLink, title: string, result: ScanResult, index: number): LinkedAgreementResult {
+  return {
+    url: link.url,
+    title,
+    type: link.type,
+    risks: result.risks.map(risk => ({ ...risk, id: `doc${index}-${risk.id}` })),
+    protections: (result.protections || []).map(p => ({ ...p, id: `doc${index}-${p.id}` })),
+    overallSeverity: result.overallSeverity,
+    llmStatus: result.llmStatus,
+    llmUsage: result.llmUsage,
+    textHash: result.textHash,
+  };
+}
+
+/**
+ * Finds the part of the page that belongs to a checkbox or button
+ */
+export function findContainer(element: Element): Element {
+  const form = element.closest('form');
+  if (form) return form;
+
+  let container = element;
+  for (let depth = 0; depth < MAX_CONTAINER_DEPTH && container.parentElement; depth++) {
+    container = container.parentElement;
+    if (container.querySelector('a[href]') && CONSENT_TEXT_PATTERN.test(container.textContent || '')) break;
+  }
+  return container;
+}
+
+/**
+ * Finds consent notices and agreement checkbox labels on the page
+ */
+function findConsentContainers(): Element[] {
+  const containers: Element[] = [];
+
+  for (const element of document.querySelectorAll('label, p, span, small, div, li')) {
+    const text = element.textContent || '';
+
+    // Short elements only, so the whole page doesn't count as one notice
+    if (text.length > 500 || !CONSENT_TEXT_PATTERN.test(text)) continue;
+    if (!element.querySelector('a[href]')) continue;
+    if (containers.some(c => c.contains(element))) continue;
+
+    containers.push(element);
+  }
+
+  return containers;
+}
+
+function classifyLink(text: string): AgreementDetection['type'] {
+  if (/privacy/i.test(text)) return 'privacy';
+  if (/cookie/i.test(text)) return 'cookie';
+  return 'tos';
+}
+
+function stripHash(url: string): string {
+  return url.split('#')[0];
+}
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ScanResult } from '../shared/types';
+import { overlay } from './overlay';
+
+const PAYLOAD = 'X<img src=x onerror=alert(1)>';
+
+/**
+ * Captures the overlay's closed shadow root as it's created
+ */
+function captureShadowRoot(): () => ShadowRoot {
+  const attachShadow = Element.prototype.attachShadow;
+  let root: ShadowRoot | null = null;
+  vi.spyOn(Element.prototype, 'attachShadow').mockImplementation(function (this: Element, init) {
+    root = attachShadow.call(this, init);
+    return root;
+  });
+  return () => root!;
+}
+
+describe('overlay', () => {
+  afterEach(() => {
+    overlay.destroy();
+    vi.restoreAllMocks();
+  });
+
+  const result: ScanResult = {
+    id: 'scan-1',
+    url: 'https://example.com/terms',
+    timestamp: 0,
+    detection: { isAgreement: true, confidence: 1, type: 'tos', url: 'https://example.com/terms' },
+    risks: [{
+      id: 'risk-1',
+      category: 'arbitration',
+      severity: 'high',
+      title: PAYLOAD,
+      summary: PAYLOAD,
+      originalText: 'binding arbitration',
+      section: `12 Terms ${PAYLOAD}`,
+      jurisdictionNote: PAYLOAD,
+    }],
+    overallSeverity: 'high',
+    summary: PAYLOAD,
+  };
+
+  it('escapes text from the agreement and the analysis', () => {
+    const getRoot = captureShadowRoot();
+    overlay.showResults(result, 5);
+
+    const root = getRoot();
+    expect(root.querySelector('img')).toBeNull();
+    expect(root.querySelector('.pyn-risk-section')?.textContent).toBe(`12 Terms ${PAYLOAD}`);
+    expect(root.querySelector('.pyn-summary')?.textContent).toBe(PAYLOAD);
+  });
+
+  it('escapes linked document titles and errors', () => {
+    const getRoot = captureShadowRoot();
+    overlay.showResults({
+      ...result,
+      linkedAgreements: [{
+        url: 'https://example.com/privacy',
+        title: PAYLOAD,
+        type: 'privacy',
+        risks: [],
+        protections: [],
+        overallSeverity: 'low',
+        error: PAYLOAD,
+      }],
+    }, 5);
+
+    const root = getRoot();
+    expect(root.querySelector('img')).toBeNull();
+    expect(root.querySelector('.pyn-linked-note')?.textContent).toContain(PAYLOAD);
+  });
+});
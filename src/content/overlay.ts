@@ -1,5 +1,14 @@
-import { ScanResult, RiskItem, RiskSeverity } from '../shared/types';
-import { SEVERITY_COLORS, RISK_CATEGORIES } from '../shared/constants';
+import { ScanResult, RiskItem, RiskSeverity, ProtectionItem, LinkedAgreementResult } from '../shared/types';
+import {
+  SEVERITY_COLORS,
+  RISK_CATEGORIES,
+  PROTECTION_CATEGORIES,
+  PROTECTION_COLOR,
+  RISK_AGREEMENT_LABELS,
+} from '../shared/constants';
+import { formatCost } from '../services/llm-budget';
+import { clearHighlights, isRiskHighlighted, scrollToRisk } from './highlighter';
+import { escapeHtml } from '../shared/html';
 
 const OVERLAY_ID = 'pyn-overlay-root';
 const SHADOW_HOST_ID = 'pyn-shadow-host';
@@ -12,6 +21,7 @@ export class OverlayManager {
   private container: HTMLElement | null = null;
   private isMinimized = false;
   private onLawyerClick: (() => void) | null = null;
+  private scanProgress: { completed: number; total: number } | null = null;
 
   /**
    * Initializes the overlay shadow DOM
@@ -50,8 +60,9 @@ export class OverlayManager {
   /**
    * Shows scanning indicator
    */
-  showScanning(): void {
+  showScanning(progress?: { completed: number; total: number }): void {
     if (!this.container) this.init();
+    this.scanProgress = null;
 
     this.container!.innerHTML = `
       <div class="pyn-card pyn-scanning">
@@ -64,9 +75,39 @@ export class OverlayManager {
         <div class="pyn-body">
           <div class="pyn-spinner"></div>
           <p class="pyn-status">Scanning agreement...</p>
+          <div class="pyn-progress pyn-hidden">
+            <div class="pyn-progress-bar"></div>
+          </div>
         </div>
       </div>
     `;
+
+    if (progress) this.updateScanProgress(progress.completed, progress.total);
+  }
+
+  /**
+   * Updates the scanning indicator as sections of a long agreement are analyzed
+   * Works both while scanning and in the AI review strip of the results
+   */
+  updateScanProgress(completed: number, total: number): void {
+    this.scanProgress = { completed, total };
+
+    const status = this.shadowRoot?.querySelector('.pyn-scanning .pyn-status, .pyn-llm-status .pyn-status');
+    const progress = this.shadowRoot?.querySelector('.pyn-progress');
+    const bar = this.shadowRoot?.querySelector<HTMLElement>('.pyn-progress-bar');
+    if (!status || !progress || !bar) return;
+
+    // A single request has nothing to count
+    if (total <= 1) {
+      status.textContent = 'Analyzing agreement...';
+      return;
+    }
+
+    status.textContent = completed < total
+      ? `Analyzing section ${Math.min(completed + 1, total)} of ${total}...`
+      : 'Summarizing findings...';
+    progress.classList.remove('pyn-hidden');
+    bar.style.width = `${Math.round((completed / total) * 100)}%`;
   }
 
   /**
@@ -77,7 +118,11 @@ export class OverlayManager {
     this.onLawyerClick = onLawyerClick || null;
 
     const severityColor = SEVERITY_COLORS[result.overallSeverity];
-    const risksHtml = result.risks.map(risk => this.renderRiskItem(risk)).join('');
+    const risksHtml = result.linkedAgreements?.length
+      ? result.linkedAgreements.map(agreement => this.renderLinkedAgreement(agreement)).join('')
+      : result.risks.map(risk => this.renderRiskItem(risk)).join('');
+    const protections = result.protections || [];
+    const protectionsHtml = protections.map(protection => this.renderProtectionItem(protection)).join('');
 
     this.container!.innerHTML = `
       <div class="pyn-card">
@@ -97,9 +142,11 @@ export class OverlayManager {
             ${result.overallSeverity.toUpperCase()} RISK
           </div>
 
-          <p class="pyn-summary">${result.summary}</p>
+          <p class="pyn-summary">${escapeHtml(result.summary)}</p>
 
-          ${result.risks.length > 0 ? `
+          ${this.renderLLMStatus(result)}
+
+          ${result.risks.length > 0 || result.linkedAgreements?.length ? `
             <div class="pyn-risks">
               <h4>Detected Risks</h4>
               ${risksHtml}
@@ -110,6 +157,13 @@ export class OverlayManager {
             </div>
           `}
 
+          ${protections.length > 0 ? `
+            <div class="pyn-protections">
+              <h4>In Your Favor</h4>
+              ${protectionsHtml}
+            </div>
+          ` : ''}
+
           <div class="pyn-footer">
             <div class="pyn-scans-remaining">
               ${scansRemaining} free scan${scansRemaining !== 1 ? 's' : ''} remaining
@@ -123,6 +177,40 @@ export class OverlayManager {
     `;
 
     this.attachEventListeners();
+
+    if (result.llmStatus === 'pending' && this.scanProgress) {
+      this.updateScanProgress(this.scanProgress.completed, this.scanProgress.total);
+    }
+  }
+
+  /**
+   * Renders the AI review strip while LLM findings stream in
+   */
+  private renderLLMStatus(result: ScanResult): string {
+    if (result.llmStatus === 'pending') {
+      return `
+        <div class="pyn-llm-status">
+          <p class="pyn-status">🤖 AI is reviewing the agreement...</p>
+          <div class="pyn-progress pyn-hidden">
+            <div class="pyn-progress-bar"></div>
+          </div>
+        </div>
+      `;
+    }
+
+    if (result.llmStatus === 'failed') {
+      return '<p class="pyn-llm-status pyn-llm-note">AI analysis unavailable. Showing keyword results.</p>';
+    }
+
+    if (result.llmStatus === 'complete' && result.llmUsage) {
+      return `<p class="pyn-llm-status pyn-llm-note">🤖 AI analysis cost ${formatCost(result.llmUsage.cost)} (${(result.llmUsage.inputTokens + result.llmUsage.outputTokens).toLocaleString()} tokens)</p>`;
+    }
+
+    if (result.llmStatus === 'over_budget') {
+      return '<p class="pyn-llm-status pyn-llm-note">Monthly AI budget reached. Showing keyword results.</p>';
+    }
+
+    return '';
   }
 
   /**
@@ -192,14 +280,84 @@ export class OverlayManager {
     const color = SEVERITY_COLORS[risk.severity];
     const meta = RISK_CATEGORIES[risk.category];
 
+    // Risks whose clause is highlighted in the page jump to it when clicked
+    const jumpable = isRiskHighlighted(risk.id);
+
     return `
-      <div class="pyn-risk-item" style="border-left: 3px solid ${color}">
+      <div
+        class="pyn-risk-item${jumpable ? ' pyn-risk-jump' : ''}"
+        ${jumpable ? `data-risk-id="${escapeHtml(risk.id)}" title="Show in page"` : ''}
+        style="border-left: 3px solid ${color}"
+      >
+        <div class="pyn-risk-header">
+          <span class="pyn-risk-icon" style="background: ${meta.color}1a">${meta.icon}</span>
+          <span class="pyn-risk-title">${escapeHtml(risk.title)}</span>
+          <span class="pyn-risk-severity" style="background: ${color}">${escapeHtml(risk.severity)}</span>
+        </div>
+        <p class="pyn-risk-summary">${escapeHtml(risk.summary)}</p>
+        ${risk.jurisdictionNote ? `
+          <p class="pyn-jurisdiction-note">
+            📍 ${risk.likelyUnenforceable ? '<strong>Likely unenforceable where you live.</strong> ' : ''}${escapeHtml(risk.jurisdictionNote)}
+          </p>
+        ` : ''}
+        ${this.renderLocation(risk)}
+        ${risk.agreement ? `
+          <span class="pyn-risk-agreement pyn-agreement-${risk.agreement}">${RISK_AGREEMENT_LABELS[risk.agreement]}</span>
+        ` : ''}
+      </div>
+    `;
+  }
+
+  /**
+   * Renders one linked document's findings under its own heading
+   */
+  private renderLinkedAgreement(agreement: LinkedAgreementResult): string {
+    const status = agreement.error
+      ? `<p class="pyn-linked-note">Couldn't analyze this document: ${escapeHtml(agreement.error)}</p>`
+      : agreement.llmStatus === 'pending' && agreement.risks.length === 0
+        ? '<p class="pyn-linked-note">Analyzing...</p>'
+        : agreement.risks.length === 0
+          ? '<p class="pyn-linked-note">✓ No significant risks detected</p>'
+          : '';
+
+    return `
+      <div class="pyn-linked">
+        <div class="pyn-linked-header">
+          <a class="pyn-linked-title" href="${escapeHtml(agreement.url)}" target="_blank" rel="noopener">📄 ${escapeHtml(agreement.title)}</a>
+          ${agreement.error ? '' : `
+            <span class="pyn-risk-severity" style="background: ${SEVERITY_COLORS[agreement.overallSeverity]}">
+              ${agreement.risks.length} risk${agreement.risks.length !== 1 ? 's' : ''}
+            </span>
+          `}
+        </div>
+        ${status}
+        ${agreement.risks.map(risk => this.renderRiskItem(risk)).join('')}
+      </div>
+    `;
+  }
+
+  /**
+   * Renders where a finding is, e.g. "14.2 Arbitration · Page 3"
+   */
+  private renderLocation(item: RiskItem | ProtectionItem): string {
+    const parts = [item.section, item.location?.page ? `Page ${item.location.page}` : undefined].filter(Boolean);
+    return parts.length > 0 ? `<p class="pyn-risk-section">${escapeHtml(parts.join(' · '))}</p>` : '';
+  }
+
+  /**
+   * Renders a single protection item
+   */
+  private renderProtectionItem(protection: ProtectionItem): string {
+    const meta = PROTECTION_CATEGORIES[protection.category];
+
+    return `
+      <div class="pyn-risk-item pyn-protection-item" style="border-left: 3px solid ${PROTECTION_COLOR}">
         <div class="pyn-risk-header">
           <span class="pyn-risk-icon">${meta.icon}</span>
-          <span class="pyn-risk-title">${risk.title}</span>
-          <span class="pyn-risk-severity" style="background: ${color}">${risk.severity}</span>
+          <span class="pyn-risk-title">${escapeHtml(protection.title)}</span>
         </div>
-        <p class="pyn-risk-summary">${risk.summary}</p>
+        <p class="pyn-risk-summary">${escapeHtml(protection.summary)}</p>
+        ${this.renderLocation(protection)}
       </div>
     `;
   }
@@ -230,6 +388,10 @@ export class OverlayManager {
       }
     });
 
+    this.shadowRoot?.querySelectorAll<HTMLElement>('.pyn-risk-jump').forEach(item => {
+      item.addEventListener('click', () => scrollToRisk(item.dataset.riskId || ''));
+    });
+
     upgradeBtn?.addEventListener('click', () => {
       // Will open upgrade page in Phase 2
       window.open('https://protectyaneck.com/upgrade', '_blank');
@@ -240,6 +402,7 @@ export class OverlayManager {
    * Removes the overlay from the page
    */
   destroy(): void {
+    clearHighlights();
     const host = document.getElementById(SHADOW_HOST_ID);
     if (host) {
       host.remove();
@@ -248,6 +411,13 @@ export class OverlayManager {
     this.container = null;
   }
 
+  /**
+   * Checks if the overlay is currently on the page
+   */
+  isVisible(): boolean {
+    return this.container !== null;
+  }
+
   /**
    * Returns the overlay styles
    */
@@ -378,6 +548,35 @@ export class OverlayManager {
         margin-bottom: 12px;
       }
 
+      .pyn-linked {
+        margin-bottom: 16px;
+      }
+
+      .pyn-linked-header {
+        display: flex;
+        align-items: center;
+        justify-content: space-between;
+        gap: 8px;
+        margin-bottom: 8px;
+      }
+
+      .pyn-linked-title {
+        font-size: 13px;
+        font-weight: 600;
+        color: #1e293b;
+        text-decoration: none;
+      }
+
+      .pyn-linked-title:hover {
+        text-decoration: underline;
+      }
+
+      .pyn-linked-note {
+        font-size: 12px;
+        color: #64748b;
+        margin-bottom: 8px;
+      }
+
       .pyn-risk-item {
         background: #f8fafc;
         border-radius: 8px;
@@ -385,6 +584,15 @@ export class OverlayManager {
         margin-bottom: 8px;
       }
 
+      .pyn-risk-jump {
+        cursor: pointer;
+        transition: background 0.2s ease;
+      }
+
+      .pyn-risk-jump:hover {
+        background: #eef2ff;
+      }
+
       .pyn-risk-header {
         display: flex;
         align-items: center;
@@ -394,6 +602,12 @@ export class OverlayManager {
 
       .pyn-risk-icon {
         font-size: 16px;
+        width: 26px;
+        height: 26px;
+        border-radius: 6px;
+        display: flex;
+        align-items: center;
+        justify-content: center;
       }
 
       .pyn-risk-title {
@@ -418,6 +632,79 @@ export class OverlayManager {
         line-height: 1.5;
       }
 
+      .pyn-protections {
+        margin-top: 16px;
+      }
+
+      .pyn-protections h4 {
+        font-size: 12px;
+        text-transform: uppercase;
+        letter-spacing: 0.5px;
+        color: ${PROTECTION_COLOR};
+        margin-bottom: 12px;
+      }
+
+      .pyn-protection-item {
+        background: #f0fdf4;
+      }
+
+      .pyn-jurisdiction-note {
+        font-size: 12px;
+        color: #1d4ed8;
+        background: #eff6ff;
+        border-radius: 6px;
+        padding: 6px 8px;
+        margin-top: 8px;
+        line-height: 1.4;
+      }
+
+      .pyn-risk-section {
+        font-size: 11px;
+        color: #94a3b8;
+        margin-top: 6px;
+      }
+
+      .pyn-risk-agreement {
+        display: inline-block;
+        font-size: 10px;
+        font-weight: 600;
+        padding: 2px 6px;
+        border-radius: 4px;
+        margin-top: 6px;
+      }
+
+      .pyn-agreement-pending {
+        background: #f1f5f9;
+        color: #64748b;
+      }
+
+      .pyn-agreement-confirmed {
+        background: #dcfce7;
+        color: #166534;
+      }
+
+      .pyn-agreement-disputed {
+        background: #f1f5f9;
+        color: #475569;
+      }
+
+      .pyn-agreement-llm_only {
+        background: #ede9fe;
+        color: #5b21b6;
+      }
+
+      .pyn-llm-status {
+        background: #f8fafc;
+        border-radius: 8px;
+        padding: 10px 12px;
+        margin-bottom: 12px;
+      }
+
+      .pyn-llm-note {
+        font-size: 12px;
+        color: #64748b;
+      }
+
       .pyn-no-risks {
         text-align: center;
         padding: 20px;
@@ -523,6 +810,25 @@ export class OverlayManager {
         color: #64748b;
         font-size: 13px;
       }
+
+      .pyn-progress {
+        height: 4px;
+        margin-top: 10px;
+        background: #e2e8f0;
+        border-radius: 2px;
+        overflow: hidden;
+      }
+
+      .pyn-progress-bar {
+        width: 0;
+        height: 100%;
+        background: #3b82f6;
+        transition: width 0.3s ease;
+      }
+
+      .pyn-progress.pyn-hidden {
+        display: none;
+      }
     `;
   }
 }
@@ -0,0 +1,162 @@
+/**
+ * PDF Agreements
+ * Finds PDFs opened in Chrome's viewer or embedded in the page and
+ * extracts their text in the extension's offscreen document
+ */
+
+import { AgreementDetection } from '../shared/types';
+import { AGREEMENT_PATTERNS } from '../shared/constants';
+import { PdfText } from '../services/pdf-pages';
+import { arrayBufferToBase64 } from '../shared/base64';
+
+// Embedded viewers whose source is a PDF
+const EMBEDDED_PDF_SELECTORS = [
+  'embed[type="application/pdf"]',
+  'object[type="application/pdf"]',
+  'iframe[src*=".pdf" i]',
+  'embed[src*=".pdf" i]',
+  'object[data*=".pdf" i]',
+];
+
+// Pages with less text than this are treated as wrappers around their PDF
+const MIN_PAGE_TEXT_LENGTH = 500;
+
+// Scanning right after auto-detection reuses the parsed document
+let lastExtraction: { url: string; pdf: Promise<PdfText> } | null = null;
+
+/**
+ * Returns the URL of the PDF shown on this page, if any
+ */
+export function findPdfUrl(): string | null {
+  // Chrome's viewer wraps a top-level PDF in a document of that type
+  if (document.contentType === 'application/pdf' || /\.pdf$/i.test(window.location.pathname)) {
+    return window.location.href;
+  }
+
+  for (const selector of EMBEDDED_PDF_SELECTORS) {
+    const element = document.querySelector(selector);
+    const source = element?.getAttribute('src') || element?.getAttribute('data');
+    if (!source || source === 'about:blank') continue;
+
+    let url: string;
+    try {
+      url = new URL(source, window.location.href).href;
+    } catch {
+      continue; // Not a usable URL
+    }
+
+    // A brochure embedded in a sign-up page shouldn't replace the page's own terms
+    if (isLikelyAgreementPdf(url) || (document.body?.innerText || '').trim().length < MIN_PAGE_TEXT_LENGTH) {
+      return url;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Guesses from the URL alone whether a PDF is an agreement, before parsing it
+ */
+export function isLikelyAgreementPdf(url: string): boolean {
+  return AGREEMENT_PATTERNS.urlPatterns.some(pattern => pattern.test(url));
+}
+
+/**
+ * Downloads and parses a PDF, going through the background script when
+ * the page's CORS policy blocks the content script
+ */
+export function extractPdfAgreement(url: string): Promise<PdfText> {
+  if (lastExtraction?.url !== url) {
+    const pdf = downloadPdf(url).then(parsePdf);
+    lastExtraction = { url, pdf };
+
+    // Let a failed download be retried
+    pdf.catch(() => {
+      if (lastExtraction?.pdf === pdf) lastExtraction = null;
+    });
+  }
+
+  return lastExtraction!.pdf;
+}
+
+/**
+ * Fetches the PDF's bytes, base64-encoded
+ */
+async function downloadPdf(url: string): Promise<string> {
+  try {
+    const response = await fetch(url, { credentials: 'include' });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return arrayBufferToBase64(await response.arrayBuffer());
+  } catch {
+    const response = await chrome.runtime.sendMessage({ type: 'FETCH_PDF', url });
+    if (!response?.data) {
+      throw new Error(response?.error || 'Could not download the PDF');
+    }
+    return response.data;
+  }
+}
+
+/**
+ * Extracts a PDF's text through the background worker, which parses it in
+ * the offscreen document so the parser isn't injected into every page
+ */
+export async function parsePdf(data: string): Promise<PdfText> {
+  const response = await chrome.runtime.sendMessage({ type: 'EXTRACT_PDF_TEXT', data });
+  if (!response?.pdf) {
+    throw new Error(response?.error || 'Could not read the PDF');
+  }
+  return response.pdf;
+}
+
+/**
+ * Scores a parsed PDF the way detectAgreement scores a page
+ */
+export function detectPdfAgreement(url: string, pdf: PdfText): AgreementDetection {
+  const title = pdf.title || getFileName(url);
+  const opening = pdf.text.substring(0, 5000);
+
+  let confidence = 0;
+  let type: AgreementDetection['type'] = 'unknown';
+
+  if (isLikelyAgreementPdf(url)) {
+    confidence += 0.3;
+    if (/privacy/i.test(url)) type = 'privacy';
+    else if (/terms|tos|conditions/i.test(url)) type = 'tos';
+    else if (/cookie/i.test(url)) type = 'cookie';
+  }
+
+  // PDFs rarely have a useful title, so the opening lines count as one
+  const heading = `${title} ${opening.substring(0, 300)}`;
+  if (AGREEMENT_PATTERNS.titlePatterns.some(pattern => pattern.test(heading))) {
+    confidence += 0.4;
+    if (/privacy/i.test(heading)) type = 'privacy';
+    else if (/terms|conditions|agreement/i.test(heading)) type = 'tos';
+    else if (/cookie/i.test(heading)) type = 'cookie';
+  }
+
+  if (AGREEMENT_PATTERNS.contentPatterns.some(pattern => pattern.test(opening))) {
+    confidence += 0.2;
+  }
+
+  confidence = Math.min(confidence, 1);
+
+  return {
+    isAgreement: confidence >= 0.3,
+    confidence,
+    type,
+    title: title || undefined,
+    url,
+  };
+}
+
+/**
+ * Gets a PDF's file name from its URL, e.g. "terms-of-service.pdf"
+ */
+function getFileName(url: string): string {
+  const name = url.split(/[?#]/)[0].split('/').pop() || '';
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Clause Qualifier Detection
+ * Recognizes negations, exceptions and scope qualifiers around a keyword match
+ * so "we do not sell your data" isn't reported as data selling
+ */
+
+import { RiskQualifier } from '../shared/types';
+
+// Words that negate the verb or noun that follows them
+const NEGATION_WORD_PATTERN = /^(?:not|never|no|nor|neither|nothing|cannot|can't|won't|don't|doesn't|didn't|isn't|aren't|shan't|mustn't|shouldn't|wouldn't)$/i;
+
+// Phrases built from negation words that don't negate anything:
+// "no later than 30 days", "including but not limited to",
+// "nothing in these Terms limits our right to..."
+const NON_NEGATING_PATTERN = /\b(?:no\s+(?:later|earlier|sooner|less|more|fewer)\s+than|not\s+(?:only|limited\s+to|less\s+than|more\s+than)|nothing\s+(?:in|contained\s+in)\b[^.;]*?\b(?:limit|restrict|prevent|affect|prejudice|preclude)s?)\b/gi;
+
+// Contrast markers and new clauses that end the scope of a preceding negation
+const CONTRAST_PATTERN = /[;:]|\b(?:but|however|although|though|whereas|except that)\b|,\s*(?:and\s+)?(?:we|you|they|it|our|your)\b/gi;
+
+// Words between a negation and the verb it governs: "will not ever be able to share"
+const AUXILIARY_WORDS = new Set([
+  'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'will', 'shall', 'may', 'can', 'ever',
+  'able', 'to', 'in', 'any', 'way', 'otherwise', 'directly', 'or', 'indirectly', 'knowingly', 'intentionally',
+]);
+
+// Exceptions that carve out cases from the statement
+const EXCEPTION_PATTERN = /\b(?:except|unless|other than|save as|apart from|excluding|with the exception of)\b/i;
+
+// Qualifiers that narrow the statement's scope
+const SCOPE_PATTERN = /\b(?:only|solely|limited to|aggregated?|anonymi[sz]ed|de-identified|pseudonymi[sz]ed|with your (?:prior |express |explicit )?(?:consent|permission)|at your (?:request|direction))\b/i;
+
+// How many words before the match a negation may appear in
+const NEGATION_WINDOW_WORDS = 8;
+
+/**
+ * Finds the qualifiers that apply to a match inside a clause
+ */
+export function detectQualifiers(clause: string, matchIndex: number, matchLength: number): RiskQualifier[] {
+  const qualifiers: RiskQualifier[] = [];
+
+  if (isNegated(clause.substring(0, matchIndex))) {
+    qualifiers.push('negated');
+  }
+
+  if (EXCEPTION_PATTERN.test(clause)) {
+    qualifiers.push('exception');
+  }
+
+  // Scope qualifiers count anywhere except inside the matched phrase itself
+  const outsideMatch = clause.substring(0, matchIndex) + ' ' + clause.substring(matchIndex + matchLength);
+  if (SCOPE_PATTERN.test(outsideMatch)) {
+    qualifiers.push('scoped');
+  }
+
+  return qualifiers;
+}
+
+/**
+ * Checks if the qualifiers turn a risky phrase into a promise that protects
+ * the user, such as "we do not sell your data"
+ */
+export function isUserProtective(qualifiers: RiskQualifier[]): boolean {
+  return qualifiers.includes('negated') && !qualifiers.includes('exception');
+}
+
+/**
+ * Checks if the text leading up to a match negates it: the nearest negation
+ * has to govern the matched phrase itself, with only auxiliaries in between
+ * "We do not limit how we share..." and "you cannot opt out of arbitration"
+ * negate a verb of their own, not the match
+ */
+function isNegated(prefix: string): boolean {
+  // Idioms are blanked out first, keeping offsets, so their "no" and "not" don't count
+  const text = prefix.replace(NON_NEGATING_PATTERN, idiom => ' '.repeat(idiom.length));
+
+  // Only look after the last contrast marker ("We don't sell data, but we share...")
+  let scopeStart = 0;
+  for (const match of text.matchAll(CONTRAST_PATTERN)) {
+    scopeStart = (match.index ?? 0) + match[0].length;
+  }
+
+  const words = text.substring(scopeStart).trim().split(/\s+/).filter(Boolean)
+    .slice(-NEGATION_WINDOW_WORDS)
+    .map(word => word.replace(/’/g, "'").replace(/^[^\w']+|[^\w']+$/g, ''));
+
+  for (let i = words.length - 1; i >= 0; i--) {
+    if (!NEGATION_WORD_PATTERN.test(words[i])) continue;
+
+    // Any other word in between is a verb or clause the negation governs instead
+    return words.slice(i + 1).every(word => AUXILIARY_WORDS.has(word.toLowerCase()));
+  }
+
+  return false;
+}
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RiskItem } from '../shared/types';
+import { startReviewWalkthrough } from './review-walkthrough';
+
+// Stands in for the page's highlights, which jsdom can't lay out
+let highlighted: RiskItem[] = [];
+
+vi.mock('./highlighter', () => ({
+  highlightRisks: vi.fn((risks: RiskItem[]) => { highlighted = risks; }),
+  clearHighlights: vi.fn(() => { highlighted = []; }),
+  getHighlightedRisks: () => highlighted,
+  getRiskMark: () => null,
+  scrollToRisk: () => true,
+}));
+
+function risk(id: string): RiskItem {
+  return {
+    id,
+    category: 'arbitration',
+    severity: 'high',
+    title: `Risk ${id}`,
+    summary: 'Disputes go to binding arbitration.',
+    originalText: 'binding arbitration',
+  };
+}
+
+function pressKey(target: EventTarget, key: string): KeyboardEvent {
+  const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, composed: true });
+  target.dispatchEvent(event);
+  return event;
+}
+
+describe('review walkthrough', () => {
+  beforeEach(() => {
+    highlighted = [];
+    document.body.innerHTML = '<input id="email"><button id="agree">I agree</button>';
+  });
+
+  afterEach(() => {
+    pressKey(document, 'Escape');
+    document.body.innerHTML = '';
+  });
+
+  function start(risks: RiskItem[]): void {
+    startReviewWalkthrough({ risks, trigger: document.getElementById('agree')!, onAgree: vi.fn() });
+  }
+
+  it('steps through clauses with the arrow keys', () => {
+    start([risk('a'), risk('b')]);
+    expect(pressKey(document.body, 'ArrowRight').defaultPrevented).toBe(true);
+  });
+
+  it('leaves arrow keys in the page\'s fields alone', () => {
+    start([risk('a'), risk('b')]);
+    expect(pressKey(document.getElementById('email')!, 'ArrowRight').defaultPrevented).toBe(false);
+    expect(pressKey(document.getElementById('email')!, 'ArrowLeft').defaultPrevented).toBe(false);
+  });
+
+  it('puts back what was highlighted before when it closes', () => {
+    const overlayRisks = [risk('a'), risk('b'), risk('c')];
+    highlighted = overlayRisks;
+
+    start([risk('a'), risk('b')]);
+    pressKey(document, 'Escape');
+
+    expect(highlighted).toBe(overlayRisks);
+  });
+
+  it('removes its highlights when nothing was highlighted before', () => {
+    start([risk('a')]);
+    pressKey(document, 'Escape');
+    expect(highlighted).toEqual([]);
+  });
+
+  it('leaves highlights alone that replaced its own', () => {
+    start([risk('a')]);
+    const rescanned = [risk('d')];
+    highlighted = rescanned;
+
+    pressKey(document, 'Escape');
+    expect(highlighted).toBe(rescanned);
+  });
+});
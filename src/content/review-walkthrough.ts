@@ -0,0 +1,441 @@
+/**
+ * Review Walkthrough
+ * Steps the user through each flagged clause before they agree, tracks which
+ * ones they've seen, and brings them back to the agree button with a summary
+ */
+
+import { RiskItem } from '../shared/types';
+import { SEVERITY_COLORS } from '../shared/constants';
+import { clearHighlights, getHighlightedRisks, getRiskMark, highlightRisks, scrollToRisk } from './highlighter';
+import { escapeHtml } from '../shared/html';
+
+const PANEL_ID = 'pyn-review-panel';
+
+// Long clauses are cut down in the panel; the page shows them in full
+const MAX_QUOTE_LENGTH = 280;
+
+export interface ReviewOptions {
+  risks: RiskItem[];
+  trigger: Element; // The agree button or checkbox that was intercepted
+  onAgree: () => void;
+}
+
+interface ReviewState {
+  steps: RiskItem[];
+  current: number;
+  viewed: Set<string>;
+  finished: boolean;
+}
+
+/**
+ * Opens the walkthrough on the first flagged clause
+ */
+export function startReviewWalkthrough({ risks, trigger, onAgree }: ReviewOptions): void {
+  document.getElementById(PANEL_ID)?.remove();
+
+  // Whatever the overlay highlighted is put back when the walkthrough closes
+  const previousRisks = getHighlightedRisks();
+  highlightRisks(risks);
+
+  const review: ReviewState = {
+    steps: orderByPosition(risks),
+    current: 0,
+    viewed: new Set(),
+    finished: false,
+  };
+
+  const host = document.createElement('div');
+  host.id = PANEL_ID;
+  const shadow = host.attachShadow({ mode: 'closed' });
+
+  const styles = document.createElement('style');
+  styles.textContent = getStyles();
+  shadow.appendChild(styles);
+
+  const panel = document.createElement('div');
+  panel.className = 'pyn-review';
+  shadow.appendChild(panel);
+  document.body.appendChild(host);
+
+  const close = () => {
+    host.remove();
+    document.removeEventListener('keydown', onKeydown, true);
+
+    // Leave the highlights alone if something else has replaced them since
+    if (!sameRisks(getHighlightedRisks(), risks)) return;
+    if (previousRisks.length > 0) highlightRisks(previousRisks);
+    else clearHighlights();
+  };
+
+  const goTo = (index: number) => {
+    review.current = Math.max(0, Math.min(index, review.steps.length - 1));
+    review.finished = false;
+    render();
+  };
+
+  const finish = () => {
+    review.finished = true;
+    render();
+
+    // Back to where the user was about to agree
+    trigger.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    trigger.animate(
+      [
+        { boxShadow: '0 0 0 0 rgba(59, 130, 246, 0)' },
+        { boxShadow: '0 0 0 6px rgba(59, 130, 246, 0.6)' },
+        { boxShadow: '0 0 0 0 rgba(59, 130, 246, 0)' },
+      ],
+      { duration: 700, iterations: 2, delay: 300 }
+    );
+  };
+
+  const onKeydown = (e: KeyboardEvent) => {
+    // Arrow keys move the caret in the page's own fields
+    if (isEditable(e.composedPath()[0])) return;
+
+    if (e.key === 'Escape') {
+      close();
+    } else if (!review.finished && e.key === 'ArrowRight') {
+      if (review.current < review.steps.length - 1) goTo(review.current + 1);
+      else finish();
+    } else if (!review.finished && e.key === 'ArrowLeft') {
+      goTo(review.current - 1);
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+  document.addEventListener('keydown', onKeydown, true);
+
+  const render = () => {
+    if (review.finished || review.steps.length === 0) {
+      panel.innerHTML = renderSummary(review);
+    } else {
+      const risk = review.steps[review.current];
+      review.viewed.add(risk.id);
+      const inPage = scrollToRisk(risk.id);
+      panel.innerHTML = renderStep(review, risk, inPage);
+    }
+
+    panel.querySelector('#pyn-review-close')?.addEventListener('click', close);
+    panel.querySelector('#pyn-review-dismiss')?.addEventListener('click', close);
+    panel.querySelector('#pyn-review-prev')?.addEventListener('click', () => goTo(review.current - 1));
+    panel.querySelector('#pyn-review-next')?.addEventListener('click', () => {
+      if (review.current < review.steps.length - 1) goTo(review.current + 1);
+      else finish();
+    });
+    panel.querySelector('#pyn-review-agree')?.addEventListener('click', () => {
+      close();
+      onAgree();
+    });
+    panel.querySelectorAll<HTMLElement>('[data-step]').forEach(item => {
+      item.addEventListener('click', () => goTo(Number(item.dataset.step)));
+    });
+  };
+
+  render();
+}
+
+/**
+ * Whether two lists hold the same risks, in the same order
+ */
+function sameRisks(a: RiskItem[], b: RiskItem[]): boolean {
+  return a.length === b.length && a.every((risk, index) => risk.id === b[index].id);
+}
+
+/**
+ * Whether a key event's target is a field the user is typing in
+ */
+function isEditable(target: EventTarget | undefined): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Orders risks as their clauses appear in the page; risks from linked
+ * documents, which aren't in the page, come last
+ */
+function orderByPosition(risks: RiskItem[]): RiskItem[] {
+  const positioned = risks.map(risk => ({ risk, mark: getRiskMark(risk.id) }));
+
+  return positioned
+    .sort((a, b) => {
+      if (!a.mark || !b.mark) return a.mark ? -1 : b.mark ? 1 : 0;
+      return a.mark.compareDocumentPosition(b.mark) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1;
+    })
+    .map(({ risk }) => risk);
+}
+
+/**
+ * Renders one flagged clause with next/previous controls
+ */
+function renderStep(review: ReviewState, risk: RiskItem, inPage: boolean): string {
+  const isLast = review.current === review.steps.length - 1;
+  const quote = risk.originalText.length > MAX_QUOTE_LENGTH
+    ? `${risk.originalText.substring(0, MAX_QUOTE_LENGTH).trimEnd()}…`
+    : risk.originalText;
+
+  return `
+    <div class="pyn-review-header">
+      <span class="pyn-review-count">Clause ${review.current + 1} of ${review.steps.length}</span>
+      <button class="pyn-review-close" id="pyn-review-close" title="Exit review">×</button>
+    </div>
+    <div class="pyn-review-dots">
+      ${review.steps.map((step, index) => `
+        <span
+          class="pyn-review-dot${index === review.current ? ' current' : ''}${review.viewed.has(step.id) ? ' viewed' : ''}"
+          style="--pyn-color: ${SEVERITY_COLORS[step.severity]}"
+          data-step="${index}"
+          title="${escapeHtml(step.title)}"
+        ></span>
+      `).join('')}
+    </div>
+    <div class="pyn-review-risk" style="border-left-color: ${SEVERITY_COLORS[risk.severity]}">
+      <div class="pyn-review-title">
+        <span class="pyn-review-severity" style="background: ${SEVERITY_COLORS[risk.severity]}">${risk.severity}</span>
+        ${escapeHtml(risk.title)}
+      </div>
+      <p class="pyn-review-summary">${escapeHtml(risk.summary)}</p>
+      ${quote ? `<blockquote class="pyn-review-quote">“${escapeHtml(quote)}”</blockquote>` : ''}
+      ${risk.section ? `<p class="pyn-review-note">${escapeHtml(risk.section)}</p>` : ''}
+      ${inPage ? '' : '<p class="pyn-review-note">This clause is in a linked document, not on this page.</p>'}
+    </div>
+    <div class="pyn-review-controls">
+      <button class="pyn-btn pyn-btn-secondary" id="pyn-review-prev" ${review.current === 0 ? 'disabled' : ''}>← Previous</button>
+      <button class="pyn-btn pyn-btn-primary" id="pyn-review-next">${isLast ? 'Finish Review' : 'Next →'}</button>
+    </div>
+  `;
+}
+
+/**
+ * Renders what the user reviewed, with the choice to agree or walk away
+ */
+function renderSummary(review: ReviewState): string {
+  const viewedCount = review.steps.filter(step => review.viewed.has(step.id)).length;
+  const skipped = review.steps.length - viewedCount;
+
+  return `
+    <div class="pyn-review-header">
+      <span class="pyn-review-count">Review complete</span>
+      <button class="pyn-review-close" id="pyn-review-close" title="Close">×</button>
+    </div>
+    <p class="pyn-review-summary">
+      You reviewed <strong>${viewedCount} of ${review.steps.length}</strong> flagged clause${review.steps.length !== 1 ? 's' : ''}.
+      ${skipped > 0 ? `${skipped} ${skipped === 1 ? 'was' : 'were'} skipped.` : ''}
+    </p>
+    <ul class="pyn-review-list">
+      ${review.steps.map((step, index) => `
+        <li data-step="${index}" class="${review.viewed.has(step.id) ? 'viewed' : ''}">
+          <span class="pyn-review-check">${review.viewed.has(step.id) ? '✓' : '○'}</span>
+          <span class="pyn-review-severity" style="background: ${SEVERITY_COLORS[step.severity]}">${step.severity}</span>
+          <span>${escapeHtml(step.title)}</span>
+        </li>
+      `).join('')}
+    </ul>
+    <p class="pyn-review-note">By continuing, you acknowledge these terms and agree to them.</p>
+    <div class="pyn-review-controls">
+      <button class="pyn-btn pyn-btn-secondary" id="pyn-review-dismiss">Not Now</button>
+      <button class="pyn-btn pyn-btn-primary" id="pyn-review-agree">I Understand, Continue</button>
+    </div>
+  `;
+}
+
+function getStyles(): string {
+  return `
+    .pyn-review {
+      position: fixed;
+      bottom: 20px;
+      left: 50%;
+      transform: translateX(-50%);
+      width: 440px;
+      max-width: calc(100vw - 32px);
+      max-height: 70vh;
+      overflow-y: auto;
+      background: white;
+      border-radius: 12px;
+      box-shadow: 0 20px 50px rgba(0, 0, 0, 0.3);
+      padding: 16px;
+      z-index: 2147483647;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      color: #111827;
+      animation: slideUp 0.2s ease-out;
+    }
+
+    @keyframes slideUp {
+      from { opacity: 0; transform: translate(-50%, 20px); }
+      to { opacity: 1; transform: translate(-50%, 0); }
+    }
+
+    .pyn-review-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      margin-bottom: 10px;
+    }
+
+    .pyn-review-count {
+      font-size: 13px;
+      font-weight: 600;
+      color: #6b7280;
+      text-transform: uppercase;
+      letter-spacing: 0.03em;
+    }
+
+    .pyn-review-close {
+      background: none;
+      border: none;
+      font-size: 20px;
+      line-height: 1;
+      color: #9ca3af;
+      cursor: pointer;
+    }
+
+    .pyn-review-close:hover {
+      color: #111827;
+    }
+
+    .pyn-review-dots {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+      margin-bottom: 12px;
+    }
+
+    .pyn-review-dot {
+      width: 10px;
+      height: 10px;
+      border-radius: 50%;
+      border: 2px solid var(--pyn-color);
+      cursor: pointer;
+    }
+
+    .pyn-review-dot.viewed {
+      background: var(--pyn-color);
+    }
+
+    .pyn-review-dot.current {
+      box-shadow: 0 0 0 2px white, 0 0 0 4px #3b82f6;
+    }
+
+    .pyn-review-risk {
+      border-left: 3px solid;
+      padding-left: 12px;
+      margin-bottom: 14px;
+    }
+
+    .pyn-review-title {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      font-size: 15px;
+      font-weight: 600;
+      margin-bottom: 6px;
+    }
+
+    .pyn-review-severity {
+      font-size: 10px;
+      font-weight: 600;
+      text-transform: uppercase;
+      color: white;
+      padding: 2px 6px;
+      border-radius: 4px;
+      flex-shrink: 0;
+    }
+
+    .pyn-review-summary {
+      font-size: 14px;
+      line-height: 1.5;
+      color: #374151;
+      margin: 0 0 8px 0;
+    }
+
+    .pyn-review-quote {
+      margin: 0 0 8px 0;
+      padding: 8px 10px;
+      background: #f9fafb;
+      border-radius: 6px;
+      font-size: 13px;
+      line-height: 1.5;
+      color: #4b5563;
+      font-style: italic;
+    }
+
+    .pyn-review-note {
+      font-size: 12px;
+      color: #6b7280;
+      margin: 0 0 8px 0;
+    }
+
+    .pyn-review-list {
+      list-style: none;
+      padding: 0;
+      margin: 0 0 12px 0;
+    }
+
+    .pyn-review-list li {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 6px 0;
+      font-size: 13px;
+      border-bottom: 1px solid #f3f4f6;
+      cursor: pointer;
+    }
+
+    .pyn-review-list li:not(.viewed) {
+      color: #9ca3af;
+    }
+
+    .pyn-review-check {
+      width: 14px;
+      text-align: center;
+      color: #22c55e;
+      font-weight: 700;
+    }
+
+    .pyn-review-list li:not(.viewed) .pyn-review-check {
+      color: #d1d5db;
+    }
+
+    .pyn-review-controls {
+      display: flex;
+      gap: 10px;
+      justify-content: flex-end;
+    }
+
+    .pyn-btn {
+      padding: 10px 18px;
+      border-radius: 8px;
+      font-size: 14px;
+      font-weight: 600;
+      cursor: pointer;
+      border: none;
+      transition: all 0.2s;
+    }
+
+    .pyn-btn:disabled {
+      opacity: 0.4;
+      cursor: default;
+    }
+
+    .pyn-btn-secondary {
+      background: white;
+      border: 2px solid #e5e7eb;
+      color: #374151;
+    }
+
+    .pyn-btn-secondary:hover:not(:disabled) {
+      border-color: #3b82f6;
+      color: #3b82f6;
+    }
+
+    .pyn-btn-primary {
+      background: #3b82f6;
+      color: white;
+    }
+
+    .pyn-btn-primary:hover {
+      background: #2563eb;
+    }
+  `;
+}
@@ -0,0 +1,111 @@
+/**
+ * Scan Pipeline
+ * Runs keyword analysis, then streams in LLM findings, for any agreement text
+ * (a live page or a pasted/uploaded document)
+ */
+
+import {
+  analyzeRisks,
+  analyzeRisksWithLLM,
+  analyzeProtections,
+  calculateOverallSeverity,
+  calculateRiskScore,
+  generateOverallSummary,
+  markAwaitingLLM,
+} from './analyzer';
+import { inferIndustry } from './industry';
+import { AgreementDetection, Jurisdiction, ProtectionItem, ScanResult, RiskItem } from '../shared/types';
+import { isLLMAvailable, isLLMOverBudget } from '../services/llm-analyzer';
+import { hashAgreement } from '../services/analysis-cache';
+import { saveAgreementText } from '../services/agreement-texts';
+import { addPageNumbers, PdfPage } from '../services/pdf-pages';
+
+export interface ScanPipelineOptions {
+  url: string;
+  detection: AgreementDetection;
+  jurisdiction?: Jurisdiction;
+  documentName?: string;
+  pages?: PdfPage[]; // Page boundaries when the text came from a PDF
+  onResult?: (result: ScanResult) => void; // Keyword results, then each LLM update
+  onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * Analyzes agreement text and returns the final scan result
+ */
+export async function runScanPipeline(text: string, options: ScanPipelineOptions): Promise<ScanResult> {
+  const { url, detection, jurisdiction, documentName, pages, onResult, onProgress } = options;
+
+  // PDF findings say which page they're on
+  const withPages = <T extends RiskItem | ProtectionItem>(items: T[]): T[] =>
+    pages ? addPageNumbers(items, pages) : items;
+
+  const keywordRisks = withPages(analyzeRisks(text, jurisdiction));
+  const protections = withPages(analyzeProtections(text));
+  const industry = inferIndustry(url, text);
+  const useLLM = await isLLMAvailable();
+
+  // Keep the text so this version can be compared with later ones; a full
+  // storage quota shouldn't fail the scan
+  const textHash = await hashAgreement(text);
+  saveAgreementText(textHash, text).catch(error => {
+    console.warn('[ProtectYaNeck] Failed to save agreement text:', error);
+  });
+
+  const overBudget = !useLLM && await isLLMOverBudget();
+
+  // Keyword results show instantly; LLM findings stream in afterwards
+  let result: ScanResult = withRisks({
+    id: `scan-${Date.now()}`,
+    url,
+    timestamp: Date.now(),
+    detection,
+    risks: [],
+    protections,
+    overallSeverity: 'low',
+    summary: '',
+    industry,
+    textHash,
+    documentName,
+    llmStatus: useLLM ? 'pending' : overBudget ? 'over_budget' : undefined,
+  }, useLLM ? markAwaitingLLM(keywordRisks) : keywordRisks);
+  onResult?.(result);
+
+  if (!useLLM) return result;
+
+  const llmResult = await analyzeRisksWithLLM(text, keywordRisks, {
+    jurisdiction,
+    onProgress,
+    onUpdate: (risks) => {
+      result = withRisks(result, withPages(risks));
+      onResult?.(result);
+    },
+  });
+
+  result = llmResult
+    ? {
+      ...withRisks(result, withPages(llmResult.risks)),
+      summary: llmResult.summary,
+      llmStatus: 'complete',
+      llmUsage: llmResult.usage,
+    }
+    : { ...withRisks(result, keywordRisks), llmStatus: 'failed' };
+  onResult?.(result);
+
+  return result;
+}
+
+/**
+ * Replaces a scan result's risks and recomputes severity, summary and score
+ */
+export function withRisks(result: ScanResult, risks: RiskItem[]): ScanResult {
+  const protections = result.protections || [];
+
+  return {
+    ...result,
+    risks,
+    overallSeverity: calculateOverallSeverity(risks),
+    summary: generateOverallSummary(risks, protections),
+    score: calculateRiskScore(risks, protections),
+  };
+}
@@ -0,0 +1,264 @@
+/**
+ * Clause Segmenter
+ * Splits agreement text into numbered sections, paragraphs and sentences
+ * while keeping track of the heading each clause belongs to
+ */
+
+// A single sentence-level clause with offsets into the source text
+export interface AgreementClause {
+  text: string;
+  startIndex: number;
+  endIndex: number;
+  sectionNumber?: string;
+  heading?: string;
+}
+
+// A paragraph made up of one or more clauses
+export interface AgreementParagraph {
+  startIndex: number;
+  endIndex: number;
+  clauses: AgreementClause[];
+}
+
+// A (possibly numbered) section of the agreement
+export interface AgreementSection {
+  number?: string;
+  heading?: string;
+  startIndex: number;
+  endIndex: number;
+  paragraphs: AgreementParagraph[];
+}
+
+// Leading section markers: "12.", "14.2", "Section 4", "Article IV", "§ 3", "(a)"
+const SECTION_NUMBER_PATTERN = /^(?:(?:section|article|§)\s*)?(\d{1,3}(?:\.\d{1,3})*|[ivxlc]{1,6}|\(?[a-z]\))[.):]?\s+/i;
+
+// Inline section starts in text where line breaks were collapsed
+const INLINE_SECTION_PATTERN = /(?<=[.!?:;]\s+)(?=(?:section\s+|article\s+)?\d{1,3}(?:\.\d{1,3})*[.)]?\s+[A-Z])/g;
+
+// Sentence boundaries: terminal punctuation followed by whitespace and a new sentence
+const SENTENCE_BOUNDARY_PATTERN = /[.!?]+["')\]]*(?=\s+["'(\[]?[A-Z0-9])/g;
+
+// Words ending in a period that do not end a sentence
+const ABBREVIATIONS = /(?:^|\s|\()(?:e\.g|i\.e|etc|inc|ltd|llc|co|corp|no|vs|u\.s|u\.k|mr|mrs|ms|dr|st|sec|art|para|approx|[a-z])\.?$/i;
+
+const MAX_HEADING_LENGTH = 80;
+const MAX_HEADING_WORDS = 10;
+
+/**
+ * Splits agreement text into sections, paragraphs and sentence clauses
+ */
+export function segmentAgreement(text: string): AgreementSection[] {
+  const sections: AgreementSection[] = [];
+  let current: AgreementSection = { startIndex: 0, endIndex: 0, paragraphs: [] };
+
+  const startSection = (startIndex: number, number?: string, heading?: string) => {
+    if (current.paragraphs.length > 0 || current.heading || current.number) {
+      sections.push(current);
+    }
+    current = { number, heading, startIndex, endIndex: startIndex, paragraphs: [] };
+  };
+
+  for (const block of splitBlocks(text)) {
+    const line = block.text;
+
+    // Whole-line headings start a new section and produce no clauses
+    if (isHeadingLine(line)) {
+      const { number, rest } = splitSectionNumber(line);
+      startSection(block.start, number, rest.replace(/[.:]\s*$/, '') || undefined);
+      current.endIndex = block.end;
+      continue;
+    }
+
+    for (const part of splitInlineSections(line, block.start)) {
+      let bodyText = part.text;
+      let bodyStart = part.start;
+
+      const { number, rest, offset } = splitSectionNumber(bodyText);
+      if (number) {
+        bodyText = rest;
+        bodyStart += offset;
+
+        // "12. Dispute Resolution. You agree..." carries its own heading
+        const inlineHeading = matchInlineHeading(bodyText);
+        if (inlineHeading) {
+          startSection(part.start, number, inlineHeading.heading);
+          bodyText = bodyText.substring(inlineHeading.length);
+          bodyStart += inlineHeading.length;
+        } else {
+          startSection(part.start, number, current.heading);
+        }
+      }
+
+      const clauses = splitSentences(bodyText, bodyStart).map(sentence => ({
+        ...sentence,
+        sectionNumber: current.number,
+        heading: current.heading,
+      }));
+
+      if (clauses.length > 0) {
+        current.paragraphs.push({
+          startIndex: clauses[0].startIndex,
+          endIndex: clauses[clauses.length - 1].endIndex,
+          clauses,
+        });
+      }
+      current.endIndex = part.end;
+    }
+  }
+
+  if (current.paragraphs.length > 0 || current.heading || current.number) {
+    sections.push(current);
+  }
+
+  return sections;
+}
+
+/**
+ * Flattens the segmented agreement into a list of sentence clauses
+ */
+export function segmentClauses(text: string): AgreementClause[] {
+  return segmentAgreement(text).flatMap(section =>
+    section.paragraphs.flatMap(paragraph => paragraph.clauses)
+  );
+}
+
+/**
+ * Formats a clause's section number and heading for display, e.g. "14.2 Arbitration"
+ */
+export function formatSectionLabel(clause: Pick<AgreementClause, 'sectionNumber' | 'heading'>): string | undefined {
+  const label = [clause.sectionNumber, clause.heading].filter(Boolean).join(' ');
+  return label || undefined;
+}
+
+/**
+ * Splits text into non-empty lines, keeping their offsets
+ */
+function splitBlocks(text: string): Array<{ text: string; start: number; end: number }> {
+  const blocks: Array<{ text: string; start: number; end: number }> = [];
+  const linePattern = /[^\n]+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = linePattern.exec(text))) {
+    const leading = match[0].length - match[0].trimStart().length;
+    const trimmed = match[0].trim();
+    if (!trimmed) continue;
+
+    const start = match.index + leading;
+    blocks.push({ text: trimmed, start, end: start + trimmed.length });
+  }
+
+  return blocks;
+}
+
+/**
+ * Splits a line at inline section numbers ("...any reason. 12. Arbitration...")
+ */
+function splitInlineSections(line: string, offset: number): Array<{ text: string; start: number; end: number }> {
+  const parts: Array<{ text: string; start: number; end: number }> = [];
+  let lastIndex = 0;
+
+  const pushPart = (from: number, to: number) => {
+    const raw = line.substring(from, to);
+    const trimmed = raw.trim();
+    if (!trimmed) return;
+    const start = offset + from + (raw.length - raw.trimStart().length);
+    parts.push({ text: trimmed, start, end: start + trimmed.length });
+  };
+
+  for (const match of line.matchAll(INLINE_SECTION_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index === 0) continue;
+    pushPart(lastIndex, index);
+    lastIndex = index;
+  }
+  pushPart(lastIndex, line.length);
+
+  return parts;
+}
+
+/**
+ * Separates a leading section marker from the rest of the text
+ */
+export function splitSectionNumber(text: string): { number?: string; rest: string; offset: number } {
+  const match = text.match(SECTION_NUMBER_PATTERN);
+
+  // Single letters and roman numerals are only markers when followed by a capital
+  if (!match || (/^[a-z]+$/i.test(match[1]) && !/^[A-Z]/.test(text.substring(match[0].length)))) {
+    return { rest: text, offset: 0 };
+  }
+
+  return {
+    number: match[1].replace(/[()]/g, ''),
+    rest: text.substring(match[0].length),
+    offset: match[0].length,
+  };
+}
+
+/**
+ * Matches a short title at the start of a numbered section
+ */
+function matchInlineHeading(text: string): { heading: string; length: number } | null {
+  const match = text.match(/^([A-Z][^.!?:]{1,60})[.:]\s+(?=\S)/);
+  if (!match) return null;
+
+  const words = match[1].trim().split(/\s+/);
+  const isTitle = words.length <= 8 &&
+    words.every(word => /^[A-Z0-9&(]/.test(word) || /^(?:of|and|or|the|to|for|in|on|a|an)$/.test(word));
+
+  return isTitle ? { heading: match[1].trim(), length: match[0].length } : null;
+}
+
+/**
+ * Checks if a whole line reads as a section heading
+ */
+function isHeadingLine(line: string): boolean {
+  if (line.length > MAX_HEADING_LENGTH) return false;
+
+  const { rest } = splitSectionNumber(line);
+  const words = rest.split(/\s+/).filter(Boolean);
+  if (words.length === 0 || words.length > MAX_HEADING_WORDS) return false;
+
+  // Sentences end in terminal punctuation; headings rarely do beyond a trailing period
+  if (/[,;!?]$/.test(rest) || /[.!?]\s+\S/.test(rest)) return false;
+
+  const letters = rest.replace(/[^a-z]/gi, '');
+  if (letters.length === 0) return false;
+
+  const isUpperCase = letters === letters.toUpperCase();
+  const isTitleCase = words.every(word =>
+    /^[A-Z0-9&("'“]/.test(word) || /^(?:of|and|or|the|to|for|in|on|a|an|with|your|our)$/.test(word)
+  );
+
+  return (isUpperCase && letters.length > 2) || (isTitleCase && (rest !== line || !/\.$/.test(rest)));
+}
+
+/**
+ * Splits a paragraph into sentences, keeping their offsets
+ */
+function splitSentences(text: string, offset: number): Array<Pick<AgreementClause, 'text' | 'startIndex' | 'endIndex'>> {
+  const sentences: Array<Pick<AgreementClause, 'text' | 'startIndex' | 'endIndex'>> = [];
+  let sentenceStart = 0;
+
+  const pushSentence = (from: number, to: number) => {
+    const raw = text.substring(from, to);
+    const trimmed = raw.trim();
+    if (!/[a-z]/i.test(trimmed)) return;
+    const start = offset + from + (raw.length - raw.trimStart().length);
+    sentences.push({ text: trimmed, startIndex: start, endIndex: start + trimmed.length });
+  };
+
+  for (const match of text.matchAll(SENTENCE_BOUNDARY_PATTERN)) {
+    const index = match.index ?? 0;
+    const end = index + match[0].length;
+
+    if (match[0].startsWith('.') && ABBREVIATIONS.test(text.substring(sentenceStart, index))) {
+      continue;
+    }
+
+    pushSentence(sentenceStart, end);
+    sentenceStart = end;
+  }
+  pushSentence(sentenceStart, text.length);
+
+  return sentences;
+}
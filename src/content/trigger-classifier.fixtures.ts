@@ -0,0 +1,170 @@
+/**
+ * Sign-up form fixtures for the trigger classifier
+ * Markup trimmed from real sign-up, checkout and login pages, with the
+ * elements that should and shouldn't be intercepted
+ */
+
+export interface TriggerFixture {
+  name: string;
+  html: string;
+  pageConfidence: number; // What detectAgreement would report for the page
+  triggers: string[]; // Selectors of elements that accept an agreement
+  ignored: string[]; // Selectors of elements that don't
+}
+
+export const TRIGGER_FIXTURES: TriggerFixture[] = [
+  {
+    name: 'developer platform sign-up with a consent notice',
+    pageConfidence: 0.2,
+    html: `
+      <form action="/signup" method="post">
+        <label for="email">Email</label>
+        <input type="email" id="email" name="user[email]" autocomplete="email" required>
+        <label for="password">Password</label>
+        <input type="password" id="password" name="user[password]" autocomplete="new-password" required>
+        <label for="login">Username</label>
+        <input type="text" id="login" name="user[login]" autocomplete="username">
+        <input type="checkbox" id="opt_in" name="opt_in">
+        <label for="opt_in">Receive occasional product updates and announcements</label>
+        <button type="submit" id="signup">Create account</button>
+        <p class="notice">By creating an account, you agree to the
+          <a href="/site/terms">Terms of Service</a>. For more information about our privacy
+          practices, see the <a href="/site/privacy">Privacy Statement</a>.</p>
+      </form>
+      <p>Already have an account? <a href="/login" id="sign-in">Sign in →</a></p>`,
+    triggers: ['#signup'],
+    ignored: ['#opt_in', '#sign-in'],
+  },
+  {
+    name: 'streaming service sign-up with a required terms checkbox',
+    pageConfidence: 0.3,
+    html: `
+      <form id="register">
+        <input type="email" name="email" autocomplete="email" placeholder="Email address">
+        <input type="password" name="password" autocomplete="new-password" placeholder="Password">
+        <input type="text" name="displayname" autocomplete="name" placeholder="What should we call you?">
+        <div class="checkbox">
+          <input type="checkbox" id="marketing" name="marketing">
+          <label for="marketing">Share my registration data with content providers for marketing purposes</label>
+        </div>
+        <div class="checkbox">
+          <input type="checkbox" id="terms" name="terms" required>
+          <label for="terms">I agree to the <a href="/legal/end-user-agreement/">Terms and Conditions of Use</a>
+            and <a href="/legal/privacy-policy/">Privacy Policy</a>.</label>
+        </div>
+        <button type="submit" id="submit">Sign up</button>
+      </form>`,
+    triggers: ['#terms', '#submit'],
+    ignored: ['#marketing'],
+  },
+  {
+    name: 'subscription checkout',
+    pageConfidence: 0.1,
+    html: `
+      <form id="payment-form">
+        <input type="email" autocomplete="email" placeholder="email@example.com">
+        <input type="text" autocomplete="cc-number" placeholder="1234 1234 1234 1234">
+        <input type="text" autocomplete="cc-exp" placeholder="MM / YY">
+        <input type="text" autocomplete="cc-csc" placeholder="CVC">
+        <p>By confirming your subscription, you allow Example Inc. to charge you for future payments
+          in accordance with their <a href="/terms">terms</a>.</p>
+        <button type="submit" id="pay"><span>Subscribe</span></button>
+      </form>`,
+    triggers: ['#pay'],
+    ignored: [],
+  },
+  {
+    name: 'German shop registration with a localized agree checkbox',
+    pageConfidence: 0.2,
+    html: `
+      <form id="registrierung">
+        <input type="text" name="vorname" autocomplete="given-name">
+        <input type="email" name="email" autocomplete="email">
+        <input type="password" name="passwort" autocomplete="new-password">
+        <label>
+          <input type="checkbox" id="agb" required>
+          Ich habe die <a href="/agb">AGB</a> gelesen und stimme zu. Die
+          <a href="/datenschutz">Datenschutzerklärung</a> habe ich zur Kenntnis genommen.
+        </label>
+        <label><input type="checkbox" id="newsletter"> Newsletter abonnieren</label>
+        <button type="submit" id="weiter">Konto erstellen</button>
+      </form>`,
+    triggers: ['#agb', '#weiter'],
+    ignored: ['#newsletter'],
+  },
+  {
+    name: 'icon-only accept button in a terms dialog',
+    pageConfidence: 0.7,
+    html: `
+      <div role="dialog" aria-labelledby="dialog-title">
+        <h2 id="dialog-title">Updated Terms of Service</h2>
+        <p>We have updated our <a href="/terms">Terms of Service</a>. By continuing, you agree to the updated terms.</p>
+        <button id="dialog-close" aria-label="Close">×</button>
+        <button id="dialog-accept" aria-label="Accept terms"><svg viewBox="0 0 24 24"><path d="M5 13l4 4L19 7"/></svg></button>
+      </div>`,
+    triggers: ['#dialog-accept'],
+    ignored: ['#dialog-close'],
+  },
+  {
+    name: 'Japanese service registration',
+    pageConfidence: 0.2,
+    html: `
+      <form id="entry">
+        <input type="email" name="mail" autocomplete="email">
+        <input type="password" name="pass" autocomplete="new-password">
+        <p>「登録」を押すと、<a href="/rules">利用規約</a>と<a href="/privacy">プライバシーポリシー</a>に同意したものとみなされます。</p>
+        <button type="submit" id="touroku">同意して登録</button>
+      </form>`,
+    triggers: ['#touroku'],
+    ignored: [],
+  },
+  {
+    name: 'login form',
+    pageConfidence: 0,
+    html: `
+      <form action="/session" method="post">
+        <input type="text" name="login" autocomplete="username">
+        <input type="password" name="password" autocomplete="current-password">
+        <label><input type="checkbox" id="remember" name="remember_me"> Keep me signed in</label>
+        <input type="submit" id="login" value="Sign in">
+        <a href="/password_reset" id="forgot">Forgot password?</a>
+      </form>
+      <footer><a href="/terms" id="footer-terms">Terms</a> <a href="/privacy" id="footer-privacy">Privacy</a></footer>`,
+    triggers: [],
+    ignored: ['#remember', '#login', '#forgot', '#footer-terms', '#footer-privacy'],
+  },
+  {
+    name: 'search and newsletter forms on a page without an agreement',
+    pageConfidence: 0,
+    html: `
+      <form role="search" action="/search">
+        <input type="search" name="q">
+        <button type="submit" id="search-submit">Submit</button>
+      </form>
+      <section class="newsletter">
+        <form action="/subscribe">
+          <input type="email" name="email">
+          <button type="submit" id="subscribe-continue">Continue</button>
+        </form>
+      </section>
+      <footer>
+        <form action="/newsletter"><input type="email" name="email"><button id="footer-subscribe">Subscribe</button></form>
+      </footer>
+      <nav><a href="/start" id="get-started-link">Read more</a></nav>`,
+    triggers: [],
+    ignored: ['#search-submit', '#subscribe-continue', '#footer-subscribe', '#get-started-link'],
+  },
+  {
+    name: 'multi-step wizard with a generic next button',
+    pageConfidence: 0,
+    html: `
+      <form id="onboarding">
+        <h2>Tell us about your team</h2>
+        <select name="size"><option>1-10</option><option>11-50</option></select>
+        <button type="button" id="back">Back</button>
+        <button type="submit" id="next">Next</button>
+      </form>`,
+    triggers: [],
+    ignored: ['#back', '#next'],
+  },
+];
@@ -0,0 +1,33 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { scoreAgreementTrigger } from './trigger-classifier';
+import { TRIGGER_FIXTURES } from './trigger-classifier.fixtures';
+import { DEFAULT_INTERCEPT_THRESHOLD } from '../shared/constants';
+
+function isTrigger(selector: string, pageConfidence: number): boolean {
+  const element = document.querySelector(selector);
+  if (!element) throw new Error(`Fixture has no ${selector}`);
+  return scoreAgreementTrigger(element, pageConfidence).score >= DEFAULT_INTERCEPT_THRESHOLD;
+}
+
+describe('scoreAgreementTrigger', () => {
+  beforeAll(() => {
+    // jsdom has no CSS.escape, which label lookups use; fixture ids need no escaping
+    vi.stubGlobal('CSS', { escape: (value: string) => value });
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  describe.each(TRIGGER_FIXTURES)('$name', ({ html, pageConfidence, triggers, ignored }) => {
+    it.each(triggers)('intercepts %s', (selector) => {
+      document.body.innerHTML = html;
+      expect(isTrigger(selector, pageConfidence)).toBe(true);
+    });
+
+    it.each(ignored)('ignores %s', (selector) => {
+      document.body.innerHTML = html;
+      expect(isTrigger(selector, pageConfidence)).toBe(false);
+    });
+  });
+});
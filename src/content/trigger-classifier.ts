@@ -0,0 +1,164 @@
+/**
+ * Trigger Classifier
+ * Scores how likely a button or checkbox is to commit the user to an
+ * agreement, from its label, the links and checkboxes around it, the form
+ * it submits and how agreement-like the page is
+ */
+
+import { getCheckboxLabel } from './detector';
+import { findContainer, findLinkedAgreements } from './linked-agreements';
+
+export interface TriggerScore {
+  score: number; // 0-1
+  signals: string[]; // What contributed, e.g. "agree label", "terms links nearby"
+}
+
+// Labels that accept terms, in the languages sign-up forms most often use
+const AGREE_LABEL_PATTERN = new RegExp([
+  /\b(i\s+)?(agree|accept|consent)\b/.source,
+  'acepto|aceptar|j\'accepte|accepter|akzeptieren|zustimmen|stimme\\s+zu|einverstanden',
+  'accetto|accetta|aceito|aceitar|concordo|akkoord|accepteren|zgadzam|akceptuj',
+  'согласен|принять|同意|동의|承諾|kabul',
+].join('|'), 'i');
+
+// Labels that create an account or buy something, which usually accepts the terms too
+const SIGNUP_LABEL_PATTERN = new RegExp([
+  /\b(sign\s*up|create\s+(an\s+)?account|register|join(\s+(now|free))?|get\s+started|start\s+(your\s+)?(free\s+)?trial)\b/.source,
+  /\b(subscribe|place\s+(your\s+)?order|buy\s+now|pay\s+now|complete\s+(your\s+)?purchase)\b/.source,
+  'registrieren|konto\\s+erstellen|s\'inscrire|créer\\s+un\\s+compte|registrarse|crear\\s+(una\\s+)?cuenta',
+  'cadastr|criar\\s+conta|registrati|crea\\s+account|aanmelden|registreren|注册|登録|가입',
+].join('|'), 'i');
+
+// Labels that could go either way and need context
+const GENERIC_LABEL_PATTERN = /^(continue|submit|next|proceed|confirm|ok|done|weiter|continuer|continuar|continua|avanti|verder|далее|继续|次へ)$/i;
+
+// Checkmark icons on icon-only agree buttons
+const CHECKMARK_LABEL_PATTERN = /^[✓✔☑✅👍]+$/u;
+
+// Labels that never agree to anything
+const NEGATIVE_LABEL_PATTERN = new RegExp([
+  /\b(cancel|decline|reject|refuse|back|close|dismiss|log\s*in|sign\s*in|search|forgot|learn\s+more|read\s+more|settings|customi[sz]e|manage|preferences)\b/.source,
+  'abbrechen|ablehnen|annuler|refuser|cancelar|rechazar|annulla|rifiuta',
+].join('|'), 'i');
+
+// A link to the agreement itself, not a button accepting it
+const AGREEMENT_LINK_LABEL_PATTERN = /^(terms|privacy|cookie|legal|policy|eula)/i;
+
+const AGREEMENT_CHECKBOX_PATTERN = new RegExp([
+  /i\s*(have\s+read|agree|accept|consent)|terms\s*(of\s*)?(service|use)|privacy\s*policy|agree\s+to\s+the/.source,
+  'acepto|j\'accepte|akzeptiere|stimme\\s+zu|accetto|aceito|concordo|ga\\s+akkoord|zgadzam|согласен|同意|동의',
+].join('|'), 'i');
+
+// Opt-ins that sit next to agreement checkboxes but aren't agreements
+const OPT_IN_CHECKBOX_PATTERN = /newsletter|marketing|promotion|offers|updates|remember\s+me|keep\s+me\s+(signed|logged)\s+in|stay\s+signed\s+in/i;
+
+// "By clicking Sign up, you agree to our Terms"
+const CONSENT_NOTICE_PATTERN = /\bby\s+(clicking|tapping|continuing|signing|creating|registering|using|joining|proceeding|confirming|subscribing|purchasing|placing)\b|\byou\s+(agree|accept|consent)\b/i;
+
+/**
+ * Scores a button, link or checkbox as an agreement trigger
+ * pageConfidence is detectAgreement's confidence for the page
+ */
+export function scoreAgreementTrigger(element: Element, pageConfidence: number): TriggerScore {
+  const signals: string[] = [];
+  let score = 0;
+
+  const add = (weight: number, signal: string) => {
+    score += weight;
+    signals.push(signal);
+  };
+
+  const isCheckbox = element.tagName === 'INPUT' && (element as HTMLInputElement).type === 'checkbox';
+  const container = findContainer(element);
+
+  if (isCheckbox) {
+    const label = getCheckboxLabel(element as HTMLInputElement) || '';
+
+    if (OPT_IN_CHECKBOX_PATTERN.test(label) && !AGREEMENT_CHECKBOX_PATTERN.test(label)) {
+      add(-0.5, 'opt-in label');
+    } else if (AGREEMENT_CHECKBOX_PATTERN.test(label)) {
+      add(0.5, 'agreement label');
+    }
+
+    // Agreement checkboxes usually link to what they accept
+    if (findLinkedAgreements(element).length > 0) add(0.2, 'terms links nearby');
+    if ((element as HTMLInputElement).required) add(0.1, 'required');
+  } else {
+    const label = getButtonLabel(element);
+
+    if (NEGATIVE_LABEL_PATTERN.test(label)) {
+      add(-0.6, 'negative label');
+    } else if (element.tagName === 'A' && AGREEMENT_LINK_LABEL_PATTERN.test(label)) {
+      add(-0.6, 'agreement link');
+    } else if (AGREE_LABEL_PATTERN.test(label)) {
+      add(0.5, 'agree label');
+    } else if (SIGNUP_LABEL_PATTERN.test(label)) {
+      add(0.3, 'sign-up label');
+    } else if (CHECKMARK_LABEL_PATTERN.test(label)) {
+      add(0.3, 'checkmark icon');
+    } else if (GENERIC_LABEL_PATTERN.test(label)) {
+      add(0.1, 'generic label');
+    }
+
+    if (findLinkedAgreements(element).length > 0) add(0.2, 'terms links nearby');
+    if (CONSENT_NOTICE_PATTERN.test(container.textContent || '')) add(0.15, 'consent notice');
+
+    const checkboxes = container.querySelectorAll<HTMLInputElement>('input[type="checkbox"]');
+    if ([...checkboxes].some(checkbox => AGREEMENT_CHECKBOX_PATTERN.test(getCheckboxLabel(checkbox) || ''))) {
+      add(0.2, 'agreement checkbox nearby');
+    }
+
+    const form = element.closest('form');
+    if (form) {
+      const formScore = scoreForm(form);
+      if (formScore !== 0) add(formScore, formScore > 0 ? 'sign-up form' : 'login or search form');
+    }
+  }
+
+  if (pageConfidence > 0) add(pageConfidence * 0.25, 'agreement page');
+
+  return { score: Math.max(0, Math.min(score, 1)), signals };
+}
+
+/**
+ * Gets what a button says, including icon-only buttons' accessible names
+ */
+function getButtonLabel(element: Element): string {
+  const labelledBy = element.getAttribute('aria-labelledby');
+  const labelledByText = labelledBy
+    ? labelledBy.split(/\s+/).map(id => document.getElementById(id)?.textContent || '').join(' ')
+    : '';
+
+  const parts = [
+    element.textContent,
+    element.getAttribute('aria-label'),
+    labelledByText,
+    element.getAttribute('title'),
+    element.tagName === 'INPUT' ? (element as HTMLInputElement).value : '',
+    element.querySelector('img[alt]')?.getAttribute('alt'),
+    element.querySelector('svg title')?.textContent,
+  ];
+
+  return parts.map(part => part?.trim()).filter(Boolean).join(' ').replace(/\s+/g, ' ');
+}
+
+/**
+ * Scores the form a button submits: sign-up forms create a password,
+ * login and search forms don't agree to anything
+ */
+function scoreForm(form: HTMLFormElement): number {
+  if (form.getAttribute('role') === 'search' || form.querySelector('input[type="search"]')) return -0.4;
+
+  const passwords = form.querySelectorAll('input[type="password"]');
+  if (form.querySelector('input[autocomplete="new-password"]') || passwords.length >= 2) return 0.1;
+  if (form.querySelector('input[autocomplete="current-password"]')) return -0.3;
+
+  // Name and email alongside a password is an account being created
+  const hasIdentity = form.querySelector('input[type="email"], input[autocomplete="email"], input[autocomplete="name"]');
+  if (passwords.length === 1 && hasIdentity && form.querySelectorAll('input:not([type="hidden"])').length >= 3) return 0.1;
+
+  // Checkout forms accept terms of sale
+  if (form.querySelector('input[autocomplete^="cc-"]')) return 0.1;
+
+  return 0;
+}
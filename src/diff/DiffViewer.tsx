@@ -0,0 +1,328 @@
+import React, { useEffect, useState } from 'react';
+import { RiskItem, RiskSeverity, ScanResult, STORAGE_KEYS } from '../shared/types';
+import { RISK_CATEGORIES, SEVERITY_COLORS } from '../shared/constants';
+import { diffAgreements, AgreementDiff, ClauseDiff, SectionDiff, WordDiffPart } from '../services/agreement-diff';
+import { getAgreementText } from '../services/agreement-texts';
+import { getAgreementChanges } from '../services/agreement-monitor';
+import { loadRulePacks } from '../services/rule-packs';
+
+type SourceMode = 'history' | 'paste';
+
+interface DiffSource {
+  mode: SourceMode;
+  scanId: string;
+  text: string;
+}
+
+const SEVERITY_RANK: Record<RiskSeverity, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+const EMPTY_SOURCE: DiffSource = { mode: 'history', scanId: '', text: '' };
+
+export function DiffViewer() {
+  const [history, setHistory] = useState<ScanResult[]>([]);
+  const [before, setBefore] = useState<DiffSource>(EMPTY_SOURCE);
+  const [after, setAfter] = useState<DiffSource>(EMPTY_SOURCE);
+  const [diff, setDiff] = useState<AgreementDiff | null>(null);
+  const [error, setError] = useState('');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  useEffect(() => {
+    init();
+  }, []);
+
+  async function init() {
+    // Detection rules must be loaded before diffing risks
+    await loadRulePacks().catch(error => {
+      console.warn('[ProtectYaNeck] Failed to load rule packs, using core rules:', error);
+    });
+
+    const result = await chrome.storage.local.get(STORAGE_KEYS.SCAN_HISTORY);
+    const scans: ScanResult[] = (result[STORAGE_KEYS.SCAN_HISTORY] || []).filter((scan: ScanResult) => scan.textHash);
+    setHistory(scans);
+
+    // Opened from a change notification or a history entry
+    const params = new URLSearchParams(window.location.search);
+    const changeId = params.get('change');
+    if (changeId) {
+      const change = (await getAgreementChanges()).find(c => c.id === changeId);
+      const [previousText, currentText] = change
+        ? await Promise.all([getAgreementText(change.previousTextHash), getAgreementText(change.currentTextHash)])
+        : [null, null];
+
+      if (previousText && currentText) {
+        setBefore({ mode: 'paste', scanId: '', text: previousText });
+        setAfter({ mode: 'paste', scanId: '', text: currentText });
+        setDiff(diffAgreements(previousText, currentText));
+      } else {
+        setError('The saved versions of this agreement are no longer available.');
+      }
+      return;
+    }
+
+    const afterScan = scans.find(scan => scan.id === params.get('after'));
+    if (!afterScan) return;
+
+    // Default to the previous scan of the same site
+    const beforeScan = scans.find(scan => scan.id === params.get('before')) ||
+      scans.find(scan =>
+        scan.id !== afterScan.id &&
+        scan.timestamp < afterScan.timestamp &&
+        getHostname(scan.url) === getHostname(afterScan.url)
+      );
+
+    setAfter({ ...EMPTY_SOURCE, scanId: afterScan.id });
+    if (beforeScan) {
+      setBefore({ ...EMPTY_SOURCE, scanId: beforeScan.id });
+      await compare({ ...EMPTY_SOURCE, scanId: beforeScan.id }, { ...EMPTY_SOURCE, scanId: afterScan.id }, scans);
+    }
+  }
+
+  async function resolveText(source: DiffSource, scans: ScanResult[]): Promise<string | null> {
+    if (source.mode === 'paste') return source.text.trim() || null;
+
+    const scan = scans.find(s => s.id === source.scanId);
+    return scan?.textHash ? getAgreementText(scan.textHash) : null;
+  }
+
+  async function compare(beforeSource = before, afterSource = after, scans = history) {
+    setError('');
+    setDiff(null);
+
+    const [beforeText, afterText] = await Promise.all([
+      resolveText(beforeSource, scans),
+      resolveText(afterSource, scans),
+    ]);
+
+    if (!beforeText || !afterText) {
+      setError('Choose a scan or paste the agreement text for both versions.');
+      return;
+    }
+
+    setDiff(diffAgreements(beforeText, afterText));
+  }
+
+  const changedSections = diff?.sections.filter(section => section.operation !== 'equal') || [];
+  const visibleSections = showUnchanged ? diff?.sections || [] : changedSections;
+
+  return (
+    <div className="diff-page">
+      <header className="diff-header">
+        <div className="logo">
+          <span className="shield">🛡️</span>
+          <h1>Compare Agreements</h1>
+        </div>
+      </header>
+
+      <div className="diff-sources">
+        <SourcePicker label="Before" source={before} history={history} onChange={setBefore} />
+        <SourcePicker label="After" source={after} history={history} onChange={setAfter} />
+      </div>
+
+      <div className="diff-actions">
+        <button className="btn btn-upgrade" onClick={() => compare()}>
+          Compare
+        </button>
+        {diff && (
+          <label className="diff-toggle">
+            <input
+              type="checkbox"
+              checked={showUnchanged}
+              onChange={(e) => setShowUnchanged(e.target.checked)}
+            />
+            Show unchanged sections
+          </label>
+        )}
+      </div>
+
+      {error && <p className="error">{error}</p>}
+
+      {diff && (
+        <>
+          <DiffSummary diff={diff} />
+
+          {changedSections.length === 0 && !showUnchanged ? (
+            <p className="empty-state">The two versions have the same clauses.</p>
+          ) : (
+            <div className="diff-table">
+              <div className="diff-row diff-columns">
+                <div className="diff-cell">Before</div>
+                <div className="diff-cell">After</div>
+              </div>
+              {visibleSections.map((section, index) => (
+                <SectionRows key={index} section={section} />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function SourcePicker({
+  label,
+  source,
+  history,
+  onChange,
+}: {
+  label: string;
+  source: DiffSource;
+  history: ScanResult[];
+  onChange: (source: DiffSource) => void;
+}) {
+  // Group scans by site so versions of the same agreement sit together
+  const sites = new Map<string, ScanResult[]>();
+  for (const scan of history) {
+    const hostname = scan.documentName ? 'Documents' : getHostname(scan.url);
+    sites.set(hostname, [...(sites.get(hostname) || []), scan]);
+  }
+
+  return (
+    <div className="diff-source">
+      <div className="diff-source-header">
+        <h2>{label}</h2>
+        <div className="diff-source-modes">
+          <button
+            className={source.mode === 'history' ? 'active' : ''}
+            onClick={() => onChange({ ...source, mode: 'history' })}
+          >
+            From history
+          </button>
+          <button
+            className={source.mode === 'paste' ? 'active' : ''}
+            onClick={() => onChange({ ...source, mode: 'paste' })}
+          >
+            Paste text
+          </button>
+        </div>
+      </div>
+
+      {source.mode === 'history' ? (
+        history.length === 0 ? (
+          <p className="empty-state">No saved scans to compare yet.</p>
+        ) : (
+          <select
+            value={source.scanId}
+            onChange={(e) => onChange({ ...source, scanId: e.target.value })}
+          >
+            <option value="">Choose a scan…</option>
+            {[...sites].map(([hostname, scans]) => (
+              <optgroup key={hostname} label={hostname}>
+                {scans.map(scan => (
+                  <option key={scan.id} value={scan.id}>
+                    {scan.detection?.title || 'Unknown'} — {new Date(scan.timestamp).toLocaleString()}
+                  </option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+        )
+      ) : (
+        <textarea
+          value={source.text}
+          onChange={(e) => onChange({ ...source, text: e.target.value })}
+          placeholder="Paste the agreement text here"
+          rows={8}
+        />
+      )}
+    </div>
+  );
+}
+
+function DiffSummary({ diff }: { diff: AgreementDiff }) {
+  const { added, removed, changed } = diff.stats;
+
+  return (
+    <div className="diff-summary">
+      <p className="diff-headline">
+        {diff.summary.length > 0 ? diff.summary.join(', ') : 'No changes found'}
+      </p>
+      <div className="diff-stats">
+        <span className="diff-stat diff-stat-added">+{added} added</span>
+        <span className="diff-stat diff-stat-removed">−{removed} removed</span>
+        <span className="diff-stat diff-stat-changed">~{changed} reworded</span>
+        <span className="diff-stat">
+          {diff.beforeRisks.length} → {diff.afterRisks.length} risks
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function SectionRows({ section }: { section: SectionDiff }) {
+  return (
+    <>
+      <div className={`diff-row diff-section diff-section-${section.operation}`}>
+        <div className="diff-cell">{section.beforeLabel || (section.operation !== 'added' ? 'Introduction' : '')}</div>
+        <div className="diff-cell">{section.afterLabel || (section.operation !== 'removed' ? 'Introduction' : '')}</div>
+      </div>
+      {section.clauses.map((clause, index) => (
+        <ClauseRow key={index} clause={clause} />
+      ))}
+    </>
+  );
+}
+
+function ClauseRow({ clause }: { clause: ClauseDiff }) {
+  return (
+    <div className={`diff-row diff-${clause.operation}`}>
+      <ClauseCell
+        text={clause.before?.text}
+        words={clause.words?.filter(part => part.operation !== 'added')}
+        risks={clause.beforeRisks}
+      />
+      <ClauseCell
+        text={clause.after?.text}
+        words={clause.words?.filter(part => part.operation !== 'removed')}
+        risks={clause.afterRisks}
+      />
+    </div>
+  );
+}
+
+function ClauseCell({ text, words, risks }: { text?: string; words?: WordDiffPart[]; risks: RiskItem[] }) {
+  if (!text) {
+    return <div className="diff-cell diff-empty" />;
+  }
+
+  // The clause is outlined in the color of its most severe risk
+  const worst = risks.reduce<RiskItem | null>(
+    (highest, risk) => !highest || SEVERITY_RANK[risk.severity] > SEVERITY_RANK[highest.severity] ? risk : highest,
+    null
+  );
+
+  return (
+    <div
+      className={`diff-cell${worst ? ' diff-risky' : ''}`}
+      style={worst ? { borderLeftColor: SEVERITY_COLORS[worst.severity] } : undefined}
+    >
+      <p className="diff-text">
+        {words
+          ? words.map((part, index) => (
+            <span key={index} className={`diff-word-${part.operation}`}>
+              {part.text}{' '}
+            </span>
+          ))
+          : text}
+      </p>
+      {risks.map(risk => (
+        <span
+          key={risk.id}
+          className="diff-risk"
+          style={{ background: SEVERITY_COLORS[risk.severity] }}
+          title={risk.summary}
+        >
+          {RISK_CATEGORIES[risk.category].icon} {risk.title}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function getHostname(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
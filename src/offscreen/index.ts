@@ -0,0 +1,20 @@
+/**
+ * Offscreen document for ProtectYaNeck
+ * Parses PDFs for the background worker, which has no DOM to run pdf.js in
+ */
+
+import { base64ToArrayBuffer } from '../shared/base64';
+
+chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+  // Content scripts' messages reach this page too; only the worker's are ours
+  if (message.type !== 'PARSE_PDF') return;
+
+  import(/* webpackChunkName: "pdf-extractor" */ '../services/pdf-extractor')
+    .then(({ extractPdfText }) => extractPdfText(base64ToArrayBuffer(message.data as string)))
+    .then(pdf => sendResponse({ pdf }))
+    .catch(error => {
+      console.warn('[ProtectYaNeck] Failed to parse PDF:', error);
+      sendResponse({ error: 'Could not read the PDF' });
+    });
+  return true;
+});
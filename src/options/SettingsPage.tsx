@@ -1,8 +1,43 @@
 import React, { useEffect, useState } from 'react';
-import { Settings, UsageData, RiskSeverity, STORAGE_KEYS } from '../shared/types';
-import { DEFAULT_SETTINGS, DEFAULT_USAGE, FREE_SCANS_PER_MONTH, SEVERITY_COLORS } from '../shared/constants';
+import {
+  Settings,
+  UsageData,
+  RiskSeverity,
+  Jurisdiction,
+  StoredRulePack,
+  LLMSettings,
+  LLMProviderId,
+  LLMProviderSettings,
+  LLMUsageHistory,
+  LLMUsageTotals,
+  SitePolicy,
+  SitePolicyMode,
+  STORAGE_KEYS,
+} from '../shared/types';
+import {
+  DEFAULT_INTERCEPT_THRESHOLD,
+  DEFAULT_SETTINGS,
+  DEFAULT_USAGE,
+  FREE_SCANS_PER_MONTH,
+  INTERCEPT_SENSITIVITIES,
+  SEVERITY_COLORS,
+  SITE_POLICY_MODES,
+} from '../shared/constants';
+import { JURISDICTIONS, resolveJurisdiction } from '../shared/jurisdictions';
+import {
+  CORE_RULE_PACK,
+  CORE_RULE_PACK_ID,
+  getStoredRulePacks,
+  saveStoredRulePacks,
+} from '../services/rule-packs';
+import { parseRulePack } from '../services/rule-pack-parser';
+import { LLM_PROVIDERS, LLM_PROVIDER_FIELDS, isProviderConfigured } from '../services/llm-providers';
+import { getLLMSettings, saveLLMSettings } from '../services/llm-analyzer';
+import { clearAnalysisCache } from '../services/analysis-cache';
+import { getLLMUsageHistory, formatMonthKey, formatCost } from '../services/llm-budget';
+import { getSitePolicies, removeSitePolicy, saveSitePolicy } from '../services/site-policies';
 
-type Tab = 'general' | 'whitelist' | 'subscription' | 'history' | 'about';
+type Tab = 'general' | 'whitelist' | 'rules' | 'ai' | 'spend' | 'subscription' | 'history' | 'about';
 
 export function SettingsPage() {
   const [activeTab, setActiveTab] = useState<Tab>('general');
@@ -155,6 +190,24 @@ export function SettingsPage() {
           >
             ✓ Whitelist
           </button>
+          <button
+            className={activeTab === 'rules' ? 'active' : ''}
+            onClick={() => setActiveTab('rules')}
+          >
+            📚 Rule Packs
+          </button>
+          <button
+            className={activeTab === 'ai' ? 'active' : ''}
+            onClick={() => setActiveTab('ai')}
+          >
+            🤖 AI Analysis
+          </button>
+          <button
+            className={activeTab === 'spend' ? 'active' : ''}
+            onClick={() => setActiveTab('spend')}
+          >
+            📊 AI Spend
+          </button>
           <button
             className={activeTab === 'subscription' ? 'active' : ''}
             onClick={() => setActiveTab('subscription')}
@@ -240,6 +293,51 @@ export function SettingsPage() {
                   <option value="critical">Critical Only</option>
                 </select>
               </div>
+
+              <div className="setting-item">
+                <div className="setting-info">
+                  <label>Before-You-Sign Sensitivity</label>
+                  <p>How sure a button must be an agreement before you're warned on click</p>
+                </div>
+                <select
+                  value={settings.interceptThreshold ?? DEFAULT_INTERCEPT_THRESHOLD}
+                  onChange={(e) => saveSettings({ interceptThreshold: Number(e.target.value) })}
+                >
+                  {INTERCEPT_SENSITIVITIES.map(({ label, threshold }) => (
+                    <option key={threshold} value={threshold}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="setting-item">
+                <div className="setting-info">
+                  <label>Where You Live</label>
+                  <p>Adjusts risk levels for the consumer laws that protect you</p>
+                </div>
+                <select
+                  value={resolveJurisdiction(settings.jurisdiction)}
+                  onChange={(e) => saveSettings({ jurisdiction: e.target.value as Jurisdiction })}
+                >
+                  {Object.entries(JURISDICTIONS).map(([value, { label }]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="setting-item">
+                <div className="setting-info">
+                  <label>Watch for Changes</label>
+                  <p>Re-check terms and privacy policies you've accepted and notify you when they change</p>
+                </div>
+                <label className="toggle">
+                  <input
+                    type="checkbox"
+                    checked={settings.watchAgreements !== false}
+                    onChange={(e) => saveSettings({ watchAgreements: e.target.checked })}
+                  />
+                  <span className="slider"></span>
+                </label>
+              </div>
             </section>
           )}
 
@@ -278,6 +376,48 @@ export function SettingsPage() {
                   ))
                 )}
               </div>
+
+              <h2 className="subsection-title">Remembered Decisions</h2>
+              <p className="section-description">
+                What the before-you-sign check does on sites where you accepted the agreement anyway.
+              </p>
+              <SitePolicies />
+            </section>
+          )}
+
+          {activeTab === 'rules' && (
+            <section className="settings-section">
+              <h2>Rule Packs</h2>
+              <p className="section-description">
+                Add extra detection rules without waiting for an extension update.
+                Rule packs are JSON or YAML files; see docs/RULE_PACKS.md for the format.
+              </p>
+
+              <RulePacks />
+            </section>
+          )}
+
+          {activeTab === 'ai' && (
+            <section className="settings-section">
+              <h2>AI Analysis</h2>
+              <p className="section-description">
+                Use a language model for deeper analysis than keyword matching.
+                Bring your own API key, or run a model locally so agreements never leave your machine.
+              </p>
+
+              <AIAnalysis />
+            </section>
+          )}
+
+          {activeTab === 'spend' && (
+            <section className="settings-section">
+              <h2>AI Spend</h2>
+              <p className="section-description">
+                Token usage and estimated cost of AI analysis with your own API key.
+                Cached agreements and local models are free.
+              </p>
+
+              <AISpend />
             </section>
           )}
 
@@ -459,19 +599,479 @@ function ScanHistory() {
         <div key={index} className="history-item">
           <div className="history-info">
             <span className="history-title">{scan.detection?.title || 'Unknown'}</span>
-            <span className="history-url">{new URL(scan.url).hostname}</span>
+            <span className="history-url">{scan.documentName || new URL(scan.url).hostname}</span>
             <span className="history-date">
               {new Date(scan.timestamp).toLocaleDateString()}
             </span>
+            {scan.accepted && (
+              <span className="history-accepted">
+                Accepted on {new Date(scan.accepted.acceptedAt).toLocaleDateString()} ·{' '}
+                {SITE_POLICY_MODES[scan.accepted.mode as SitePolicyMode].label}
+              </span>
+            )}
           </div>
-          <div
-            className="history-severity"
-            style={{ background: SEVERITY_COLORS[scan.overallSeverity as RiskSeverity] }}
-          >
-            {scan.risks?.length || 0} risks
+          <div className="history-actions">
+            {scan.textHash && (
+              <a
+                className="history-compare"
+                href={chrome.runtime.getURL(`diff.html?after=${encodeURIComponent(scan.id)}`)}
+                target="_blank"
+                rel="noreferrer"
+              >
+                Compare
+              </a>
+            )}
+            <div
+              className="history-severity"
+              style={{ background: SEVERITY_COLORS[scan.overallSeverity as RiskSeverity] }}
+            >
+              {scan.risks?.length || 0} risks
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function SitePolicies() {
+  const [policies, setPolicies] = useState<SitePolicy[]>([]);
+
+  useEffect(() => {
+    loadPolicies();
+  }, []);
+
+  async function loadPolicies() {
+    setPolicies(await getSitePolicies());
+  }
+
+  async function changeMode(policy: SitePolicy, mode: SitePolicyMode) {
+    await saveSitePolicy({ ...policy, mode });
+    loadPolicies();
+  }
+
+  async function forget(policy: SitePolicy) {
+    await removeSitePolicy(policy);
+    loadPolicies();
+  }
+
+  if (policies.length === 0) {
+    return <p className="empty-state">No remembered decisions yet.</p>;
+  }
+
+  return (
+    <div className="whitelist-items">
+      {policies.map((policy) => (
+        <div key={`${policy.hostname}|${policy.agreementHash}`} className="whitelist-item">
+          <div className="site-policy-info">
+            <span className="site-policy-host">{policy.hostname}</span>
+            <span className="site-policy-meta">
+              Accepted {new Date(policy.acceptedAt).toLocaleDateString()}
+              {policy.title ? ` · ${policy.title}` : ''}
+              {` · Terms ${policy.agreementHash.slice(0, 8)}`}
+            </span>
+          </div>
+          <div className="rule-pack-actions">
+            <select
+              value={policy.mode}
+              title={SITE_POLICY_MODES[policy.mode].description}
+              onChange={(e) => changeMode(policy, e.target.value as SitePolicyMode)}
+            >
+              {(Object.keys(SITE_POLICY_MODES) as SitePolicyMode[]).map((mode) => (
+                <option key={mode} value={mode}>
+                  {SITE_POLICY_MODES[mode].label}
+                </option>
+              ))}
+            </select>
+            <button className="remove-btn" onClick={() => forget(policy)}>
+              ×
+            </button>
           </div>
         </div>
       ))}
     </div>
   );
 }
+
+function RulePacks() {
+  const [packs, setPacks] = useState<StoredRulePack[]>([]);
+  const [importText, setImportText] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [importStatus, setImportStatus] = useState('');
+
+  useEffect(() => {
+    getStoredRulePacks().then(setPacks);
+  }, []);
+
+  async function savePacks(newPacks: StoredRulePack[]) {
+    await saveStoredRulePacks(newPacks);
+    setPacks(newPacks);
+  }
+
+  async function importPack(text: string) {
+    setImportStatus('');
+    const result = await parseRulePack(text);
+
+    if (!result.valid) {
+      setErrors(result.errors);
+      return;
+    }
+
+    if (result.pack.id === CORE_RULE_PACK_ID) {
+      setErrors([`"${CORE_RULE_PACK_ID}" is reserved for the built-in rule pack`]);
+      return;
+    }
+
+    // Importing a pack with an existing id replaces it
+    const entry: StoredRulePack = { pack: result.pack, enabled: true, importedAt: Date.now() };
+    const existing = packs.some(p => p.pack.id === result.pack.id);
+    await savePacks(existing
+      ? packs.map(p => (p.pack.id === result.pack.id ? entry : p))
+      : [...packs, entry]);
+
+    setErrors([]);
+    setImportText('');
+    setImportStatus(`${existing ? 'Updated' : 'Imported'} "${result.pack.name}" (${result.pack.rules.length} rules)`);
+  }
+
+  async function importFile(file: File | undefined) {
+    if (!file) return;
+    importPack(await file.text());
+  }
+
+  function togglePack(id: string, enabled: boolean) {
+    savePacks(packs.map(p => (p.pack.id === id ? { ...p, enabled } : p)));
+  }
+
+  function removePack(id: string) {
+    savePacks(packs.filter(p => p.pack.id !== id));
+  }
+
+  return (
+    <>
+      <div className="rule-pack-list">
+        <div className="rule-pack-item">
+          <div className="rule-pack-info">
+            <span className="rule-pack-name">{CORE_RULE_PACK.name}</span>
+            <span className="rule-pack-meta">
+              v{CORE_RULE_PACK.version} · {CORE_RULE_PACK.rules.length} rules · Built-in
+            </span>
+          </div>
+          <label className="toggle">
+            <input type="checkbox" checked disabled />
+            <span className="slider"></span>
+          </label>
+        </div>
+
+        {packs.map(({ pack, enabled }) => (
+          <div key={pack.id} className="rule-pack-item">
+            <div className="rule-pack-info">
+              <span className="rule-pack-name">{pack.name}</span>
+              <span className="rule-pack-meta">
+                v{pack.version} · {pack.rules.length} rules
+                {pack.description ? ` · ${pack.description}` : ''}
+              </span>
+            </div>
+            <div className="rule-pack-actions">
+              <label className="toggle">
+                <input
+                  type="checkbox"
+                  checked={enabled}
+                  onChange={(e) => togglePack(pack.id, e.target.checked)}
+                />
+                <span className="slider"></span>
+              </label>
+              <button className="remove-btn" onClick={() => removePack(pack.id)}>
+                ×
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="rule-pack-import">
+        <h3>Import a Rule Pack</h3>
+        <input
+          type="file"
+          accept=".json,.yaml,.yml,application/json"
+          onChange={(e) => importFile(e.target.files?.[0])}
+        />
+        <textarea
+          placeholder='Or paste rule pack JSON or YAML, e.g. { "id": "my-rules", "name": "My Rules", "version": "1.0.0", "rules": [...] }'
+          value={importText}
+          onChange={(e) => setImportText(e.target.value)}
+          rows={6}
+        />
+        <button
+          className="btn btn-secondary"
+          onClick={() => importPack(importText)}
+          disabled={!importText.trim()}
+        >
+          Import
+        </button>
+
+        {importStatus && <p className="rule-pack-status">✓ {importStatus}</p>}
+        {errors.length > 0 && (
+          <ul className="rule-pack-errors">
+            {errors.map((error) => (
+              <li key={error} className="error">{error}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </>
+  );
+}
+
+function AIAnalysis() {
+  const [llmSettings, setLLMSettings] = useState<LLMSettings | null>(null);
+  const [cacheCleared, setCacheCleared] = useState(false);
+
+  useEffect(() => {
+    getLLMSettings().then(setLLMSettings);
+  }, []);
+
+  if (!llmSettings) return null;
+
+  async function update(newSettings: LLMSettings) {
+    setLLMSettings(newSettings);
+    await saveLLMSettings(newSettings);
+  }
+
+  function selectProvider(value: string) {
+    update({ ...llmSettings!, provider: value ? (value as LLMProviderId) : null });
+  }
+
+  function updateProviderSettings(id: LLMProviderId, updates: Partial<LLMProviderSettings>) {
+    update({
+      ...llmSettings!,
+      providers: {
+        ...llmSettings!.providers,
+        [id]: { ...llmSettings!.providers[id], ...updates },
+      },
+    });
+  }
+
+  const provider = llmSettings.provider ? LLM_PROVIDERS[llmSettings.provider] : null;
+  const providerSettings = provider ? llmSettings.providers[provider.id] || {} : {};
+
+  return (
+    <>
+      <div className="setting-item">
+        <div className="setting-info">
+          <label>Provider</label>
+          <p>Which model analyzes agreements</p>
+        </div>
+        <select value={llmSettings.provider || ''} onChange={(e) => selectProvider(e.target.value)}>
+          <option value="">Off (keyword matching only)</option>
+          {Object.values(LLM_PROVIDERS).map(({ id, label }) => (
+            <option key={id} value={id}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {provider && (
+        <div className="llm-provider">
+          <p className="llm-provider-description">{provider.description}</p>
+          <p className={`llm-privacy ${provider.sendsDataToThirdParty ? 'remote' : 'local'}`}>
+            {provider.sendsDataToThirdParty
+              ? `🌐 Agreement text is sent to ${provider.label} for analysis.`
+              : '🔒 Agreement text stays on your machine. Ollama needs OLLAMA_ORIGINS set to allow requests from the extension.'}
+          </p>
+
+          {[...provider.requiredFields, ...provider.optionalFields].map((field) => (
+            <div key={field} className="llm-field">
+              <label>
+                {LLM_PROVIDER_FIELDS[field].label}
+                {provider.optionalFields.includes(field) && <span className="llm-optional"> (optional)</span>}
+              </label>
+              <input
+                type={LLM_PROVIDER_FIELDS[field].secret ? 'password' : 'text'}
+                placeholder={provider.defaults[field] || LLM_PROVIDER_FIELDS[field].placeholder}
+                value={providerSettings[field] || ''}
+                onChange={(e) => updateProviderSettings(provider.id, { [field]: e.target.value.trim() })}
+              />
+            </div>
+          ))}
+
+          <div className="llm-field">
+            <label>Model</label>
+            {provider.allowCustomModel ? (
+              <>
+                <input
+                  type="text"
+                  list="llm-models"
+                  placeholder={provider.defaultModel}
+                  value={providerSettings.model || ''}
+                  onChange={(e) => updateProviderSettings(provider.id, { model: e.target.value.trim() })}
+                />
+                <datalist id="llm-models">
+                  {provider.models.map((model) => (
+                    <option key={model} value={model} />
+                  ))}
+                </datalist>
+              </>
+            ) : (
+              <select
+                value={providerSettings.model || provider.defaultModel}
+                onChange={(e) => updateProviderSettings(provider.id, { model: e.target.value })}
+              >
+                {provider.models.map((model) => (
+                  <option key={model} value={model}>{model}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          {!isProviderConfigured(provider, providerSettings) && (
+            <p className="llm-incomplete">
+              Fill in the required settings above to turn on AI analysis.
+            </p>
+          )}
+
+          {provider.sendsDataToThirdParty && (
+            <div className="setting-item">
+              <div className="setting-info">
+                <label>Share Analyses</label>
+                <p>Reuse and share results for agreements other users have already analyzed. Only a hash of the text and the findings are shared.</p>
+              </div>
+              <label className="toggle">
+                <input
+                  type="checkbox"
+                  checked={!!llmSettings.shareAnalyses}
+                  onChange={(e) => update({ ...llmSettings, shareAnalyses: e.target.checked })}
+                />
+                <span className="slider"></span>
+              </label>
+            </div>
+          )}
+
+          <div className="setting-item">
+            <div className="setting-info">
+              <label>Cached Analyses</label>
+              <p>Agreements you've already analyzed are reused instead of calling the model again</p>
+            </div>
+            <button
+              className="btn btn-secondary"
+              onClick={async () => {
+                await clearAnalysisCache();
+                setCacheCleared(true);
+              }}
+              disabled={cacheCleared}
+            >
+              {cacheCleared ? 'Cleared' : 'Clear Cache'}
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+function AISpend() {
+  const [llmSettings, setLLMSettings] = useState<LLMSettings | null>(null);
+  const [history, setHistory] = useState<LLMUsageHistory>({ days: {}, months: {} });
+  const [budgetInput, setBudgetInput] = useState('');
+
+  useEffect(() => {
+    getLLMSettings().then((loaded) => {
+      setLLMSettings(loaded);
+      setBudgetInput(loaded.monthlyBudget ? String(loaded.monthlyBudget) : '');
+    });
+    getLLMUsageHistory().then(setHistory);
+  }, []);
+
+  if (!llmSettings) return null;
+
+  async function saveBudget() {
+    const value = parseFloat(budgetInput);
+    const monthlyBudget = Number.isFinite(value) && value > 0 ? Math.round(value * 100) / 100 : undefined;
+    const newSettings = { ...llmSettings!, monthlyBudget };
+
+    setLLMSettings(newSettings);
+    setBudgetInput(monthlyBudget ? String(monthlyBudget) : '');
+    await saveLLMSettings(newSettings);
+  }
+
+  const thisMonth = history.months[formatMonthKey(new Date())];
+  const monthlySpend = thisMonth?.cost || 0;
+  const budget = llmSettings.monthlyBudget;
+  const days = Object.entries(history.days).sort(([a], [b]) => b.localeCompare(a)).slice(0, 30);
+  const months = Object.entries(history.months).sort(([a], [b]) => b.localeCompare(a));
+
+  return (
+    <>
+      <div className="setting-item">
+        <div className="setting-info">
+          <label>Monthly Spend Cap</label>
+          <p>Once reached, scans use keyword matching until next month. Leave empty for no cap.</p>
+        </div>
+        <div className="spend-budget">
+          <span>$</span>
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            placeholder="No cap"
+            value={budgetInput}
+            onChange={(e) => setBudgetInput(e.target.value)}
+            onBlur={saveBudget}
+            onKeyDown={(e) => e.key === 'Enter' && saveBudget()}
+          />
+        </div>
+      </div>
+
+      <div className="spend-summary">
+        <p>
+          <strong>{formatCost(monthlySpend)}</strong> spent this month
+          {budget ? ` of your ${formatCost(budget)} cap` : ''}
+        </p>
+        {budget && (
+          <div className="usage-bar">
+            <div className="usage-fill" style={{ width: `${Math.min(100, (monthlySpend / budget) * 100)}%` }} />
+          </div>
+        )}
+        {budget && monthlySpend >= budget && (
+          <p className="spend-cap-reached">Cap reached. AI analysis is paused until next month.</p>
+        )}
+      </div>
+
+      <h3 className="spend-heading">Last 30 Days</h3>
+      <SpendTable rows={days} emptyMessage="No AI scans yet." />
+
+      <h3 className="spend-heading">By Month</h3>
+      <SpendTable rows={months} emptyMessage="No AI scans yet." />
+    </>
+  );
+}
+
+function SpendTable({ rows, emptyMessage }: { rows: Array<[string, LLMUsageTotals]>; emptyMessage: string }) {
+  if (rows.length === 0) {
+    return <p className="empty-state">{emptyMessage}</p>;
+  }
+
+  return (
+    <table className="spend-table">
+      <thead>
+        <tr>
+          <th>Date</th>
+          <th>Scans</th>
+          <th>Input Tokens</th>
+          <th>Output Tokens</th>
+          <th>Cost</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(([date, totals]) => (
+          <tr key={date}>
+            <td>{date}</td>
+            <td>{totals.scans}</td>
+            <td>{totals.inputTokens.toLocaleString()}</td>
+            <td>{totals.outputTokens.toLocaleString()}</td>
+            <td>{formatCost(totals.cost)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -60,6 +60,10 @@ export function App() {
     chrome.runtime.openOptionsPage();
   }
 
+  function openAnalyzePage() {
+    chrome.tabs.create({ url: chrome.runtime.getURL('analyze.html') });
+  }
+
   function openUpgrade() {
     chrome.tabs.create({ url: 'https://protectyaneck.com/upgrade' });
   }
@@ -252,6 +256,8 @@ export function App() {
       <footer className="footer">
         <button className="link-btn" onClick={openSettings}>Settings</button>
         <span className="separator">•</span>
+        <button className="link-btn" onClick={openAnalyzePage}>Analyze a Document</button>
+        <span className="separator">•</span>
         <button
           className="link-btn"
           onClick={() => chrome.tabs.create({ url: 'https://protectyaneck.com/help' })}
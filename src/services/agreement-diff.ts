@@ -0,0 +1,445 @@
+/**
+ * Agreement Diff
+ * Compares two versions of an agreement section by section, producing a
+ * clause-level redline with the risks found on each side
+ */
+
+import { RiskCategory, RiskItem, RiskSeverity } from '../shared/types';
+import { RISK_CATEGORIES } from '../shared/constants';
+import { analyzeRisks } from '../content/analyzer';
+import { segmentAgreement, AgreementClause, AgreementSection } from '../content/segmenter';
+
+export type DiffOperation = 'equal' | 'added' | 'removed' | 'changed';
+
+// A run of words in a reworded clause
+export interface WordDiffPart {
+  text: string;
+  operation: 'equal' | 'added' | 'removed';
+}
+
+// One row of the redline: a clause on either or both sides
+export interface ClauseDiff {
+  operation: DiffOperation;
+  before?: AgreementClause;
+  after?: AgreementClause;
+  words?: WordDiffPart[]; // Only for reworded clauses
+  beforeRisks: RiskItem[];
+  afterRisks: RiskItem[];
+}
+
+// A section matched across both versions (or present in only one)
+export interface SectionDiff {
+  operation: DiffOperation;
+  beforeLabel?: string;
+  afterLabel?: string;
+  clauses: ClauseDiff[];
+}
+
+export interface AgreementDiff {
+  sections: SectionDiff[];
+  beforeRisks: RiskItem[];
+  afterRisks: RiskItem[];
+  summary: string[];
+  stats: {
+    added: number;
+    removed: number;
+    changed: number;
+  };
+}
+
+// Reworded clauses must share at least this share of their words
+const MIN_CLAUSE_SIMILARITY = 0.5;
+
+// Renamed or renumbered sections must share at least this share of their words
+const MIN_SECTION_SIMILARITY = 0.3;
+
+const SEVERITY_RANK: Record<RiskSeverity, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8,
+  nine: 9, ten: 10, eleven: 11, twelve: 12, thirty: 30, sixty: 60, ninety: 90,
+};
+
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7, month: 30, year: 365 };
+
+const DURATION_PATTERN = /\b(\d+|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirty|sixty|ninety)(?:\s*\(\d+\))?[\s-]*(day|week|month|year)s?\b/gi;
+
+/**
+ * Compares two agreement texts and describes what changed
+ */
+export function diffAgreements(beforeText: string, afterText: string): AgreementDiff {
+  const beforeRisks = analyzeRisks(beforeText);
+  const afterRisks = analyzeRisks(afterText);
+
+  const sections = alignSections(segmentAgreement(beforeText), segmentAgreement(afterText))
+    .map(({ before, after }) => diffSection(before, after, beforeRisks, afterRisks));
+
+  const clauses = sections.flatMap(section => section.clauses);
+  const stats = {
+    added: clauses.filter(clause => clause.operation === 'added').length,
+    removed: clauses.filter(clause => clause.operation === 'removed').length,
+    changed: clauses.filter(clause => clause.operation === 'changed').length,
+  };
+
+  return {
+    sections,
+    beforeRisks,
+    afterRisks,
+    summary: summarizeDiff(clauses, beforeRisks, afterRisks, stats),
+    stats,
+  };
+}
+
+/**
+ * Pairs sections by heading (or number), keeping document order
+ */
+function alignSections(
+  before: AgreementSection[],
+  after: AgreementSection[]
+): Array<{ before?: AgreementSection; after?: AgreementSection }> {
+  const aligned: Array<{ before?: AgreementSection; after?: AgreementSection }> = [];
+  const matches = longestCommonSubsequence(before.map(sectionKey), after.map(sectionKey));
+
+  let i = 0;
+  let j = 0;
+  for (const [matchI, matchJ] of [...matches, [before.length, after.length]]) {
+    // Sections between two anchors may be renamed or renumbered versions of each other
+    const removed = before.slice(i, matchI);
+    const added = after.slice(j, matchJ);
+    const pairs = pairBySimilarity(removed, added, section => sectionText(section), MIN_SECTION_SIMILARITY);
+
+    for (const section of removed) {
+      if (!pairs.has(section)) aligned.push({ before: section });
+    }
+    for (const section of added) {
+      const partner = [...pairs].find(([, value]) => value === section)?.[0];
+      aligned.push(partner ? { before: partner, after: section } : { after: section });
+    }
+
+    if (matchI < before.length) {
+      aligned.push({ before: before[matchI], after: after[matchJ] });
+    }
+    i = matchI + 1;
+    j = matchJ + 1;
+  }
+
+  return aligned;
+}
+
+/**
+ * Diffs the clauses of two aligned sections
+ */
+function diffSection(
+  before: AgreementSection | undefined,
+  after: AgreementSection | undefined,
+  beforeRisks: RiskItem[],
+  afterRisks: RiskItem[]
+): SectionDiff {
+  const beforeClauses = before ? sectionClauses(before) : [];
+  const afterClauses = after ? sectionClauses(after) : [];
+  const clauses: ClauseDiff[] = [];
+
+  const addClause = (operation: DiffOperation, beforeClause?: AgreementClause, afterClause?: AgreementClause) => {
+    clauses.push({
+      operation,
+      before: beforeClause,
+      after: afterClause,
+      words: operation === 'changed' && beforeClause && afterClause
+        ? diffWords(beforeClause.text, afterClause.text)
+        : undefined,
+      beforeRisks: beforeClause ? risksInClause(beforeRisks, beforeClause) : [],
+      afterRisks: afterClause ? risksInClause(afterRisks, afterClause) : [],
+    });
+  };
+
+  const matches = longestCommonSubsequence(
+    beforeClauses.map(clause => normalizeText(clause.text)),
+    afterClauses.map(clause => normalizeText(clause.text))
+  );
+
+  let i = 0;
+  let j = 0;
+  for (const [matchI, matchJ] of [...matches, [beforeClauses.length, afterClauses.length]]) {
+    // Clauses between two unchanged ones are either rewordings or genuinely new/removed
+    const removed = beforeClauses.slice(i, matchI);
+    const added = afterClauses.slice(j, matchJ);
+    const pairs = pairBySimilarity(removed, added, clause => clause.text, MIN_CLAUSE_SIMILARITY);
+
+    for (const clause of removed) {
+      if (!pairs.has(clause)) addClause('removed', clause);
+    }
+    for (const clause of added) {
+      const partner = [...pairs].find(([, value]) => value === clause)?.[0];
+      if (partner) {
+        addClause('changed', partner, clause);
+      } else {
+        addClause('added', undefined, clause);
+      }
+    }
+
+    if (matchI < beforeClauses.length) {
+      addClause('equal', beforeClauses[matchI], afterClauses[matchJ]);
+    }
+    i = matchI + 1;
+    j = matchJ + 1;
+  }
+
+  let operation: DiffOperation = 'changed';
+  if (!before) operation = 'added';
+  else if (!after) operation = 'removed';
+  else if (clauses.every(clause => clause.operation === 'equal')) operation = 'equal';
+
+  return {
+    operation,
+    beforeLabel: before ? sectionLabel(before) : undefined,
+    afterLabel: after ? sectionLabel(after) : undefined,
+    clauses,
+  };
+}
+
+/**
+ * Diffs two clauses word by word
+ */
+export function diffWords(before: string, after: string): WordDiffPart[] {
+  const beforeWords = before.split(/\s+/).filter(Boolean);
+  const afterWords = after.split(/\s+/).filter(Boolean);
+  const matches = longestCommonSubsequence(
+    beforeWords.map(word => word.toLowerCase()),
+    afterWords.map(word => word.toLowerCase())
+  );
+
+  const parts: WordDiffPart[] = [];
+  const push = (words: string[], operation: WordDiffPart['operation']) => {
+    if (words.length === 0) return;
+    const last = parts[parts.length - 1];
+    if (last?.operation === operation) {
+      last.text += ' ' + words.join(' ');
+    } else {
+      parts.push({ text: words.join(' '), operation });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  for (const [matchI, matchJ] of [...matches, [beforeWords.length, afterWords.length]]) {
+    push(beforeWords.slice(i, matchI), 'removed');
+    push(afterWords.slice(j, matchJ), 'added');
+    if (matchJ < afterWords.length) {
+      push([afterWords[matchJ]], 'equal');
+    }
+    i = matchI + 1;
+    j = matchJ + 1;
+  }
+
+  return parts;
+}
+
+/**
+ * Describes the changes in plain words, e.g. "new arbitration clause added"
+ */
+function summarizeDiff(
+  clauses: ClauseDiff[],
+  beforeRisks: RiskItem[],
+  afterRisks: RiskItem[],
+  stats: AgreementDiff['stats']
+): string[] {
+  const summary: string[] = [];
+
+  // Only categories touched by a changed clause count as changed
+  const touched = new Set<RiskCategory>();
+  for (const clause of clauses) {
+    if (clause.operation === 'equal') continue;
+    clause.beforeRisks.forEach(risk => touched.add(risk.category));
+    clause.afterRisks.forEach(risk => touched.add(risk.category));
+  }
+
+  for (const category of touched) {
+    const label = categoryName(category);
+    const previous = beforeRisks.filter(risk => risk.category === category);
+    const current = afterRisks.filter(risk => risk.category === category);
+
+    if (previous.length === 0) {
+      summary.push(`new ${label} clause added`);
+      continue;
+    }
+    if (current.length === 0) {
+      summary.push(`${label} clause removed`);
+      continue;
+    }
+
+    const previousDays = longestDuration(previous);
+    const currentDays = longestDuration(current);
+    if (previousDays !== null && currentDays !== null && previousDays !== currentDays) {
+      summary.push(`${label} ${currentDays < previousDays ? 'shortened' : 'extended'}`);
+      continue;
+    }
+
+    const previousSeverity = highestSeverity(previous);
+    const currentSeverity = highestSeverity(current);
+    if (previousSeverity !== currentSeverity) {
+      const direction = SEVERITY_RANK[currentSeverity] > SEVERITY_RANK[previousSeverity] ? 'raised' : 'lowered';
+      summary.push(`${label} risk ${direction} to ${currentSeverity}`);
+    } else {
+      summary.push(`${label} terms reworded`);
+    }
+  }
+
+  if (summary.length === 0 && stats.added + stats.removed + stats.changed > 0) {
+    const counts = [
+      stats.added > 0 ? `${stats.added} clause${stats.added === 1 ? '' : 's'} added` : '',
+      stats.removed > 0 ? `${stats.removed} removed` : '',
+      stats.changed > 0 ? `${stats.changed} reworded` : '',
+    ].filter(Boolean);
+    summary.push(`${counts.join(', ')}, no change in flagged risks`);
+  }
+
+  if (summary.length > 0) {
+    summary[0] = summary[0].charAt(0).toUpperCase() + summary[0].substring(1);
+  }
+
+  return summary;
+}
+
+/**
+ * Returns index pairs of the longest common subsequence of two lists
+ */
+function longestCommonSubsequence(a: string[], b: string[]): Array<[number, number]> {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Pairs each added item with the most similar unpaired removed one
+ */
+function pairBySimilarity<T>(
+  removed: T[],
+  added: T[],
+  getText: (item: T) => string,
+  minSimilarity: number
+): Map<T, T> {
+  const pairs = new Map<T, T>();
+
+  for (const item of added) {
+    let best: T | undefined;
+    let bestScore = minSimilarity;
+
+    for (const candidate of removed) {
+      if (pairs.has(candidate)) continue;
+      const score = similarity(getText(candidate), getText(item));
+      if (score >= bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+
+    if (best) pairs.set(best, item);
+  }
+
+  return pairs;
+}
+
+/**
+ * Share of distinct words two texts have in common
+ */
+function similarity(a: string, b: string): number {
+  const wordsA = new Set(normalizeText(a).split(' ').filter(Boolean));
+  const wordsB = new Set(normalizeText(b).split(' ').filter(Boolean));
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+  return shared / Math.max(wordsA.size, wordsB.size);
+}
+
+/**
+ * Finds the risks flagged in a clause
+ */
+function risksInClause(risks: RiskItem[], clause: AgreementClause): RiskItem[] {
+  return risks.filter(risk =>
+    risk.location &&
+    risk.location.startIndex < clause.endIndex &&
+    clause.startIndex < risk.location.endIndex
+  );
+}
+
+/**
+ * Finds the longest retention period, notice period etc. mentioned by the risks, in days
+ */
+function longestDuration(risks: RiskItem[]): number | null {
+  let longest: number | null = null;
+
+  for (const risk of risks) {
+    for (const match of risk.originalText.matchAll(DURATION_PATTERN)) {
+      const amount = NUMBER_WORDS[match[1].toLowerCase()] ?? parseInt(match[1], 10);
+      const days = amount * UNIT_DAYS[match[2].toLowerCase()];
+      if (longest === null || days > longest) longest = days;
+    }
+  }
+
+  return longest;
+}
+
+function highestSeverity(risks: RiskItem[]): RiskSeverity {
+  return risks.reduce<RiskSeverity>(
+    (highest, risk) => SEVERITY_RANK[risk.severity] > SEVERITY_RANK[highest] ? risk.severity : highest,
+    'low'
+  );
+}
+
+/**
+ * Lowercase category name for sentences, e.g. "arbitration" or "data retention"
+ */
+function categoryName(category: RiskCategory): string {
+  return RISK_CATEGORIES[category].label.replace(/\s+clause$/i, '').toLowerCase();
+}
+
+function sectionClauses(section: AgreementSection): AgreementClause[] {
+  return section.paragraphs.flatMap(paragraph => paragraph.clauses);
+}
+
+function sectionText(section: AgreementSection): string {
+  return [section.heading, ...sectionClauses(section).map(clause => clause.text)].filter(Boolean).join(' ');
+}
+
+function sectionLabel(section: AgreementSection): string | undefined {
+  return [section.number, section.heading].filter(Boolean).join(' ') || undefined;
+}
+
+/**
+ * Sections are matched by heading, since numbering shifts when sections are inserted
+ */
+function sectionKey(section: AgreementSection): string {
+  if (section.heading) return `heading:${normalizeText(section.heading)}`;
+  if (section.number) return `number:${section.number}`;
+  return 'preamble';
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getWatchedUrls, trackAcceptedAgreement } from './agreement-monitor';
+import { AgreementVersion, LinkedAgreementResult, ScanResult, STORAGE_KEYS } from '../shared/types';
+
+const accepted = { acceptedAt: 1, mode: 'always' as const, agreementHash: 'hash' };
+
+function scan(url: string, type: ScanResult['detection']['type'], linkedAgreements?: LinkedAgreementResult[]): ScanResult {
+  return {
+    accepted,
+    id: url,
+    url,
+    timestamp: 0,
+    detection: { isAgreement: true, confidence: 1, type, url },
+    risks: [],
+    overallSeverity: 'low',
+    summary: '',
+    linkedAgreements,
+  };
+}
+
+function linked(url: string, type: LinkedAgreementResult['type'], error?: string): LinkedAgreementResult {
+  return { url, title: url, type, risks: [], protections: [], overallSeverity: 'low', error };
+}
+
+describe('getWatchedUrls', () => {
+  it('watches terms linked from a sign-up form, not just scanned pages', () => {
+    const history = [
+      scan('https://example.com/signup', 'signup', [
+        linked('https://example.com/terms', 'tos'),
+        linked('https://example.com/privacy#data', 'privacy'),
+        linked('https://example.com/cookies', 'cookie'),
+        linked('https://example.com/broken', 'tos', 'HTTP 404'),
+      ]),
+      scan('https://other.example/tos', 'tos'),
+    ];
+
+    expect(getWatchedUrls(history)).toEqual([
+      'https://example.com/terms',
+      'https://example.com/privacy',
+      'https://other.example/tos',
+    ]);
+  });
+
+  it('only watches agreements the user accepted', () => {
+    const history = [
+      { ...scan('https://example.com/tos', 'tos'), accepted: undefined },
+      scan('https://other.example/tos', 'tos'),
+    ];
+
+    expect(getWatchedUrls(history)).toEqual(['https://other.example/tos']);
+  });
+});
+
+describe('trackAcceptedAgreement', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('stores every linked document fetched at the same time', async () => {
+    const storage: Record<string, unknown> = {};
+    vi.stubGlobal('chrome', {
+      storage: {
+        local: {
+          get: async (key: string) => ({ [key]: structuredClone(storage[key]) }),
+          set: async (items: Record<string, unknown>) => {
+            await new Promise(resolve => setTimeout(resolve, 0));
+            Object.assign(storage, structuredClone(items));
+          },
+        },
+      },
+    });
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      const response = new Response(`<main>${`Terms of ${url}. `.repeat(40)}</main>`);
+      Object.defineProperty(response, 'url', { value: url });
+      return response;
+    }));
+
+    await trackAcceptedAgreement(scan('https://example.com/signup', 'signup', [
+      linked('https://example.com/terms', 'tos'),
+      linked('https://example.com/privacy', 'privacy'),
+    ]));
+
+    const versions = storage[STORAGE_KEYS.AGREEMENT_VERSIONS] as Record<string, AgreementVersion>;
+    expect(Object.keys(versions).sort()).toEqual(['https://example.com/privacy', 'https://example.com/terms']);
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Agreement Monitor
+ * Re-fetches terms and privacy pages the user has accepted and reports
+ * clause-level changes, including which risks were added or removed
+ */
+
+import {
+  AgreementChange,
+  AgreementDetection,
+  AgreementVersion,
+  RiskItem,
+  RiskSnapshot,
+  ScanResult,
+  STORAGE_KEYS,
+} from '../shared/types';
+import { analyzeRisks } from '../content/analyzer';
+import { segmentClauses } from '../content/segmenter';
+import { loadRulePacks } from './rule-packs';
+import { hashAgreement } from './analysis-cache';
+import { saveAgreementText } from './agreement-texts';
+import { updateStorage } from './storage-updates';
+import { isPublicWebUrl } from '../shared/urls';
+
+// Most recently accepted agreements that are watched
+const MAX_WATCHED_AGREEMENTS = 25;
+
+// Change records kept for review
+const MAX_CHANGES = 50;
+
+// Pages with less text than this are probably error or login pages
+const MIN_AGREEMENT_LENGTH = 500;
+
+// Same limit the content script applies to extracted text
+const MAX_AGREEMENT_LENGTH = 50000;
+
+/**
+ * Gets the URLs of the terms and privacy pages the user accepted, including
+ * those linked from sign-up forms, most recent first
+ */
+export function getWatchedUrls(history: ScanResult[]): string[] {
+  const urls: string[] = [];
+
+  for (const scan of history) {
+    if (!scan.accepted) continue;
+
+    for (const page of getAgreementPages(scan)) {
+      const normalizedUrl = normalizeUrl(page.url);
+      if (normalizedUrl && !urls.includes(normalizedUrl)) urls.push(normalizedUrl);
+    }
+
+    if (urls.length >= MAX_WATCHED_AGREEMENTS) break;
+  }
+
+  return urls.slice(0, MAX_WATCHED_AGREEMENTS);
+}
+
+/**
+ * Stores the first version of each page of an accepted agreement, so later
+ * checks have something to compare with
+ */
+export async function trackAcceptedAgreement(scan: ScanResult): Promise<void> {
+  await Promise.all(getAgreementPages(scan).map(page => trackAgreement(page.url, page.title)));
+}
+
+/**
+ * Stores the first version of an agreement page
+ */
+async function trackAgreement(url: string, title?: string): Promise<void> {
+  const normalizedUrl = normalizeUrl(url);
+  if (!normalizedUrl) return;
+
+  const versions = await getAgreementVersions();
+  if (versions[normalizedUrl]) return;
+
+  const version = await fetchAgreementVersion(normalizedUrl, title);
+  if (!version) return;
+
+  await updateStorage<Record<string, AgreementVersion>>(STORAGE_KEYS.AGREEMENT_VERSIONS, (latest = {}) => {
+    latest[normalizedUrl] ??= version;
+    return latest;
+  });
+}
+
+/**
+ * Gets the terms and privacy pages a scan covers: the scanned page and
+ * those linked from its sign-up form
+ */
+function getAgreementPages(scan: ScanResult): Array<{ url: string; title?: string }> {
+  const pages: Array<{ url: string; title?: string }> = [];
+  const isWatchedType = (type: AgreementDetection['type']) => type === 'tos' || type === 'privacy';
+
+  // Pasted and uploaded documents have no page to re-fetch
+  if (!scan.documentName && isWatchedType(scan.detection.type)) {
+    pages.push({ url: scan.url, title: scan.detection.title });
+  }
+
+  for (const linked of scan.linkedAgreements || []) {
+    if (!linked.error && isWatchedType(linked.type)) pages.push({ url: linked.url, title: linked.title });
+  }
+
+  return pages;
+}
+
+/**
+ * Re-fetches every watched agreement and returns the changes found
+ */
+export async function checkWatchedAgreements(history: ScanResult[]): Promise<AgreementChange[]> {
+  const urls = getWatchedUrls(history);
+  const versions = await getAgreementVersions();
+  const checked: Record<string, AgreementVersion> = {};
+  const changes: AgreementChange[] = [];
+
+  // Detection rules must be loaded before diffing risks
+  await loadRulePacks().catch(error => {
+    console.warn('[ProtectYaNeck] Failed to load rule packs, using core rules:', error);
+  });
+
+  for (const url of urls) {
+    const previous = versions[url];
+    const current = await fetchAgreementVersion(url, previous?.title);
+    if (!current) continue;
+
+    if (!previous) {
+      checked[url] = current;
+      continue;
+    }
+
+    if (current.textHash === previous.textHash) {
+      checked[url] = { ...previous, checkedAt: current.checkedAt };
+      continue;
+    }
+
+    const change = diffAgreementVersions(previous, current);
+    checked[url] = current;
+
+    // Formatting-only changes don't add or remove clauses
+    if (change.addedClauses.length > 0 || change.removedClauses.length > 0) {
+      // Keep both versions so the diff viewer can show them side by side
+      await saveAgreementText(previous.textHash, previous.text);
+      await saveAgreementText(current.textHash, current.text);
+      changes.push(change);
+    }
+  }
+
+  // Agreements accepted while this ran were stored in the meantime, so the
+  // results go into the latest versions rather than replacing them
+  await updateStorage<Record<string, AgreementVersion>>(STORAGE_KEYS.AGREEMENT_VERSIONS, (latest = {}) => {
+    Object.assign(latest, checked);
+
+    // Stop watching agreements that fell out of the history
+    for (const url of Object.keys(versions)) {
+      if (!urls.includes(url)) delete latest[url];
+    }
+    return latest;
+  });
+
+  if (changes.length > 0) {
+    await updateStorage<AgreementChange[]>(STORAGE_KEYS.AGREEMENT_CHANGES, (stored = []) =>
+      [...changes, ...stored].slice(0, MAX_CHANGES)
+    );
+  }
+
+  return changes;
+}
+
+/**
+ * Compares two versions of an agreement clause by clause
+ */
+export function diffAgreementVersions(previous: AgreementVersion, current: AgreementVersion): AgreementChange {
+  const previousClauses = segmentClauses(previous.text);
+  const currentClauses = segmentClauses(current.text);
+
+  const previousKeys = new Set(previousClauses.map(clause => normalizeClause(clause.text)));
+  const currentKeys = new Set(currentClauses.map(clause => normalizeClause(clause.text)));
+
+  const addedClauses = currentClauses.filter(clause => !previousKeys.has(normalizeClause(clause.text)));
+  const removedClauses = previousClauses.filter(clause => !currentKeys.has(normalizeClause(clause.text)));
+
+  // Only risks in clauses that changed count as added or removed
+  const addedKeys = new Set(addedClauses.map(clause => normalizeClause(clause.text)));
+  const removedKeys = new Set(removedClauses.map(clause => normalizeClause(clause.text)));
+
+  const addedRisks = analyzeRisks(current.text)
+    .filter(risk => addedKeys.has(normalizeClause(risk.originalText)))
+    .map(toSnapshot);
+  const removedRisks = analyzeRisks(previous.text)
+    .filter(risk => removedKeys.has(normalizeClause(risk.originalText)))
+    .map(toSnapshot);
+
+  return {
+    id: `change-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+    url: current.url,
+    title: current.title,
+    detectedAt: current.fetchedAt,
+    previousFetchedAt: previous.fetchedAt,
+    previousTextHash: previous.textHash,
+    currentTextHash: current.textHash,
+    addedClauses: addedClauses.map(clause => clause.text),
+    removedClauses: removedClauses.map(clause => clause.text),
+    addedRisks,
+    removedRisks,
+  };
+}
+
+/**
+ * Gets recorded agreement changes, most recent first
+ */
+export async function getAgreementChanges(): Promise<AgreementChange[]> {
+  const result = await chrome.storage.local.get(STORAGE_KEYS.AGREEMENT_CHANGES);
+  return result[STORAGE_KEYS.AGREEMENT_CHANGES] || [];
+}
+
+/**
+ * Extracts readable text from agreement HTML without a DOM
+ * Service workers have no DOMParser, so this works on the markup directly
+ */
+export function htmlToText(html: string): string {
+  // Prefer the main content area when the page marks one
+  const main = html.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i)?.[1]
+    || html.match(/<article\b[^>]*>([\s\S]*?)<\/article>/i)?.[1]
+    || html.match(/<body\b[^>]*>([\s\S]*?)<\/body>/i)?.[1]
+    || html;
+
+  const text = main
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(script|style|noscript|svg|template|nav|header|footer)\b[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<(br|hr)\b[^>]*>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|li|ul|ol|h[1-6]|tr|table|blockquote|dd|dt)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ');
+
+  return decodeEntities(text)
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+    .substring(0, MAX_AGREEMENT_LENGTH);
+}
+
+/**
+ * Gets a page's <title>, if it has one
+ */
+export function htmlTitle(html: string): string | undefined {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  return title ? decodeEntities(title).trim() || undefined : undefined;
+}
+
+/**
+ * Fetches a page and builds a version record from it
+ */
+async function fetchAgreementVersion(url: string, title?: string): Promise<AgreementVersion | null> {
+  try {
+    const response = await fetch(url, { credentials: 'omit', cache: 'no-store' });
+    if (!response.ok) {
+      console.warn('[ProtectYaNeck] Failed to fetch agreement:', url, response.status);
+      return null;
+    }
+
+    // Redirected to the local network
+    if (!isPublicWebUrl(response.url)) return null;
+
+    const html = await response.text();
+    const text = htmlToText(html);
+    if (text.length < MIN_AGREEMENT_LENGTH) return null;
+
+    const now = Date.now();
+
+    return {
+      url,
+      title: title || htmlTitle(html),
+      text,
+      textHash: await hashAgreement(text),
+      fetchedAt: now,
+      checkedAt: now,
+    };
+  } catch (error) {
+    console.warn('[ProtectYaNeck] Agreement fetch error:', url, error);
+    return null;
+  }
+}
+
+/**
+ * Gets stored agreement versions keyed by URL
+ */
+async function getAgreementVersions(): Promise<Record<string, AgreementVersion>> {
+  const result = await chrome.storage.local.get(STORAGE_KEYS.AGREEMENT_VERSIONS);
+  return result[STORAGE_KEYS.AGREEMENT_VERSIONS] || {};
+}
+
+/**
+ * Keeps only the parts of a risk worth remembering between versions
+ */
+function toSnapshot(risk: RiskItem): RiskSnapshot {
+  return {
+    category: risk.category,
+    severity: risk.severity,
+    title: risk.title,
+    originalText: risk.originalText,
+    section: risk.section,
+  };
+}
+
+/**
+ * Normalizes clause text so whitespace and punctuation changes aren't reported
+ */
+function normalizeClause(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Strips the fragment from a URL so anchors on the same page share a version
+ * Links to local addresses are never watched
+ */
+function normalizeUrl(url: string): string | null {
+  if (!isPublicWebUrl(url)) return null;
+
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decodes the HTML entities common in legal pages
+ */
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+    rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“', mdash: '—', ndash: '–', hellip: '…', sect: '§', copy: '©', reg: '®',
+  };
+
+  const fromCode = (code: number) => (code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : ' ');
+
+  return text
+    .replace(/&#(\d+);/g, (_, code) => fromCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => fromCode(parseInt(code, 16)))
+    .replace(/&([a-z]+);/gi, (entity, name) => named[name.toLowerCase()] ?? entity);
+}
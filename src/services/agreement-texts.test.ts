@@ -0,0 +1,39 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getAgreementText, saveAgreementText } from './agreement-texts';
+
+let storage: Record<string, unknown> = {};
+
+describe('agreement texts', () => {
+  beforeEach(() => {
+    storage = {};
+    vi.stubGlobal('chrome', {
+      storage: {
+        local: {
+          // Copies values and writes after a turn of the event loop, like the real storage area
+          get: async (key: string) => ({ [key]: structuredClone(storage[key]) }),
+          set: async (items: Record<string, unknown>) => {
+            await new Promise(resolve => setTimeout(resolve, 0));
+            Object.assign(storage, structuredClone(items));
+          },
+        },
+      },
+    });
+  });
+
+  it('keeps every text saved at the same time', async () => {
+    await Promise.all([
+      saveAgreementText('a', 'First terms'),
+      saveAgreementText('b', 'Second terms'),
+      saveAgreementText('c', 'Third terms'),
+    ]);
+
+    expect(await getAgreementText('a')).toBe('First terms');
+    expect(await getAgreementText('b')).toBe('Second terms');
+    expect(await getAgreementText('c')).toBe('Third terms');
+  });
+
+  it('stores at most 50,000 characters of a text', async () => {
+    await saveAgreementText('long', 'x'.repeat(80000));
+    expect(await getAgreementText('long')).toHaveLength(50000);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Agreement Text Store
+ * Keeps the full text of recently scanned agreements, keyed by content hash,
+ * so versions can be compared later without re-fetching them
+ */
+
+import { STORAGE_KEYS } from '../shared/types';
+import { updateStorage } from './storage-updates';
+
+// Least recently saved texts are evicted past this size
+const MAX_STORED_TEXTS = 30;
+
+// Same limit as text extracted from pages, so a long PDF can't fill the storage quota
+const MAX_TEXT_LENGTH = 50000;
+
+interface StoredText {
+  text: string;
+  savedAt: number;
+}
+
+/**
+ * Saves an agreement's text under its content hash
+ */
+export function saveAgreementText(hash: string, text: string): Promise<void> {
+  return updateStorage<Record<string, StoredText>>(STORAGE_KEYS.AGREEMENT_TEXTS, (texts = {}) => {
+    texts[hash] = { text: text.substring(0, MAX_TEXT_LENGTH), savedAt: Date.now() };
+
+    const hashes = Object.keys(texts);
+    if (hashes.length > MAX_STORED_TEXTS) {
+      hashes
+        .sort((a, b) => texts[a].savedAt - texts[b].savedAt)
+        .slice(0, hashes.length - MAX_STORED_TEXTS)
+        .forEach(oldHash => delete texts[oldHash]);
+    }
+
+    return texts;
+  });
+}
+
+/**
+ * Gets an agreement's text by content hash
+ */
+export async function getAgreementText(hash: string): Promise<string | null> {
+  const texts = await getStoredTexts();
+  return texts[hash]?.text ?? null;
+}
+
+/**
+ * Reads the stored texts
+ */
+async function getStoredTexts(): Promise<Record<string, StoredText>> {
+  const result = await chrome.storage.local.get(STORAGE_KEYS.AGREEMENT_TEXTS);
+  return result[STORAGE_KEYS.AGREEMENT_TEXTS] || {};
+}
@@ -0,0 +1,151 @@
+/**
+ * LLM Analysis Cache
+ * Stores analysis results keyed by a hash of the normalized agreement text,
+ * the model and the prompt version, so re-opening the same terms is free
+ */
+
+import { STORAGE_KEYS } from '../shared/types';
+import { API_URL } from '../shared/constants';
+import type { AnalysisResult } from './llm-analyzer';
+import { updateStorage } from './storage-updates';
+
+// Least recently used entries are evicted past this size
+const MAX_CACHE_ENTRIES = 50;
+
+interface CacheEntry {
+  result: AnalysisResult;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+type AnalysisCache = Record<string, CacheEntry>;
+
+// Identifies one analysis: which text, analyzed by which model with which prompt
+export interface AnalysisCacheKey {
+  hash: string;
+  model: string; // "<provider>:<model>"
+  promptVersion: number;
+}
+
+/**
+ * Hashes agreement text so whitespace and casing differences share a cache entry
+ */
+export async function hashAgreement(text: string): Promise<string> {
+  const normalized = text.toLowerCase().replace(/\s+/g, ' ').trim();
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Gets a cached analysis from extension storage, marking it as recently used
+ */
+export async function getCachedAnalysis(key: AnalysisCacheKey): Promise<AnalysisResult | null> {
+  const cache = await getCache();
+  const entry = cache[serializeKey(key)];
+  if (!entry) return null;
+
+  const now = Date.now();
+  await updateStorage<AnalysisCache>(STORAGE_KEYS.ANALYSIS_CACHE, (latest = {}) => {
+    const current = latest[serializeKey(key)];
+    if (current) current.lastUsedAt = now;
+    return latest;
+  });
+
+  return entry.result;
+}
+
+/**
+ * Stores an analysis in extension storage, evicting the least recently used entries
+ */
+export function cacheAnalysis(key: AnalysisCacheKey, result: AnalysisResult): Promise<void> {
+  const now = Date.now();
+
+  return updateStorage<AnalysisCache>(STORAGE_KEYS.ANALYSIS_CACHE, (cache = {}) => {
+    cache[serializeKey(key)] = { result, createdAt: now, lastUsedAt: now };
+
+    const keys = Object.keys(cache);
+    if (keys.length > MAX_CACHE_ENTRIES) {
+      keys
+        .sort((a, b) => cache[a].lastUsedAt - cache[b].lastUsedAt)
+        .slice(0, keys.length - MAX_CACHE_ENTRIES)
+        .forEach(oldKey => delete cache[oldKey]);
+    }
+
+    return cache;
+  });
+}
+
+/**
+ * Clears every cached analysis
+ */
+export async function clearAnalysisCache(): Promise<void> {
+  await chrome.storage.local.remove(STORAGE_KEYS.ANALYSIS_CACHE);
+}
+
+/**
+ * Fetches an analysis shared by other users from the backend
+ * The result is untrusted; callers validate it before use
+ */
+export async function fetchSharedAnalysis(key: AnalysisCacheKey): Promise<unknown> {
+  try {
+    const params = new URLSearchParams({ model: key.model, promptVersion: String(key.promptVersion) });
+    const response = await fetch(`${API_URL}/api/analyses/${key.hash}?${params}`);
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    return data.result || null;
+  } catch (error) {
+    console.warn('[ProtectYaNeck] Failed to fetch shared analysis:', error);
+    return null;
+  }
+}
+
+/**
+ * Shares an analysis through the backend so other users can skip the LLM call
+ */
+export async function shareAnalysis(key: AnalysisCacheKey, result: AnalysisResult): Promise<void> {
+  try {
+    await fetch(`${API_URL}/api/analyses/${key.hash}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: key.model,
+        promptVersion: key.promptVersion,
+        result: {
+          // Only the findings; offsets and ids are recomputed by whoever reuses them
+          risks: result.risks.map(({ category, severity, title, summary, originalText }) => ({
+            category,
+            severity,
+            title,
+            summary,
+            originalText,
+          })),
+          summary: result.summary,
+          overallSeverity: result.overallSeverity,
+        },
+      }),
+    });
+  } catch (error) {
+    console.warn('[ProtectYaNeck] Failed to share analysis:', error);
+  }
+}
+
+/**
+ * Builds the storage key for a cache entry
+ */
+function serializeKey(key: AnalysisCacheKey): string {
+  return `${key.hash}:${key.model}:v${key.promptVersion}`;
+}
+
+/**
+ * Reads the cache from storage
+ */
+async function getCache(): Promise<AnalysisCache> {
+  const result = await chrome.storage.local.get(STORAGE_KEYS.ANALYSIS_CACHE);
+  return result[STORAGE_KEYS.ANALYSIS_CACHE] || {};
+}
@@ -0,0 +1,95 @@
+/**
+ * Industry Benchmark Service
+ * Caches risk score distributions aggregated on the backend from
+ * anonymized scan scores, and reports new scores back to it
+ */
+
+import { BenchmarkCache, BenchmarkDistribution, Industry, STORAGE_KEYS } from '../shared/types';
+import { API_URL } from '../shared/constants';
+
+// Benchmarks are refreshed at most once a day
+export const BENCHMARK_MAX_AGE = 24 * 60 * 60 * 1000;
+
+// The backend rejects larger batches of scores
+export const MAX_SCORE_BATCH_SIZE = 50;
+
+let cachedBenchmarks: BenchmarkCache | null = null;
+
+/**
+ * Loads cached benchmarks from storage into memory
+ */
+export async function loadBenchmarks(): Promise<BenchmarkCache | null> {
+  const result = await chrome.storage.local.get(STORAGE_KEYS.BENCHMARKS);
+  cachedBenchmarks = result[STORAGE_KEYS.BENCHMARKS] || null;
+  return cachedBenchmarks;
+}
+
+/**
+ * Gets the score distribution for an industry, if enough data exists
+ */
+export function getBenchmarkDistribution(industry: Industry): BenchmarkDistribution | null {
+  return cachedBenchmarks?.industries[industry] || null;
+}
+
+/**
+ * Fetches fresh benchmarks from the backend when the cache is stale
+ */
+export async function refreshBenchmarks(force = false): Promise<void> {
+  const cache = await loadBenchmarks();
+  if (!force && cache && Date.now() - cache.fetchedAt < BENCHMARK_MAX_AGE) return;
+
+  try {
+    const response = await fetch(`${API_URL}/api/benchmarks`);
+    if (!response.ok) {
+      console.warn('[ProtectYaNeck] Failed to fetch benchmarks:', response.status);
+      return;
+    }
+
+    const data = await response.json();
+    const benchmarks: BenchmarkCache = {
+      industries: data.industries || {},
+      fetchedAt: Date.now(),
+    };
+
+    await chrome.storage.local.set({ [STORAGE_KEYS.BENCHMARKS]: benchmarks });
+    cachedBenchmarks = benchmarks;
+  } catch (error) {
+    console.warn('[ProtectYaNeck] Benchmark fetch error:', error);
+  }
+}
+
+/**
+ * Sends anonymized scan scores (industry and score only) to the backend
+ */
+export async function submitScanScores(scores: Array<{ industry: Industry; score: number }>): Promise<boolean> {
+  if (scores.length === 0) return true;
+
+  try {
+    const response = await fetch(`${API_URL}/api/benchmarks/scores`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ scores }),
+    });
+    return response.ok;
+  } catch (error) {
+    console.warn('[ProtectYaNeck] Failed to submit scan scores:', error);
+    return false;
+  }
+}
+
+/**
+ * Calculates the share of services (0-100) with a lower score than the given one
+ */
+export function percentileOf(score: number, distribution: BenchmarkDistribution): number {
+  const { percentiles } = distribution;
+  const step = 100 / (percentiles.length - 1);
+
+  let below = 0;
+  for (let i = 0; i < percentiles.length; i++) {
+    if (percentiles[i] < score) below = i * step;
+  }
+
+  return Math.round(below);
+}
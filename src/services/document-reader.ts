@@ -0,0 +1,145 @@
+/**
+ * Document Reader
+ * Turns pasted or uploaded agreements (.txt, .md, .html, .docx, .pdf)
+ * into plain text for analysis
+ */
+
+import { htmlToText } from './agreement-monitor';
+import { PdfPage } from './pdf-pages';
+
+// File types the analyze page accepts
+export const SUPPORTED_DOCUMENT_EXTENSIONS = ['.txt', '.md', '.markdown', '.html', '.htm', '.docx', '.pdf'];
+
+// Same limit as text extracted from pages
+const MAX_DOCUMENT_LENGTH = 50000;
+
+export interface AgreementDocument {
+  name: string;
+  text: string;
+  title?: string;
+  pages?: PdfPage[]; // Only for PDFs
+}
+
+/**
+ * Reads an uploaded file into plain text
+ */
+export async function readDocument(file: File): Promise<AgreementDocument> {
+  const extension = file.name.toLowerCase().match(/\.[a-z]+$/)?.[0] || '';
+
+  switch (extension) {
+    case '.pdf': {
+      // The parser is large, so it's only loaded once a PDF is uploaded
+      const { extractPdfText } = await import(/* webpackChunkName: "pdf-extractor" */ './pdf-extractor');
+      const pdf = await extractPdfText(await file.arrayBuffer());
+      return { name: file.name, text: pdf.text.substring(0, MAX_DOCUMENT_LENGTH), title: pdf.title, pages: pdf.pages };
+    }
+
+    case '.docx':
+      return { name: file.name, text: limit(docxToText(await readZipEntry(await file.arrayBuffer(), 'word/document.xml'))) };
+
+    case '.html':
+    case '.htm':
+      return { name: file.name, text: htmlToText(await file.text()) };
+
+    case '.md':
+    case '.markdown':
+      return { name: file.name, text: limit(markdownToText(await file.text())) };
+
+    case '.txt':
+      return { name: file.name, text: limit(await file.text()) };
+
+    default:
+      throw new Error(`Unsupported file type "${extension || file.name}". Use ${SUPPORTED_DOCUMENT_EXTENSIONS.join(', ')}`);
+  }
+}
+
+/**
+ * Cleans up pasted text, which may be HTML copied from an email
+ */
+export function readPastedText(text: string): string {
+  return /^\s*<(!doctype|html|body|div|p)\b/i.test(text) ? htmlToText(text) : limit(text.trim());
+}
+
+/**
+ * Strips Markdown syntax while keeping headings on their own lines
+ */
+function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/(\*\*|__|\*|_|`)(.+?)\1/g, '$2')
+    .replace(/^\s*[-*_]{3,}\s*$/gm, '')
+    .trim();
+}
+
+/**
+ * Extracts paragraph text from a Word document's XML
+ */
+function docxToText(xml: string): string {
+  const text = xml
+    .replace(/<w:tab\/>/g, '\t')
+    .replace(/<w:(br|cr)\/>/g, '\n')
+    .replace(/<\/w:p>/g, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+  return text
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Reads one file out of a zip archive (a .docx is a zip of XML files)
+ */
+async function readZipEntry(data: ArrayBuffer, name: string): Promise<string> {
+  const view = new DataView(data);
+
+  // The central directory is listed at the end of the archive
+  let end = data.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error('Not a valid .docx file');
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < entryCount; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const entryName = decoder.decode(new Uint8Array(data, offset + 46, nameLength));
+
+    if (entryName === name) {
+      const localNameLength = view.getUint16(localOffset + 26, true);
+      const localExtraLength = view.getUint16(localOffset + 28, true);
+      const start = localOffset + 30 + localNameLength + localExtraLength;
+      const bytes = new Uint8Array(data, start, compressedSize);
+
+      if (method === 0) return decoder.decode(bytes);
+      if (method !== 8) throw new Error('Unsupported .docx compression');
+
+      const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Response(stream).text();
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  throw new Error('The .docx file has no document body');
+}
+
+function limit(text: string): string {
+  return text.substring(0, MAX_DOCUMENT_LENGTH);
+}
@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { analyzeWithLLM, LLMConfig, splitIntoChunks, validateAnalysisResponse } from './llm-analyzer';
+import { recordLLMUsage } from './llm-budget';
+import { fetchSharedAnalysis } from './analysis-cache';
+import { RISK_CATEGORIES } from '../shared/constants';
+
+vi.mock('./analysis-cache', () => ({
+  hashAgreement: async () => 'hash',
+  getCachedAnalysis: async () => null,
+  cacheAnalysis: async () => undefined,
+  fetchSharedAnalysis: vi.fn(async () => null),
+  shareAnalysis: async () => undefined,
+}));
+
+vi.mock('./llm-budget', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./llm-budget')>()),
+  recordLLMUsage: vi.fn(async () => undefined),
+}));
+
+const config: LLMConfig = { provider: 'openai', settings: { apiKey: 'test-key' } };
+
+// Five sections too long to share a chunk
+const text = Array.from({ length: 5 }, (_, index) =>
+  `${index + 1}. Section ${index + 1}\n\nWe may share your data with partners. ${'Filler text for this section. '.repeat(350)}`
+).join('\n\n');
+
+interface PendingRequest {
+  succeed: () => void;
+  fail: () => void;
+}
+
+/**
+ * Stubs fetch so each provider request waits until the test settles it
+ */
+function stubProvider(): PendingRequest[] {
+  const requests: PendingRequest[] = [];
+
+  vi.stubGlobal('fetch', vi.fn(() => new Promise<Response>(resolve => {
+    requests.push({
+      succeed: () => resolve(new Response(JSON.stringify({
+        choices: [{
+          message: {
+            content: JSON.stringify({
+              risks: [{
+                category: 'data_sharing',
+                severity: 'high',
+                title: 'Shares your data',
+                summary: 'Your data may be shared with partners.',
+                originalText: 'We may share your data with partners.',
+              }],
+              summary: 'Shares data.',
+              overallSeverity: 'high',
+            }),
+          },
+        }],
+        usage: { prompt_tokens: 100, completion_tokens: 50 },
+      }))),
+      fail: () => resolve(new Response('', { status: 500 })),
+    });
+  })));
+
+  return requests;
+}
+
+describe('analyzeWithLLM', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.mocked(recordLLMUsage).mockClear();
+  });
+
+  it('stops analyzing chunks once one fails and ignores late results', async () => {
+    expect(splitIntoChunks(text).length).toBe(5);
+    const requests = stubProvider();
+    const onRisks = vi.fn();
+
+    const analysis = analyzeWithLLM(text, config, { onRisks });
+    const failure = expect(analysis).rejects.toThrow('OpenAI API error: 500');
+    await vi.waitFor(() => expect(requests).toHaveLength(3));
+
+    requests[0].fail();
+    requests[1].succeed();
+    requests[2].succeed();
+    await failure;
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(onRisks).not.toHaveBeenCalled();
+  });
+
+  it('records the spend of chunks still in flight when one fails', async () => {
+    const requests = stubProvider();
+
+    const analysis = analyzeWithLLM(text, config);
+    const failure = expect(analysis).rejects.toThrow('OpenAI API error: 500');
+    await vi.waitFor(() => expect(requests).toHaveLength(3));
+
+    requests[0].fail();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(recordLLMUsage).not.toHaveBeenCalled();
+
+    requests[1].succeed();
+    requests[2].succeed();
+    await failure;
+
+    expect(recordLLMUsage).toHaveBeenCalledTimes(1);
+    expect(recordLLMUsage).toHaveBeenCalledWith(expect.objectContaining({ inputTokens: 200, outputTokens: 100 }));
+  });
+
+  it('prices an Azure deployment as the model that answered', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+      model: 'gpt-4-0613',
+      choices: [{ message: { content: JSON.stringify({ risks: [], summary: 'Nothing found.', overallSeverity: 'low' }) } }],
+      usage: { prompt_tokens: 1_000_000, completion_tokens: 0 },
+    }))));
+
+    await analyzeWithLLM('We may share your data with partners.', {
+      provider: 'azure_openai',
+      settings: { apiKey: 'test-key', endpoint: 'https://example.openai.azure.com', deployment: 'contracts' },
+    });
+
+    expect(recordLLMUsage).toHaveBeenCalledWith(expect.objectContaining({ cost: 30 }));
+  });
+
+  it('shows none of a shared analysis\'s own wording', async () => {
+    vi.mocked(fetchSharedAnalysis).mockResolvedValueOnce({
+      risks: [{
+        category: 'data_sharing',
+        severity: 'high',
+        title: 'Visit evil.example to opt out',
+        summary: 'Call 555-0100 and read out your card number.',
+        originalText: 'We may share your data with partners.',
+      }],
+      summary: 'Nothing to worry about, click agree.',
+      overallSeverity: 'high',
+    });
+
+    const result = await analyzeWithLLM(text, { ...config, shareAnalyses: true });
+
+    expect(result.risks).toEqual([expect.objectContaining({
+      title: RISK_CATEGORIES.data_sharing.label,
+      summary: RISK_CATEGORIES.data_sharing.description,
+      originalText: expect.stringContaining('We may share your data with partners'),
+    })]);
+    expect(JSON.stringify(result)).not.toMatch(/evil|555|click agree/);
+  });
+});
+
+describe('validateAnalysisResponse', () => {
+  it('keeps the valid risks and reports what is wrong with the rest', () => {
+    const { analysis, errors } = validateAnalysisResponse(JSON.stringify({
+      risks: [
+        null,
+        { category: 'arbitration', severity: 'high', title: 'Arbitration', summary: 'Disputes go to arbitration.', originalText: ' binding arbitration ' },
+        { category: 'toString', severity: 'high', title: 'Bad', summary: 'Bad', originalText: 'x' },
+        { category: 'data_sharing', severity: 'high', title: 42, summary: ' ', originalText: 'x' },
+      ],
+      summary: 'One risk.',
+      overallSeverity: 'high',
+    }));
+
+    expect(analysis?.risks).toEqual([
+      { category: 'arbitration', severity: 'high', title: 'Arbitration', summary: 'Disputes go to arbitration.', originalText: 'binding arbitration' },
+    ]);
+    expect(errors).toEqual([
+      'risks[0] must be an object',
+      'risks[2].category "toString" is not one of the listed categories',
+      'risks[3].title must be a non-empty string',
+      'risks[3].summary must be a non-empty string',
+    ]);
+  });
+
+  it('rejects replies that are not an object with a risks array', () => {
+    expect(validateAnalysisResponse('[]').analysis).toBeNull();
+    expect(validateAnalysisResponse('{"risks": "none"}').errors).toEqual(['"risks" must be an array']);
+  });
+});
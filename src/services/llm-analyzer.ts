@@ -1,72 +1,249 @@
-import { RiskItem, RiskCategory, RiskSeverity } from '../shared/types';
+import {
+  RiskItem,
+  RiskCategory,
+  RiskSeverity,
+  LLMProviderId,
+  LLMProviderSettings,
+  LLMSettings,
+  LLMUsageTotals,
+  STORAGE_KEYS,
+} from '../shared/types';
 import { RISK_CATEGORIES } from '../shared/constants';
+import { segmentAgreement } from '../content/segmenter';
+import { LLM_PROVIDERS, calculateCost, getModelPricing, isProviderConfigured, resolveProviderSettings } from './llm-providers';
+import { emptyUsage, isOverBudget, recordLLMUsage } from './llm-budget';
+import { locateQuote } from './quote-matcher';
+import {
+  AnalysisCacheKey,
+  cacheAnalysis,
+  fetchSharedAnalysis,
+  getCachedAnalysis,
+  hashAgreement,
+  shareAnalysis,
+} from './analysis-cache';
 
 /**
  * LLM-powered risk analysis service
- * Uses OpenAI API for more sophisticated agreement analysis
+ * Sends agreements to the provider chosen in settings for more sophisticated analysis
  */
 
-const API_ENDPOINT = 'https://api.openai.com/v1/chat/completions';
+// Storage key used before multiple providers were supported
+const LEGACY_OPENAI_KEY = 'pyn_openai_key';
 
-interface LLMConfig {
-  apiKey: string;
-  model?: string;
+const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  provider: null,
+  providers: {},
+};
+
+// Agreements longer than this are split into chunks and analyzed separately
+const CHUNK_SIZE = 12000;
+
+// How many chunk requests may be in flight at once
+const MAX_CONCURRENT_REQUESTS = 3;
+
+// How many times to ask the model to fix a reply that doesn't match the schema
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Bump when prompts or response handling change, so cached analyses are redone
+export const PROMPT_VERSION = 1;
+
+export interface LLMConfig {
+  provider: LLMProviderId;
+  settings: LLMProviderSettings;
+  shareAnalyses?: boolean;
 }
 
-interface AnalysisResult {
+// Called as each chunk of a long agreement finishes
+export type LLMProgressCallback = (completed: number, total: number) => void;
+
+export interface LLMAnalysisOptions {
+  onProgress?: LLMProgressCallback;
+  onRisks?: (risks: RiskItem[]) => void; // Streams each chunk's findings as they arrive
+}
+
+// Keeps risk ids unique across chunks analyzed in the same millisecond
+let riskCounter = 0;
+
+export interface AnalysisResult {
   risks: RiskItem[];
   summary: string;
   overallSeverity: RiskSeverity;
+  cached?: boolean; // Served from the cache without calling the LLM
+  usage?: LLMUsageTotals; // Tokens and cost of the requests made for this analysis
 }
 
 /**
  * Analyzes agreement text using LLM
+ * Results are cached by agreement content, so repeat visits return instantly
  */
 export async function analyzeWithLLM(
   text: string,
-  config: LLMConfig
+  config: LLMConfig,
+  options: LLMAnalysisOptions = {}
 ): Promise<AnalysisResult> {
-  const { apiKey, model = 'gpt-4o-mini' } = config;
-
-  const prompt = buildAnalysisPrompt(text);
+  const key = await getCacheKey(text, config);
+
+  const local = await getCachedAnalysis(key);
+  const shared = !local && config.shareAnalyses ? parseSharedAnalysis(await fetchSharedAnalysis(key), text) : null;
+  const cached = local ? relocateRisks(local, text) : shared;
+
+  if (cached) {
+    const result = { ...cached, cached: true };
+    options.onProgress?.(1, 1);
+    options.onRisks?.(result.risks);
+    if (!local) await cacheAnalysis(key, cached);
+    return result;
+  }
 
+  // Spend is recorded even when the analysis fails part way through
+  const usage: LLMUsageTotals = { ...emptyUsage(), scans: 1 };
+  let result: AnalysisResult;
   try {
-    const response = await fetch(API_ENDPOINT, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model,
-        messages: [
-          {
-            role: 'system',
-            content: getSystemPrompt(),
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.3,
-        max_tokens: 2000,
-        response_format: { type: 'json_object' },
-      }),
+    result = await runAnalysis(text, config, options, usage);
+  } finally {
+    await recordLLMUsage(usage);
+  }
+
+  await cacheAnalysis(key, result);
+  if (config.shareAnalyses) {
+    shareAnalysis(key, result);
+  }
+
+  return { ...result, usage };
+}
+
+/**
+ * Builds the cache key for an agreement analyzed with the configured model
+ */
+async function getCacheKey(text: string, config: LLMConfig): Promise<AnalysisCacheKey> {
+  const provider = LLM_PROVIDERS[config.provider];
+  const settings = resolveProviderSettings(provider, config.settings);
+  const model = config.provider === 'azure_openai' ? settings.deployment : settings.model || provider.defaultModel;
+
+  return {
+    hash: await hashAgreement(text),
+    model: `${config.provider}:${model}`,
+    promptVersion: PROMPT_VERSION,
+  };
+}
+
+/**
+ * Checks an analysis shared through the backend like an LLM reply, since
+ * anyone can submit one. Only risks quoting this agreement are kept, and no
+ * submitted wording is shown: titles and summaries come from each risk's
+ * category, and the overall summary and severity are worked out from them
+ */
+function parseSharedAnalysis(data: unknown, text: string): AnalysisResult | null {
+  if (!data) return null;
+
+  const { analysis, errors } = validateAnalysisResponse(JSON.stringify(data));
+  if (!analysis || errors.length > 0) {
+    console.warn('[ProtectYaNeck] Ignoring invalid shared analysis:', errors);
+    return null;
+  }
+
+  const { risks } = relocateRisks({
+    risks: analysis.risks.map(({ category, severity, originalText }) => ({
+      id: '',
+      category,
+      severity,
+      title: RISK_CATEGORIES[category].label,
+      summary: RISK_CATEGORIES[category].description,
+      originalText,
+    })),
+    summary: '',
+    overallSeverity: 'low',
+  }, text);
+
+  return {
+    risks,
+    summary: generateDefaultSummary(risks),
+    overallSeverity: risks.reduce<RiskSeverity>(
+      (highest, risk) => (severityRank(risk.severity) > severityRank(highest) ? risk.severity : highest),
+      'low'
+    ),
+  };
+}
+
+/**
+ * Re-locates cached quotes, since the same normalized text can have different offsets
+ */
+function relocateRisks(result: AnalysisResult, text: string): AnalysisResult {
+  const risks: RiskItem[] = [];
+
+  for (const risk of result.risks) {
+    const match = locateQuote(risk.originalText, text);
+    if (!match) continue;
+
+    risks.push({
+      ...risk,
+      id: `llm-risk-${Date.now()}-${riskCounter++}`,
+      originalText: text.substring(match.startIndex, match.endIndex),
+      location: { startIndex: match.startIndex, endIndex: match.endIndex },
     });
+  }
 
-    if (!response.ok) {
-      throw new Error(`API error: ${response.status}`);
-    }
+  return { ...result, risks };
+}
 
-    const data = await response.json();
-    const content = data.choices[0]?.message?.content;
+/**
+ * Runs the LLM analysis
+ * Long agreements are split on section boundaries and analyzed chunk by chunk
+ */
+async function runAnalysis(
+  text: string,
+  config: LLMConfig,
+  options: LLMAnalysisOptions,
+  usage: LLMUsageTotals
+): Promise<AnalysisResult> {
+  const { onProgress, onRisks } = options;
+  const chunks = splitIntoChunks(text);
 
-    if (!content) {
-      throw new Error('No response content');
+  try {
+    if (chunks.length === 1) {
+      onProgress?.(0, 1);
+      const result = await requestAnalysis(buildAnalysisPrompt(chunks[0]), chunks[0], 0, config, usage);
+      onProgress?.(1, 1);
+      onRisks?.(result.risks);
+      return result;
     }
 
-    return parseAnalysisResponse(content);
+    // Map: analyze each chunk independently
+    let completed = 0;
+    onProgress?.(completed, chunks.length);
+
+    // Chunks are consecutive slices, so each starts where the previous ones end
+    const offsets = chunks.map((_, index) => chunks.slice(0, index).reduce((sum, chunk) => sum + chunk.length, 0));
+
+    const chunkResults = await mapWithConcurrency(chunks, MAX_CONCURRENT_REQUESTS, async (chunk, index, signal) => {
+      const result = await requestAnalysis(
+        buildAnalysisPrompt(chunk, { index, total: chunks.length }),
+        chunk,
+        offsets[index],
+        config,
+        usage
+      );
+      // Another chunk failed, so the analysis was already reported as failed
+      if (signal.aborted) return result;
+
+      completed++;
+      onProgress?.(completed, chunks.length);
+      onRisks?.(result.risks);
+      return result;
+    });
+
+    // Reduce: merge the findings and summarize them once
+    const risks = mergeRisks(chunkResults.flatMap(result => result.risks));
+    const overallSeverity = chunkResults.reduce<RiskSeverity>(
+      (worst, result) => severityRank(result.overallSeverity) > severityRank(worst) ? result.overallSeverity : worst,
+      'low'
+    );
+
+    return {
+      risks,
+      summary: await summarizeRisks(risks, config, usage),
+      overallSeverity,
+    };
 
   } catch (error) {
     console.error('[ProtectYaNeck] LLM analysis failed:', error);
@@ -74,6 +251,212 @@ export async function analyzeWithLLM(
   }
 }
 
+/**
+ * Sends a chat completion request and returns the response content
+ * Tokens and cost reported by the provider are added to `usage`
+ */
+async function requestCompletion(
+  systemPrompt: string,
+  userPrompt: string,
+  config: LLMConfig,
+  usage: LLMUsageTotals,
+  maxTokens = 2000
+): Promise<string> {
+  const provider = LLM_PROVIDERS[config.provider];
+  const settings = resolveProviderSettings(provider, config.settings);
+  const { url, init } = provider.buildRequest(
+    { systemPrompt, userPrompt, maxTokens, temperature: 0.3 },
+    settings
+  );
+
+  const response = await fetch(url, init);
+
+  if (!response.ok) {
+    throw new Error(`${provider.label} API error: ${response.status}`);
+  }
+
+  const data: unknown = await response.json();
+  const content = provider.parseResponse(data);
+
+  const tokens = provider.parseUsage(data);
+  if (tokens) {
+    usage.inputTokens += tokens.inputTokens;
+    usage.outputTokens += tokens.outputTokens;
+    // An Azure deployment runs whatever model it was created with, so the
+    // model named in the reply is priced when it's one we know
+    const reported = provider.parseModel(data);
+    const model = reported && getModelPricing(provider, reported) ? reported : settings.model || provider.defaultModel;
+    usage.cost += calculateCost(provider, model, tokens);
+  }
+
+  if (!content) {
+    throw new Error('No response content');
+  }
+
+  return content;
+}
+
+/**
+ * Runs an async task over every item with at most `limit` tasks in flight
+ * Once a task fails no new ones start, and `signal` tells those still in flight.
+ * The failure is only thrown after they settle, so their token spend is counted
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number, signal: AbortSignal) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const controller = new AbortController();
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length && !controller.signal.aborted) {
+      const index = next++;
+      try {
+        results[index] = await task(items[index], index, controller.signal);
+      } catch (error) {
+        controller.abort();
+        throw error;
+      }
+    }
+  };
+
+  const settled = await Promise.allSettled(Array.from({ length: Math.min(limit, items.length) }, worker));
+  const failure = settled.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+  if (failure) throw failure.reason;
+
+  return results;
+}
+
+/**
+ * Splits agreement text into chunks that end on section boundaries where possible
+ */
+export function splitIntoChunks(text: string, maxLength = CHUNK_SIZE): string[] {
+  if (text.length <= maxLength) return [text];
+
+  // Cut points at the start of every section
+  const boundaries = Array.from(new Set([0, ...segmentAgreement(text).map(section => section.startIndex)]))
+    .filter(index => index < text.length)
+    .sort((a, b) => a - b);
+  boundaries.push(text.length);
+
+  const pieces: string[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const section = text.substring(boundaries[i], boundaries[i + 1]);
+    pieces.push(...(section.length > maxLength ? splitOversizedSection(section, maxLength) : [section]));
+  }
+
+  // Pack consecutive pieces into chunks as large as allowed
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + piece.length > maxLength) {
+      chunks.push(current);
+      current = '';
+    }
+    current += piece;
+  }
+  if (current.trim()) chunks.push(current);
+
+  return chunks;
+}
+
+/**
+ * Splits a section that is too long on its own, preferring paragraph breaks
+ */
+function splitOversizedSection(section: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let remaining = section;
+
+  while (remaining.length > maxLength) {
+    const window = remaining.substring(0, maxLength);
+    let cut = window.lastIndexOf('\n');
+    if (cut < maxLength / 2) cut = window.lastIndexOf('. ') + 1;
+    if (cut < maxLength / 2) cut = maxLength;
+
+    pieces.push(remaining.substring(0, cut));
+    remaining = remaining.substring(cut);
+  }
+
+  if (remaining) pieces.push(remaining);
+  return pieces;
+}
+
+/**
+ * Merges risks found in separate chunks, keeping the most severe of any duplicates
+ */
+function mergeRisks(risks: RiskItem[]): RiskItem[] {
+  const merged: RiskItem[] = [];
+
+  for (const risk of risks) {
+    const quote = normalizeQuote(risk.originalText);
+    const duplicate = merged.find(existing => {
+      if (existing.category !== risk.category) return false;
+      const existingQuote = normalizeQuote(existing.originalText);
+      if (!quote || !existingQuote) return risk.title.toLowerCase() === existing.title.toLowerCase();
+      return existingQuote.includes(quote) || quote.includes(existingQuote);
+    });
+
+    if (!duplicate) {
+      merged.push(risk);
+    } else if (severityRank(risk.severity) > severityRank(duplicate.severity)) {
+      merged[merged.indexOf(duplicate)] = risk;
+    }
+  }
+
+  return merged.sort((a, b) => severityRank(b.severity) - severityRank(a.severity));
+}
+
+/**
+ * Converts severity to numeric rank for sorting
+ */
+function severityRank(severity: RiskSeverity): number {
+  const ranks: Record<RiskSeverity, number> = {
+    low: 1,
+    medium: 2,
+    high: 3,
+    critical: 4,
+  };
+  return ranks[severity];
+}
+
+/**
+ * Normalizes quoted text for duplicate detection
+ */
+function normalizeQuote(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Writes one overall summary for risks merged from several chunks
+ */
+async function summarizeRisks(risks: RiskItem[], config: LLMConfig, usage: LLMUsageTotals): Promise<string> {
+  if (risks.length === 0) return generateDefaultSummary(risks);
+
+  const findings = risks
+    .map(risk => `- [${risk.severity}] ${risk.title}: ${risk.summary}`)
+    .join('\n');
+
+  try {
+    const content = await requestCompletion(
+      'You summarize consumer risks found in legal agreements. Respond with a JSON object: {"summary": "..."}',
+      `These risks were found in different parts of one agreement:\n\n${findings}\n\nWrite a brief overall summary of the agreement's key concerns in 2-3 sentences of plain language.`,
+      config,
+      usage,
+      300
+    );
+    const parsed = JSON.parse(extractJson(content));
+    if (typeof parsed.summary === 'string' && parsed.summary.trim()) {
+      return parsed.summary.trim();
+    }
+  } catch (error) {
+    console.warn('[ProtectYaNeck] LLM summary failed, using default summary:', error);
+  }
+
+  return generateDefaultSummary(risks);
+}
+
 /**
  * Gets the system prompt for the LLM
  */
@@ -84,7 +467,7 @@ You must respond with a JSON object in this exact format:
 {
   "risks": [
     {
-      "category": "data_sharing|auto_renewal|third_party_access|liability_waiver|arbitration|data_retention|account_termination|jurisdiction",
+      "category": "data_sharing|auto_renewal|third_party_access|liability_waiver|arbitration|data_retention|account_termination|jurisdiction|unilateral_changes|content_license|indemnification|biometric_data|location_tracking|price_changes|no_refunds|ai_training",
       "severity": "low|medium|high|critical",
       "title": "Brief title",
       "summary": "Plain-language explanation of the risk in 1-2 sentences",
@@ -104,6 +487,14 @@ Risk categories and their typical severity:
 - data_retention: Long-term data storage policies (medium)
 - account_termination: Account suspension without notice (medium)
 - jurisdiction: Legal jurisdiction clauses (low)
+- unilateral_changes: Company can change the terms at will (medium)
+- content_license: Broad, perpetual or irrevocable licenses to user content (high)
+- indemnification: User must cover the company's legal costs (high)
+- biometric_data: Collection of face, voice or fingerprint data (high)
+- location_tracking: Collection of precise or background location (medium)
+- price_changes: Company can raise prices during a subscription (medium)
+- no_refunds: Payments are non-refundable (medium)
+- ai_training: User content used to train AI/ML models (high)
 
 Guidelines:
 - Focus on clauses that could negatively affect the average consumer
@@ -111,97 +502,242 @@ Guidelines:
 - Be specific about what each risk means for the user
 - Prioritize actionable information
 - If a clause is standard and reasonable, don't flag it as high risk
-- Arbitration clauses and class action waivers should always be flagged as critical`;
+- Arbitration clauses and class action waivers should always be flagged as critical
+- Copy each originalText word for word from the agreement; never paraphrase or summarize it`;
 }
 
 /**
- * Builds the analysis prompt
+ * Builds the analysis prompt, noting which part of the agreement a chunk covers
  */
-function buildAnalysisPrompt(text: string): string {
-  // Truncate text if too long (keeping first and last parts)
-  const maxLength = 12000;
-  let truncatedText = text;
-
-  if (text.length > maxLength) {
-    const halfLength = Math.floor(maxLength / 2);
-    truncatedText = text.substring(0, halfLength) +
-      '\n\n[... middle section truncated ...]\n\n' +
-      text.substring(text.length - halfLength);
-  }
+function buildAnalysisPrompt(text: string, chunk?: { index: number; total: number }): string {
+  const intro = chunk
+    ? `The following is part ${chunk.index + 1} of ${chunk.total} of a longer legal agreement. Analyze only this part and identify potential risks for consumers:`
+    : 'Analyze the following legal agreement and identify potential risks for consumers:';
 
-  return `Analyze the following legal agreement and identify potential risks for consumers:
+  return `${intro}
 
 ---
-${truncatedText}
+${text}
 ---
 
 Identify all significant risks and provide your analysis in the required JSON format.`;
 }
 
 /**
- * Parses the LLM response into our format
+ * Requests an analysis, asking the model to repair replies that fail validation
+ * Quotes are checked against `source`, which starts at `offset` in the full agreement
+ */
+async function requestAnalysis(
+  prompt: string,
+  source: string,
+  offset: number,
+  config: LLMConfig,
+  usage: LLMUsageTotals
+): Promise<AnalysisResult> {
+  let content = await requestCompletion(getSystemPrompt(), prompt, config, usage);
+  let validation = validateAnalysisResponse(content);
+
+  for (let attempt = 0; attempt < MAX_REPAIR_ATTEMPTS && validation.errors.length > 0; attempt++) {
+    console.warn('[ProtectYaNeck] LLM response failed validation, asking for a repair:', validation.errors);
+    content = await requestCompletion(getSystemPrompt(), buildRepairPrompt(content, validation.errors), config, usage);
+    validation = validateAnalysisResponse(content);
+  }
+
+  if (!validation.analysis) {
+    throw new Error(`Invalid LLM response: ${validation.errors.join('; ')}`);
+  }
+
+  // Anything still invalid after repairs is dropped rather than guessed at
+  return groundAnalysis(validation.analysis, source, offset);
+}
+
+/**
+ * Builds a prompt asking the model to fix its previous reply
  */
-function parseAnalysisResponse(content: string): AnalysisResult {
+function buildRepairPrompt(previousReply: string, errors: string[]): string {
+  return `Your previous reply did not match the required JSON format.
+
+Problems:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Previous reply:
+---
+${previousReply.substring(0, 8000)}
+---
+
+Return the corrected JSON object only. Keep every "originalText" copied word for word from the agreement.`;
+}
+
+// An LLM risk that passed schema validation but isn't grounded in the text yet
+interface ValidatedRisk {
+  category: RiskCategory;
+  severity: RiskSeverity;
+  title: string;
+  summary: string;
+  originalText: string;
+}
+
+interface ValidatedAnalysis {
+  risks: ValidatedRisk[];
+  summary?: string;
+  overallSeverity?: RiskSeverity;
+}
+
+/**
+ * Strictly validates an LLM reply against the response schema
+ * Returns the valid parts along with a list of problems; analysis is null if nothing is usable
+ */
+export function validateAnalysisResponse(content: string): { analysis: ValidatedAnalysis | null; errors: string[] } {
+  let parsed: unknown;
   try {
-    const parsed = JSON.parse(content);
-
-    // Validate and transform risks
-    const risks: RiskItem[] = (parsed.risks || []).map((risk: any, index: number) => {
-      const category = validateCategory(risk.category);
-      return {
-        id: `llm-risk-${Date.now()}-${index}`,
-        category,
-        severity: validateSeverity(risk.severity),
-        title: risk.title || RISK_CATEGORIES[category].label,
-        summary: risk.summary || RISK_CATEGORIES[category].description,
-        originalText: risk.originalText || '',
-      };
+    parsed = JSON.parse(extractJson(content));
+  } catch {
+    return { analysis: null, errors: ['Response is not valid JSON'] };
+  }
+
+  if (!isRecord(parsed)) {
+    return { analysis: null, errors: ['Response must be a JSON object'] };
+  }
+
+  if (!Array.isArray(parsed.risks)) {
+    return { analysis: null, errors: ['"risks" must be an array'] };
+  }
+
+  const errors: string[] = [];
+  const risks: ValidatedRisk[] = [];
+
+  parsed.risks.forEach((risk: unknown, index: number) => {
+    const path = `risks[${index}]`;
+
+    if (!isRecord(risk)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    const { category, severity, title, summary, originalText } = risk;
+    if (!isValidCategory(category)) {
+      errors.push(`${path}.category "${String(category)}" is not one of the listed categories`);
+    }
+    if (!isValidSeverity(severity)) {
+      errors.push(`${path}.severity must be low, medium, high or critical`);
+    }
+    for (const [field, value] of Object.entries({ title, summary, originalText })) {
+      if (!isNonEmptyString(value)) {
+        errors.push(`${path}.${field} must be a non-empty string`);
+      }
+    }
+
+    if (!isValidCategory(category) || !isValidSeverity(severity) ||
+        !isNonEmptyString(title) || !isNonEmptyString(summary) || !isNonEmptyString(originalText)) {
+      return;
+    }
+
+    risks.push({
+      category,
+      severity,
+      title: title.trim(),
+      summary: summary.trim(),
+      originalText: originalText.trim(),
     });
+  });
 
-    return {
+  const { summary, overallSeverity } = parsed;
+  if (!isNonEmptyString(summary)) {
+    errors.push('"summary" must be a non-empty string');
+  }
+  if (!isValidSeverity(overallSeverity)) {
+    errors.push('"overallSeverity" must be low, medium, high or critical');
+  }
+
+  return {
+    analysis: {
       risks,
-      summary: parsed.summary || generateDefaultSummary(risks),
-      overallSeverity: validateSeverity(parsed.overallSeverity),
-    };
+      summary: isNonEmptyString(summary) ? summary.trim() : undefined,
+      overallSeverity: isValidSeverity(overallSeverity) ? overallSeverity : undefined,
+    },
+    errors,
+  };
+}
 
-  } catch (error) {
-    console.error('[ProtectYaNeck] Failed to parse LLM response:', error);
-    return {
-      risks: [],
-      summary: 'Unable to analyze this agreement.',
-      overallSeverity: 'medium',
-    };
+/**
+ * Matches each quote against the agreement text and drops risks whose quote isn't there
+ */
+function groundAnalysis(analysis: ValidatedAnalysis, source: string, offset: number): AnalysisResult {
+  const risks: RiskItem[] = [];
+  let dropped = 0;
+
+  for (const risk of analysis.risks) {
+    const match = locateQuote(risk.originalText, source);
+    if (!match) {
+      dropped++;
+      continue;
+    }
+
+    risks.push({
+      id: `llm-risk-${Date.now()}-${riskCounter++}`,
+      category: risk.category,
+      severity: risk.severity,
+      title: risk.title,
+      summary: risk.summary,
+      // Show the page's own wording, not the model's copy of it
+      originalText: source.substring(match.startIndex, match.endIndex),
+      location: {
+        startIndex: offset + match.startIndex,
+        endIndex: offset + match.endIndex,
+      },
+    });
   }
+
+  if (dropped > 0) {
+    console.warn(`[ProtectYaNeck] Dropped ${dropped} LLM risk${dropped === 1 ? '' : 's'} quoting text not found in the agreement`);
+  }
+
+  return {
+    risks,
+    summary: analysis.summary || generateDefaultSummary(risks),
+    overallSeverity: analysis.overallSeverity || 'medium',
+  };
+}
+
+/**
+ * Pulls the JSON object out of a reply, for providers without a JSON mode
+ */
+function extractJson(content: string): string {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  return start >= 0 && end > start ? content.substring(start, end + 1) : content;
+}
+
+/**
+ * Checks if a parsed JSON value is an object, not null or an array
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks if a value is a string with something other than whitespace
+ */
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
 }
 
+// Categories the model may report
+const VALID_CATEGORIES = Object.keys(RISK_CATEGORIES) as RiskCategory[];
+
 /**
- * Validates risk category
+ * Checks if a value is a known risk category
  */
-function validateCategory(category: string): RiskCategory {
-  const validCategories: RiskCategory[] = [
-    'data_sharing',
-    'auto_renewal',
-    'third_party_access',
-    'liability_waiver',
-    'arbitration',
-    'data_retention',
-    'account_termination',
-    'jurisdiction',
-  ];
-
-  return validCategories.includes(category as RiskCategory)
-    ? (category as RiskCategory)
-    : 'liability_waiver';
+function isValidCategory(category: unknown): category is RiskCategory {
+  return VALID_CATEGORIES.includes(category as RiskCategory);
 }
 
 /**
- * Validates severity level
+ * Checks if a value is a valid severity level
  */
-function validateSeverity(severity: string): RiskSeverity {
+function isValidSeverity(severity: unknown): severity is RiskSeverity {
   const validSeverities: RiskSeverity[] = ['low', 'medium', 'high', 'critical'];
-  return validSeverities.includes(severity as RiskSeverity)
-    ? (severity as RiskSeverity)
-    : 'medium';
+  return validSeverities.includes(severity as RiskSeverity);
 }
 
 /**
@@ -229,32 +765,66 @@ function generateDefaultSummary(risks: RiskItem[]): string {
 }
 
 /**
- * Checks if LLM analysis is available (API key configured)
+ * Gets the stored AI analysis settings, migrating a legacy OpenAI key
  */
-export async function isLLMAvailable(): Promise<boolean> {
-  return new Promise((resolve) => {
-    chrome.storage.local.get('pyn_openai_key', (result) => {
-      resolve(!!result.pyn_openai_key);
-    });
-  });
+export async function getLLMSettings(): Promise<LLMSettings> {
+  const result = await chrome.storage.local.get([STORAGE_KEYS.LLM_SETTINGS, LEGACY_OPENAI_KEY]);
+  const stored: LLMSettings | undefined = result[STORAGE_KEYS.LLM_SETTINGS];
+
+  if (stored) {
+    return { ...DEFAULT_LLM_SETTINGS, ...stored };
+  }
+
+  if (result[LEGACY_OPENAI_KEY]) {
+    const migrated: LLMSettings = {
+      provider: 'openai',
+      providers: { openai: { apiKey: result[LEGACY_OPENAI_KEY] } },
+    };
+    await saveLLMSettings(migrated);
+    await chrome.storage.local.remove(LEGACY_OPENAI_KEY);
+    return migrated;
+  }
+
+  return DEFAULT_LLM_SETTINGS;
 }
 
 /**
- * Gets the stored API key
+ * Saves the AI analysis settings
  */
-export async function getAPIKey(): Promise<string | null> {
-  return new Promise((resolve) => {
-    chrome.storage.local.get('pyn_openai_key', (result) => {
-      resolve(result.pyn_openai_key || null);
-    });
-  });
+export async function saveLLMSettings(settings: LLMSettings): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEYS.LLM_SETTINGS]: settings });
 }
 
 /**
- * Saves the API key
+ * Gets the configuration for the selected provider, or null if AI analysis is off or incomplete
  */
-export async function setAPIKey(apiKey: string): Promise<void> {
-  return new Promise((resolve) => {
-    chrome.storage.local.set({ pyn_openai_key: apiKey }, resolve);
-  });
+export async function getLLMConfig(): Promise<LLMConfig | null> {
+  const llmSettings = await getLLMSettings();
+  const { provider, providers, shareAnalyses } = llmSettings;
+  if (!provider) return null;
+
+  const settings = providers[provider];
+  if (!isProviderConfigured(LLM_PROVIDERS[provider], settings)) return null;
+
+  // Past the monthly cap, scans fall back to keyword analysis
+  if (await isOverBudget(llmSettings)) return null;
+
+  // Local models are chosen for privacy, so their results are never shared
+  return { provider, settings: settings || {}, shareAnalyses: shareAnalyses && provider !== 'local' };
+}
+
+/**
+ * Checks if AI analysis is set up but paused because the monthly spend cap was reached
+ */
+export async function isLLMOverBudget(): Promise<boolean> {
+  const llmSettings = await getLLMSettings();
+  if (!llmSettings.provider) return false;
+  return isOverBudget(llmSettings);
+}
+
+/**
+ * Checks if LLM analysis is available (a provider is selected, configured and within budget)
+ */
+export async function isLLMAvailable(): Promise<boolean> {
+  return (await getLLMConfig()) !== null;
 }
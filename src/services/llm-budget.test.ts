@@ -0,0 +1,31 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getLLMUsageHistory, getMonthlySpend, recordLLMUsage } from './llm-budget';
+
+let storage: Record<string, unknown> = {};
+
+describe('recordLLMUsage', () => {
+  beforeEach(() => {
+    storage = {};
+    vi.stubGlobal('chrome', {
+      storage: {
+        local: {
+          get: async (key: string) => ({ [key]: structuredClone(storage[key]) }),
+          set: async (items: Record<string, unknown>) => {
+            await new Promise(resolve => setTimeout(resolve, 0));
+            Object.assign(storage, structuredClone(items));
+          },
+        },
+      },
+    });
+  });
+
+  it('counts the spend of scans that finish at the same time', async () => {
+    const date = new Date(2026, 9, 19);
+    const usage = { inputTokens: 100, outputTokens: 50, cost: 0.25, scans: 1 };
+
+    await Promise.all([recordLLMUsage(usage, date), recordLLMUsage(usage, date), recordLLMUsage(usage, date)]);
+
+    expect(await getMonthlySpend(date)).toBe(0.75);
+    expect((await getLLMUsageHistory()).days['2026-10-19']).toEqual({ inputTokens: 300, outputTokens: 150, cost: 0.75, scans: 3 });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * LLM Spend Tracking
+ * Keeps daily and monthly token and cost totals for AI analysis
+ * and enforces the user's monthly spend cap
+ */
+
+import { LLMSettings, LLMUsageHistory, LLMUsageTotals, STORAGE_KEYS } from '../shared/types';
+import { updateStorage } from './storage-updates';
+
+// How much history is kept
+const MAX_DAYS = 90;
+const MAX_MONTHS = 12;
+
+const EMPTY_HISTORY: LLMUsageHistory = { days: {}, months: {} };
+
+/**
+ * Creates an empty usage total
+ */
+export function emptyUsage(): LLMUsageTotals {
+  return { inputTokens: 0, outputTokens: 0, cost: 0, scans: 0 };
+}
+
+/**
+ * Gets the stored spend history
+ */
+export async function getLLMUsageHistory(): Promise<LLMUsageHistory> {
+  const result = await chrome.storage.local.get(STORAGE_KEYS.LLM_USAGE);
+  return result[STORAGE_KEYS.LLM_USAGE] || EMPTY_HISTORY;
+}
+
+/**
+ * Adds a scan's usage to today's and this month's totals
+ */
+export async function recordLLMUsage(usage: LLMUsageTotals, date = new Date()): Promise<void> {
+  if (usage.inputTokens === 0 && usage.outputTokens === 0) return;
+
+  const dayKey = formatDayKey(date);
+  const monthKey = formatMonthKey(date);
+
+  // Scans of a page and its linked documents finish at the same time
+  await updateStorage<LLMUsageHistory>(STORAGE_KEYS.LLM_USAGE, (history = EMPTY_HISTORY) => {
+    const days = { ...history.days, [dayKey]: addUsage(history.days[dayKey], usage) };
+    const months = { ...history.months, [monthKey]: addUsage(history.months[monthKey], usage) };
+
+    return {
+      days: keepLatest(days, MAX_DAYS),
+      months: keepLatest(months, MAX_MONTHS),
+    };
+  });
+}
+
+/**
+ * Gets the total spent on AI analysis this month, in USD
+ */
+export async function getMonthlySpend(date = new Date()): Promise<number> {
+  const history = await getLLMUsageHistory();
+  return history.months[formatMonthKey(date)]?.cost || 0;
+}
+
+/**
+ * Checks if this month's spend has reached the user's cap
+ */
+export async function isOverBudget(settings: LLMSettings): Promise<boolean> {
+  if (!settings.monthlyBudget || settings.monthlyBudget <= 0) return false;
+  return (await getMonthlySpend()) >= settings.monthlyBudget;
+}
+
+/**
+ * Formats a date as a "YYYY-MM-DD" key in local time
+ */
+export function formatDayKey(date: Date): string {
+  return `${formatMonthKey(date)}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Formats a date as a "YYYY-MM" key in local time
+ */
+export function formatMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Formats a USD amount, keeping fractions of a cent visible
+ */
+export function formatCost(cost: number): string {
+  if (cost > 0 && cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Sums two usage totals
+ */
+export function addUsage(total: LLMUsageTotals | undefined, usage: LLMUsageTotals): LLMUsageTotals {
+  const base = total || emptyUsage();
+  return {
+    inputTokens: base.inputTokens + usage.inputTokens,
+    outputTokens: base.outputTokens + usage.outputTokens,
+    cost: base.cost + usage.cost,
+    scans: base.scans + usage.scans,
+  };
+}
+
+/**
+ * Drops all but the most recent date keys
+ */
+function keepLatest(totals: Record<string, LLMUsageTotals>, count: number): Record<string, LLMUsageTotals> {
+  return Object.fromEntries(
+    Object.entries(totals)
+      .sort(([a], [b]) => b.localeCompare(a))
+      .slice(0, count)
+  );
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { getModelPricing, LLM_PROVIDERS } from './llm-providers';
+
+describe('provider replies', () => {
+  it.each([null, 'text', [], { choices: 'none' }, { choices: [null] }, { choices: [{ message: { content: 42 } }] }])(
+    'reads no content from a malformed chat completion: %j',
+    (data) => {
+      expect(LLM_PROVIDERS.openai.parseResponse(data)).toBeUndefined();
+      expect(LLM_PROVIDERS.openai.parseUsage(data)).toBeUndefined();
+    }
+  );
+
+  it.each([null, { content: 'text' }, { content: [null, { type: 'text', text: 7 }] }])(
+    'reads no content from a malformed Anthropic message: %j',
+    (data) => {
+      expect(LLM_PROVIDERS.anthropic.parseResponse(data)).toBeUndefined();
+      expect(LLM_PROVIDERS.anthropic.parseUsage(data)).toBeUndefined();
+    }
+  );
+
+  it('reads the text and usage of well-formed replies', () => {
+    expect(LLM_PROVIDERS.openai.parseResponse({ choices: [{ message: { content: '{}' } }] })).toBe('{}');
+    expect(LLM_PROVIDERS.anthropic.parseResponse({ content: [{ type: 'text', text: '{}' }] })).toBe('{}');
+    expect(LLM_PROVIDERS.anthropic.parseUsage({ usage: { input_tokens: 10, output_tokens: 5 } }))
+      .toEqual({ inputTokens: 10, outputTokens: 5 });
+  });
+
+  it('counts invalid token numbers as none', () => {
+    expect(LLM_PROVIDERS.openai.parseUsage({ usage: { prompt_tokens: '100', completion_tokens: -5 } }))
+      .toEqual({ inputTokens: 0, outputTokens: 0 });
+  });
+
+  it('prices dated snapshots as their model', () => {
+    const azure = LLM_PROVIDERS.azure_openai;
+    expect(getModelPricing(azure, 'gpt-4o-mini-2024-07-18')).toBe(azure.pricing['gpt-4o-mini']);
+    expect(getModelPricing(azure, 'gpt-4-turbo-2024-04-09')).toBe(azure.pricing['gpt-4-turbo']);
+    expect(getModelPricing(azure, 'gpt-4-0613')).toBe(azure.pricing['gpt-4']);
+    expect(getModelPricing(azure, 'o1-preview')).toBeUndefined();
+  });
+});
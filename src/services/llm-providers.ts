@@ -0,0 +1,349 @@
+import { LLMProviderId, LLMProviderSettings } from '../shared/types';
+
+/**
+ * LLM provider adapters
+ * Each provider turns a chat request into its own HTTP call and reads the reply back
+ */
+
+// Provider-neutral chat request
+export interface LLMRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+// Tokens reported by the provider for one request
+export interface LLMTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// USD per million tokens
+export interface LLMModelPricing {
+  input: number;
+  output: number;
+}
+
+// Settings a provider needs the user to fill in
+export type LLMProviderField = 'apiKey' | 'endpoint' | 'deployment' | 'apiVersion';
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  label: string;
+  description: string;
+  models: string[];
+  defaultModel: string;
+  allowCustomModel: boolean; // Local servers can run any model the user has pulled
+  requiredFields: LLMProviderField[];
+  optionalFields: LLMProviderField[];
+  defaults: LLMProviderSettings;
+  sendsDataToThirdParty: boolean;
+  pricing: Record<string, LLMModelPricing>; // Models missing here are tracked at no cost
+  buildRequest(request: LLMRequest, settings: LLMProviderSettings): { url: string; init: RequestInit };
+  parseResponse(data: unknown): string | undefined;
+  parseUsage(data: unknown): LLMTokenUsage | undefined;
+  parseModel(data: unknown): string | undefined; // The model that answered, which Azure deployments choose
+}
+
+// OpenAI list prices, also used for Azure deployments of the same models
+// Dated snapshots such as "gpt-4o-2024-08-06" are priced as their model
+const OPENAI_PRICING: Record<string, LLMModelPricing> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  // Older models an Azure deployment may still run
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-35-turbo': { input: 0.5, output: 1.5 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+};
+
+const openai: LLMProvider = {
+  id: 'openai',
+  label: 'OpenAI',
+  description: 'GPT models through the OpenAI API',
+  models: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'gpt-4.1'],
+  defaultModel: 'gpt-4o-mini',
+  allowCustomModel: false,
+  requiredFields: ['apiKey'],
+  optionalFields: [],
+  defaults: {},
+  sendsDataToThirdParty: true,
+  pricing: OPENAI_PRICING,
+  buildRequest(request, settings) {
+    return {
+      url: 'https://api.openai.com/v1/chat/completions',
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${settings.apiKey}`,
+        },
+        body: JSON.stringify(buildChatCompletionBody(request, settings.model || this.defaultModel)),
+      },
+    };
+  },
+  parseResponse: parseChatCompletion,
+  parseUsage: parseChatCompletionUsage,
+  parseModel: parseReplyModel,
+};
+
+const anthropic: LLMProvider = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  description: 'Claude models through the Anthropic API',
+  models: ['claude-3-5-haiku-latest', 'claude-sonnet-4-0', 'claude-opus-4-0'],
+  defaultModel: 'claude-3-5-haiku-latest',
+  allowCustomModel: false,
+  requiredFields: ['apiKey'],
+  optionalFields: [],
+  defaults: {},
+  sendsDataToThirdParty: true,
+  pricing: {
+    'claude-3-5-haiku-latest': { input: 0.8, output: 4 },
+    'claude-sonnet-4-0': { input: 3, output: 15 },
+    'claude-opus-4-0': { input: 15, output: 75 },
+  },
+  buildRequest(request, settings) {
+    return {
+      url: 'https://api.anthropic.com/v1/messages',
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': settings.apiKey || '',
+          'anthropic-version': '2023-06-01',
+          'anthropic-dangerous-direct-browser-access': 'true',
+        },
+        body: JSON.stringify({
+          model: settings.model || this.defaultModel,
+          system: request.systemPrompt,
+          messages: [
+            {
+              role: 'user',
+              content: request.userPrompt,
+            },
+          ],
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+        }),
+      },
+    };
+  },
+  parseResponse(data) {
+    if (!isRecord(data) || !Array.isArray(data.content)) return undefined;
+    const block: unknown = data.content.find(item => isRecord(item) && item.type === 'text');
+    return isRecord(block) && typeof block.text === 'string' ? block.text : undefined;
+  },
+  parseUsage(data) {
+    if (!isRecord(data) || !isRecord(data.usage)) return undefined;
+    return {
+      inputTokens: toTokenCount(data.usage.input_tokens),
+      outputTokens: toTokenCount(data.usage.output_tokens),
+    };
+  },
+  parseModel: parseReplyModel,
+};
+
+const azureOpenAI: LLMProvider = {
+  id: 'azure_openai',
+  label: 'Azure OpenAI',
+  description: 'OpenAI models deployed in your own Azure resource',
+  models: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'gpt-4.1'],
+  defaultModel: 'gpt-4o-mini',
+  allowCustomModel: false,
+  requiredFields: ['apiKey', 'endpoint', 'deployment'],
+  optionalFields: ['apiVersion'],
+  defaults: { apiVersion: '2024-06-01' },
+  sendsDataToThirdParty: true,
+  pricing: OPENAI_PRICING,
+  buildRequest(request, settings) {
+    const endpoint = trimTrailingSlash(settings.endpoint || '');
+    const deployment = encodeURIComponent(settings.deployment || '');
+    const apiVersion = settings.apiVersion || this.defaults.apiVersion;
+
+    // The deployment decides the model, so it is left out of the body
+    const { model: _model, ...body } = buildChatCompletionBody(request, '');
+
+    return {
+      url: `${endpoint}/openai/deployments/${deployment}/chat/completions?api-version=${apiVersion}`,
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'api-key': settings.apiKey || '',
+        },
+        body: JSON.stringify(body),
+      },
+    };
+  },
+  parseResponse: parseChatCompletion,
+  parseUsage: parseChatCompletionUsage,
+  parseModel: parseReplyModel,
+};
+
+const local: LLMProvider = {
+  id: 'local',
+  label: 'Local (OpenAI-compatible)',
+  description: 'Ollama, llama.cpp or any server with an OpenAI-compatible API. Agreement text never leaves your machine.',
+  models: ['llama3.1', 'llama3.2', 'mistral', 'qwen2.5', 'gemma2'],
+  defaultModel: 'llama3.1',
+  allowCustomModel: true,
+  requiredFields: ['endpoint'],
+  optionalFields: ['apiKey'],
+  defaults: { endpoint: 'http://localhost:11434/v1' },
+  sendsDataToThirdParty: false,
+  pricing: {},
+  buildRequest(request, settings) {
+    const endpoint = trimTrailingSlash(settings.endpoint || this.defaults.endpoint || '');
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) {
+      headers['Authorization'] = `Bearer ${settings.apiKey}`;
+    }
+
+    return {
+      url: `${endpoint}/chat/completions`,
+      init: {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(buildChatCompletionBody(request, settings.model || this.defaultModel)),
+      },
+    };
+  },
+  parseResponse: parseChatCompletion,
+  parseUsage: parseChatCompletionUsage,
+  parseModel: parseReplyModel,
+};
+
+export const LLM_PROVIDERS: Record<LLMProviderId, LLMProvider> = {
+  openai,
+  anthropic,
+  azure_openai: azureOpenAI,
+  local,
+};
+
+// Labels for provider settings fields
+export const LLM_PROVIDER_FIELDS: Record<LLMProviderField, { label: string; placeholder: string; secret?: boolean }> = {
+  apiKey: { label: 'API Key', placeholder: 'Paste your API key', secret: true },
+  endpoint: { label: 'Endpoint', placeholder: 'https://your-resource.openai.azure.com' },
+  deployment: { label: 'Deployment', placeholder: 'Deployment name' },
+  apiVersion: { label: 'API Version', placeholder: '2024-06-01' },
+};
+
+/**
+ * Merges a provider's defaults with the user's settings
+ */
+export function resolveProviderSettings(
+  provider: LLMProvider,
+  settings: LLMProviderSettings | undefined
+): LLMProviderSettings {
+  const resolved: LLMProviderSettings = { ...provider.defaults };
+  for (const [key, value] of Object.entries(settings || {})) {
+    if (value) resolved[key as keyof LLMProviderSettings] = value;
+  }
+  return resolved;
+}
+
+/**
+ * Checks if every required setting for a provider is filled in
+ */
+export function isProviderConfigured(provider: LLMProvider, settings: LLMProviderSettings | undefined): boolean {
+  const resolved = resolveProviderSettings(provider, settings);
+  return provider.requiredFields.every(field => !!resolved[field]?.trim());
+}
+
+/**
+ * Builds an OpenAI-style chat completion request body
+ */
+function buildChatCompletionBody(request: LLMRequest, model: string) {
+  return {
+    model,
+    messages: [
+      {
+        role: 'system',
+        content: request.systemPrompt,
+      },
+      {
+        role: 'user',
+        content: request.userPrompt,
+      },
+    ],
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    response_format: { type: 'json_object' },
+  };
+}
+
+/**
+ * Reads the reply from an OpenAI-style chat completion response
+ */
+function parseChatCompletion(data: unknown): string | undefined {
+  if (!isRecord(data) || !Array.isArray(data.choices)) return undefined;
+  const choice: unknown = data.choices[0];
+  const message = isRecord(choice) ? choice.message : undefined;
+  return isRecord(message) && typeof message.content === 'string' ? message.content : undefined;
+}
+
+/**
+ * Reads token usage from an OpenAI-style chat completion response
+ */
+function parseChatCompletionUsage(data: unknown): LLMTokenUsage | undefined {
+  if (!isRecord(data) || !isRecord(data.usage)) return undefined;
+  return {
+    inputTokens: toTokenCount(data.usage.prompt_tokens),
+    outputTokens: toTokenCount(data.usage.completion_tokens),
+  };
+}
+
+/**
+ * Reads the name of the model that answered, which OpenAI-style and
+ * Anthropic replies both report as `model`
+ */
+function parseReplyModel(data: unknown): string | undefined {
+  return isRecord(data) && typeof data.model === 'string' && data.model ? data.model : undefined;
+}
+
+/**
+ * Checks if a parsed JSON value is an object, not null or an array
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads a reported token count, counting anything but a positive number as none
+ */
+function toTokenCount(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/**
+ * Calculates the cost in USD of a request to a model
+ */
+export function calculateCost(provider: LLMProvider, model: string, usage: LLMTokenUsage): number {
+  const pricing = getModelPricing(provider, model);
+  if (!pricing) return 0;
+  return (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Gets a model's prices, matching a dated snapshot to the longest model
+ * name it starts with
+ */
+export function getModelPricing(provider: LLMProvider, model: string): LLMModelPricing | undefined {
+  if (provider.pricing[model]) return provider.pricing[model];
+
+  const base = Object.keys(provider.pricing)
+    .filter(name => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return base ? provider.pricing[base] : undefined;
+}
+
+/**
+ * Removes a trailing slash from a base URL
+ */
+function trimTrailingSlash(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
@@ -0,0 +1,61 @@
+/**
+ * PDF Extractor
+ * Pulls the text out of PDF agreements with the bundled pdf.js parser,
+ * remembering where each page starts. Too large for content scripts, which
+ * parse through the offscreen document instead
+ */
+
+import { getDocument } from 'pdfjs-dist';
+import * as pdfWorker from 'pdfjs-dist/build/pdf.worker.mjs';
+import { PdfPage, PdfText } from './pdf-pages';
+
+// Run the parser on the calling thread, so nothing is loaded from outside the bundle
+(globalThis as { pdfjsWorker?: unknown }).pdfjsWorker = pdfWorker;
+
+// Longer documents are cut off, matching page extraction
+const MAX_PDF_PAGES = 200;
+const MAX_PDF_TEXT_LENGTH = 50000;
+
+/**
+ * Extracts the text of a PDF, page by page
+ */
+export async function extractPdfText(data: ArrayBuffer): Promise<PdfText> {
+  const pdf = await getDocument({
+    data: new Uint8Array(data),
+    isEvalSupported: false,
+    disableFontFace: true,
+  }).promise;
+
+  try {
+    const pages: PdfPage[] = [];
+    let text = '';
+
+    for (let pageNumber = 1; pageNumber <= Math.min(pdf.numPages, MAX_PDF_PAGES) && text.length < MAX_PDF_TEXT_LENGTH; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+
+      const pageText = content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join('')
+        .replace(/[^\S\n]+/g, ' ')
+        .trim();
+      page.cleanup();
+
+      if (!pageText) continue;
+      const separator = text ? '\n\n' : '';
+      const kept = pageText.substring(0, MAX_PDF_TEXT_LENGTH - text.length - separator.length);
+      if (!kept) break;
+
+      text += separator;
+      pages.push({ pageNumber, startIndex: text.length, endIndex: text.length + kept.length });
+      text += kept;
+    }
+
+    const metadata = await pdf.getMetadata().catch(() => null);
+    const title = (metadata?.info as { Title?: string } | undefined)?.Title?.trim();
+
+    return { text, pages, title: title || undefined };
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * PDF Pages
+ * Page boundaries of text extracted from a PDF, kept apart from the parser
+ * so content scripts can use them without bundling it
+ */
+
+export interface PdfPage {
+  pageNumber: number;
+  startIndex: number;
+  endIndex: number;
+}
+
+export interface PdfText {
+  text: string;
+  pages: PdfPage[];
+  title?: string;
+}
+
+/**
+ * Finds the page a text offset falls on
+ */
+export function pageAtOffset(pages: PdfPage[], offset: number): number | undefined {
+  return pages.find(page => offset < page.endIndex)?.pageNumber ?? pages[pages.length - 1]?.pageNumber;
+}
+
+/**
+ * Adds page numbers to the locations of risks or protections found in a PDF
+ */
+export function addPageNumbers<T extends { location?: { startIndex: number; endIndex: number; page?: number } }>(
+  items: T[],
+  pages: PdfPage[]
+): T[] {
+  return items.map(item => item.location
+    ? { ...item, location: { ...item.location, page: pageAtOffset(pages, item.location.startIndex) } }
+    : item
+  );
+}
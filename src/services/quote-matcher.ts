@@ -0,0 +1,148 @@
+/**
+ * Quote Matcher
+ * Finds where a quote from the LLM appears in the agreement, tolerating
+ * differences in whitespace, punctuation, casing and small wording slips
+ */
+
+export interface QuoteMatch {
+  startIndex: number;
+  endIndex: number;
+  score: number; // 0-1, 1 for an exact match
+}
+
+// Minimum word overlap for a fuzzy match to count
+const MIN_FUZZY_SCORE = 0.8;
+
+// Quotes shorter than this many words must match exactly (after normalization)
+const MIN_FUZZY_WORDS = 5;
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Locates a quote in the source text, or returns null if it isn't there
+ */
+export function locateQuote(quote: string, source: string): QuoteMatch | null {
+  const trimmed = quote.trim().replace(/^["'“”‘’]+|["'“”‘’.…]+$/g, '');
+  if (!trimmed) return null;
+
+  // Exact match, ignoring case
+  const exactIndex = source.toLowerCase().indexOf(trimmed.toLowerCase());
+  if (exactIndex !== -1) {
+    return { startIndex: exactIndex, endIndex: exactIndex + trimmed.length, score: 1 };
+  }
+
+  const quoteTokens = tokenize(trimmed);
+  const sourceTokens = tokenize(source);
+  if (quoteTokens.length === 0 || sourceTokens.length === 0) return null;
+
+  // Same words in the same order, whatever the spacing and punctuation
+  const normalizedIndex = findTokenSequence(sourceTokens, quoteTokens.map(t => t.word));
+  if (normalizedIndex !== -1) {
+    return {
+      startIndex: sourceTokens[normalizedIndex].start,
+      endIndex: sourceTokens[normalizedIndex + quoteTokens.length - 1].end,
+      score: 1,
+    };
+  }
+
+  if (quoteTokens.length < MIN_FUZZY_WORDS) return null;
+
+  return findFuzzyWindow(sourceTokens, quoteTokens.map(t => t.word));
+}
+
+/**
+ * Splits text into lowercase words with their offsets
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu)) {
+    const start = match.index ?? 0;
+    tokens.push({
+      word: match[0].toLowerCase().replace(/’/g, "'"),
+      start,
+      end: start + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+/**
+ * Finds an exact run of words in the source tokens
+ */
+function findTokenSequence(sourceTokens: Token[], words: string[]): number {
+  outer:
+  for (let i = 0; i <= sourceTokens.length - words.length; i++) {
+    for (let j = 0; j < words.length; j++) {
+      if (sourceTokens[i + j].word !== words[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+/**
+ * Slides a quote-sized window over the source and returns the best word overlap
+ */
+function findFuzzyWindow(sourceTokens: Token[], words: string[]): QuoteMatch | null {
+  const windowSize = words.length;
+  if (sourceTokens.length < windowSize) return null;
+
+  const wanted = countWords(words);
+  const window = countWords(sourceTokens.slice(0, windowSize).map(t => t.word));
+  let overlap = countOverlap(wanted, window);
+
+  let bestScore = overlap / windowSize;
+  let bestStart = 0;
+
+  for (let i = 1; i <= sourceTokens.length - windowSize; i++) {
+    // Move the window one word to the right, updating the overlap incrementally
+    const removed = sourceTokens[i - 1].word;
+    const added = sourceTokens[i + windowSize - 1].word;
+
+    if ((window.get(removed) || 0) <= (wanted.get(removed) || 0)) overlap--;
+    window.set(removed, (window.get(removed) || 0) - 1);
+
+    window.set(added, (window.get(added) || 0) + 1);
+    if ((window.get(added) || 0) <= (wanted.get(added) || 0)) overlap++;
+
+    const score = overlap / windowSize;
+    if (score > bestScore) {
+      bestScore = score;
+      bestStart = i;
+    }
+  }
+
+  if (bestScore < MIN_FUZZY_SCORE) return null;
+
+  return {
+    startIndex: sourceTokens[bestStart].start,
+    endIndex: sourceTokens[bestStart + windowSize - 1].end,
+    score: Math.round(bestScore * 100) / 100,
+  };
+}
+
+/**
+ * Counts how often each word appears
+ */
+function countWords(words: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of words) {
+    counts.set(word, (counts.get(word) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Counts the words two bags have in common
+ */
+function countOverlap(a: Map<string, number>, b: Map<string, number>): number {
+  let overlap = 0;
+  for (const [word, count] of a) {
+    overlap += Math.min(count, b.get(word) || 0);
+  }
+  return overlap;
+}
@@ -0,0 +1,29 @@
+/**
+ * Rule Pack Parser
+ * Reads rule packs imported as JSON or YAML, apart from rule-packs.ts so
+ * content scripts don't bundle the YAML parser
+ */
+
+import { RulePackValidation, validateRulePack } from './rule-packs';
+
+/**
+ * Parses and validates a rule pack from JSON or YAML text
+ * Text starting with "{" is read as JSON, anything else as YAML
+ */
+export async function parseRulePack(text: string): Promise<RulePackValidation> {
+  const format = text.trimStart().startsWith('{') ? 'JSON' : 'YAML';
+
+  let parsed: unknown;
+  try {
+    if (format === 'JSON') {
+      parsed = JSON.parse(text);
+    } else {
+      // Most packs are JSON, so the YAML parser is only loaded when needed
+      const { parse } = await import(/* webpackChunkName: "yaml" */ 'yaml');
+      parsed = parse(text);
+    }
+  } catch (error) {
+    return { valid: false, errors: [`Invalid ${format}: ${(error as Error).message}`] };
+  }
+  return validateRulePack(parsed);
+}
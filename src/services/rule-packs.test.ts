@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { validateRulePack } from './rule-packs';
+import { parseRulePack } from './rule-pack-parser';
+
+function pack(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'test-pack',
+    name: 'Test pack',
+    version: '1.0.0',
+    rules: [{ id: 'test-rule', category: 'arbitration', severity: 'high', title: 'Arbitration', patterns: ['binding arbitration'] }],
+    ...overrides,
+  };
+}
+
+function errorsOf(input: unknown): string[] {
+  const result = validateRulePack(input);
+  return result.valid ? [] : result.errors;
+}
+
+describe('validateRulePack', () => {
+  it('accepts a minimal pack', () => {
+    expect(validateRulePack(pack()).valid).toBe(true);
+  });
+
+  it.each(['toString', 'constructor', '__proto__', 'hasOwnProperty'])('rejects the inherited category name "%s"', (category) => {
+    const rules = [{ ...pack().rules[0], category }];
+    const combinations = [{ categories: ['arbitration', category], severityBoost: 1, warning: 'Arbitration and more' }];
+
+    const errors = errorsOf(pack({ rules, combinations }));
+
+    expect(errors).toEqual([
+      expect.stringContaining('rules[0].category must be one of'),
+      'combinations[0].categories must list at least two valid categories',
+    ]);
+  });
+});
+
+describe('parseRulePack', () => {
+  it('reads the same pack from JSON and YAML', async () => {
+    const yaml = `
+id: test-pack
+name: Test pack
+version: "1.0.0"
+rules:
+  - id: test-rule
+    category: arbitration
+    severity: high
+    title: Arbitration
+    patterns:
+      - binding arbitration
+`;
+
+    const fromYaml = await parseRulePack(yaml);
+
+    expect(fromYaml).toEqual(await parseRulePack(JSON.stringify(pack())));
+    expect(fromYaml.valid).toBe(true);
+  });
+
+  it('reports syntax errors in the format it read', async () => {
+    expect(await parseRulePack('{ "id": ')).toMatchObject({ valid: false, errors: [expect.stringMatching(/^Invalid JSON/)] });
+    expect(await parseRulePack('id: [unclosed')).toMatchObject({ valid: false, errors: [expect.stringMatching(/^Invalid YAML/)] });
+  });
+});
@@ -0,0 +1,395 @@
+/**
+ * Rule Pack Service
+ * Loads, validates and compiles declarative risk detection rule packs.
+ * The built-in core pack ships with the extension; extra packs can be
+ * imported from the options page and are kept in storage.
+ */
+
+import {
+  RiskCategory,
+  RiskSeverity,
+  RulePack,
+  RulePackPattern,
+  RulePackRule,
+  RulePackCombination,
+  StoredRulePack,
+  STORAGE_KEYS,
+} from '../shared/types';
+import { RISK_CATEGORIES } from '../shared/constants';
+import corePackJson from '../rules/core.json';
+
+export const CORE_RULE_PACK_ID = 'core';
+
+// Guards against pathological user-supplied regular expressions
+const MAX_PATTERN_LENGTH = 300;
+const MAX_RULES_PER_PACK = 500;
+
+const VALID_SEVERITIES: RiskSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+export interface PatternMatch {
+  index: number;
+  length: number;
+}
+
+// A pattern ready to run against clause text
+export interface CompiledPattern {
+  source: RulePackPattern;
+  find(text: string): PatternMatch | null;
+}
+
+export interface CompiledRule {
+  id: string;
+  packId: string;
+  category: RiskCategory;
+  title?: string;
+  severity?: RiskSeverity;
+  patterns: CompiledPattern[];
+  proximity?: {
+    patterns: CompiledPattern[];
+    within: number;
+  };
+  severityModifiers: Array<{ pattern: CompiledPattern; adjust: number }>;
+  summary?: string;
+}
+
+// All enabled packs merged into one rule set
+export interface CompiledRuleSet {
+  rules: CompiledRule[];
+  redFlags: RegExp[];
+  combinations: RulePackCombination[];
+}
+
+export type RulePackValidation =
+  | { valid: true; pack: RulePack }
+  | { valid: false; errors: string[] };
+
+const corePackValidation = validateRulePack(corePackJson);
+if (!corePackValidation.valid) {
+  throw new Error(`[ProtectYaNeck] Core rule pack is invalid: ${corePackValidation.errors.join('; ')}`);
+}
+
+export const CORE_RULE_PACK: RulePack = corePackValidation.pack;
+
+let activeRuleSet: CompiledRuleSet = compileRulePacks([CORE_RULE_PACK]);
+
+/**
+ * Gets the rule set currently used by the analyzer
+ */
+export function getActiveRuleSet(): CompiledRuleSet {
+  return activeRuleSet;
+}
+
+/**
+ * Loads enabled packs from storage and recompiles the active rule set
+ */
+export async function loadRulePacks(): Promise<CompiledRuleSet> {
+  const stored = await getStoredRulePacks();
+  const enabledPacks = stored
+    .filter(entry => entry.enabled)
+    .map(entry => validateRulePack(entry.pack))
+    .filter((result): result is { valid: true; pack: RulePack } => result.valid)
+    .map(result => result.pack);
+
+  activeRuleSet = compileRulePacks([CORE_RULE_PACK, ...enabledPacks]);
+  return activeRuleSet;
+}
+
+/**
+ * Reloads the active rule set whenever packs change in storage
+ */
+export function watchRulePacks(): void {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'local' && changes[STORAGE_KEYS.RULE_PACKS]) {
+      loadRulePacks().catch(error => {
+        console.warn('[ProtectYaNeck] Failed to reload rule packs:', error);
+      });
+    }
+  });
+}
+
+/**
+ * Gets imported rule packs from storage
+ */
+export async function getStoredRulePacks(): Promise<StoredRulePack[]> {
+  const result = await chrome.storage.local.get(STORAGE_KEYS.RULE_PACKS);
+  return result[STORAGE_KEYS.RULE_PACKS] || [];
+}
+
+/**
+ * Saves imported rule packs to storage
+ */
+export async function saveStoredRulePacks(packs: StoredRulePack[]): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEYS.RULE_PACKS]: packs });
+}
+
+/**
+ * Validates an unknown value against the rule pack format
+ */
+export function validateRulePack(input: unknown): RulePackValidation {
+  const errors: string[] = [];
+
+  if (!isObject(input)) {
+    return { valid: false, errors: ['Rule pack must be an object'] };
+  }
+
+  for (const field of ['id', 'name', 'version'] as const) {
+    if (typeof input[field] !== 'string' || !(input[field] as string).trim()) {
+      errors.push(`"${field}" must be a non-empty string`);
+    }
+  }
+
+  if (!Array.isArray(input.rules) || input.rules.length === 0) {
+    errors.push('"rules" must be a non-empty array');
+  } else if (input.rules.length > MAX_RULES_PER_PACK) {
+    errors.push(`"rules" cannot have more than ${MAX_RULES_PER_PACK} entries`);
+  } else {
+    input.rules.forEach((rule, index) => validateRule(rule, `rules[${index}]`, errors));
+  }
+
+  if (input.redFlags !== undefined) {
+    if (!Array.isArray(input.redFlags)) {
+      errors.push('"redFlags" must be an array');
+    } else {
+      input.redFlags.forEach((pattern, index) => validatePattern(pattern, `redFlags[${index}]`, errors));
+    }
+  }
+
+  if (input.combinations !== undefined) {
+    if (!Array.isArray(input.combinations)) {
+      errors.push('"combinations" must be an array');
+    } else {
+      input.combinations.forEach((combo, index) => validateCombination(combo, `combinations[${index}]`, errors));
+    }
+  }
+
+  return errors.length > 0
+    ? { valid: false, errors }
+    : { valid: true, pack: input as unknown as RulePack };
+}
+
+/**
+ * Compiles rule packs into a single rule set
+ */
+export function compileRulePacks(packs: RulePack[]): CompiledRuleSet {
+  const ruleSet: CompiledRuleSet = { rules: [], redFlags: [], combinations: [] };
+
+  for (const pack of packs) {
+    for (const rule of pack.rules) {
+      ruleSet.rules.push(compileRule(rule, pack.id));
+    }
+
+    for (const pattern of pack.redFlags || []) {
+      ruleSet.redFlags.push(toRegExp(pattern));
+    }
+
+    ruleSet.combinations.push(...(pack.combinations || []));
+  }
+
+  return ruleSet;
+}
+
+/**
+ * Fills a summary template's {label}, {match} and {section} placeholders
+ */
+export function renderSummaryTemplate(
+  template: string,
+  values: { label: string; match: string; section?: string }
+): string {
+  return template
+    .replace(/\{label\}/g, values.label)
+    .replace(/\{match\}/g, values.match)
+    .replace(/\{section\}/g, values.section || 'this agreement');
+}
+
+/**
+ * Compiles a single rule
+ */
+function compileRule(rule: RulePackRule, packId: string): CompiledRule {
+  return {
+    id: rule.id,
+    packId,
+    category: rule.category,
+    title: rule.title,
+    severity: rule.severity,
+    patterns: rule.patterns.map(compilePattern),
+    proximity: rule.proximity
+      ? { patterns: rule.proximity.patterns.map(compilePattern), within: rule.proximity.within }
+      : undefined,
+    severityModifiers: (rule.severityModifiers || []).map(modifier => ({
+      pattern: compilePattern(modifier.pattern),
+      adjust: modifier.adjust,
+    })),
+    summary: rule.summary,
+  };
+}
+
+/**
+ * Compiles a phrase or regex pattern into a matcher
+ */
+function compilePattern(pattern: RulePackPattern): CompiledPattern {
+  if (typeof pattern === 'string') {
+    const phrase = pattern.toLowerCase();
+    return {
+      source: pattern,
+      find(text: string) {
+        const index = text.toLowerCase().indexOf(phrase);
+        return index === -1 ? null : { index, length: phrase.length };
+      },
+    };
+  }
+
+  const regex = toRegExp(pattern);
+  return {
+    source: pattern,
+    find(text: string) {
+      const match = regex.exec(text);
+      return match ? { index: match.index, length: match[0].length } : null;
+    },
+  };
+}
+
+/**
+ * Converts a pattern to a case-insensitive regular expression
+ */
+function toRegExp(pattern: RulePackPattern): RegExp {
+  if (typeof pattern === 'string') {
+    return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+  }
+  const flags = (pattern.flags || 'i').replace(/[gy]/g, '');
+  return new RegExp(pattern.regex, flags);
+}
+
+/**
+ * Validates a single rule
+ */
+function validateRule(rule: unknown, path: string, errors: string[]): void {
+  if (!isObject(rule)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+
+  if (typeof rule.id !== 'string' || !rule.id) {
+    errors.push(`${path}.id must be a non-empty string`);
+  }
+
+  if (!isRiskCategory(rule.category)) {
+    errors.push(`${path}.category must be one of: ${Object.keys(RISK_CATEGORIES).join(', ')}`);
+  }
+
+  if (!Array.isArray(rule.patterns) || rule.patterns.length === 0) {
+    errors.push(`${path}.patterns must be a non-empty array`);
+  } else {
+    rule.patterns.forEach((pattern, index) => validatePattern(pattern, `${path}.patterns[${index}]`, errors));
+  }
+
+  if (rule.severity !== undefined && !VALID_SEVERITIES.includes(rule.severity as RiskSeverity)) {
+    errors.push(`${path}.severity must be one of: ${VALID_SEVERITIES.join(', ')}`);
+  }
+
+  if (rule.title !== undefined && typeof rule.title !== 'string') {
+    errors.push(`${path}.title must be a string`);
+  }
+
+  if (rule.summary !== undefined && typeof rule.summary !== 'string') {
+    errors.push(`${path}.summary must be a string`);
+  }
+
+  if (rule.proximity !== undefined) {
+    const proximity = rule.proximity;
+    if (!isObject(proximity) || !Array.isArray(proximity.patterns) || proximity.patterns.length === 0) {
+      errors.push(`${path}.proximity.patterns must be a non-empty array`);
+    } else {
+      proximity.patterns.forEach((pattern, index) =>
+        validatePattern(pattern, `${path}.proximity.patterns[${index}]`, errors)
+      );
+      if (typeof proximity.within !== 'number' || proximity.within <= 0) {
+        errors.push(`${path}.proximity.within must be a positive number`);
+      }
+    }
+  }
+
+  if (rule.severityModifiers !== undefined) {
+    if (!Array.isArray(rule.severityModifiers)) {
+      errors.push(`${path}.severityModifiers must be an array`);
+    } else {
+      rule.severityModifiers.forEach((modifier, index) => {
+        const modifierPath = `${path}.severityModifiers[${index}]`;
+        if (!isObject(modifier)) {
+          errors.push(`${modifierPath} must be an object`);
+          return;
+        }
+        validatePattern(modifier.pattern, `${modifierPath}.pattern`, errors);
+        if (typeof modifier.adjust !== 'number' || !Number.isInteger(modifier.adjust)) {
+          errors.push(`${modifierPath}.adjust must be a whole number`);
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Validates a phrase or regex pattern
+ */
+function validatePattern(pattern: unknown, path: string, errors: string[]): void {
+  if (typeof pattern === 'string') {
+    if (!pattern.trim()) errors.push(`${path} must not be empty`);
+    else if (pattern.length > MAX_PATTERN_LENGTH) errors.push(`${path} is longer than ${MAX_PATTERN_LENGTH} characters`);
+    return;
+  }
+
+  if (!isObject(pattern) || typeof pattern.regex !== 'string') {
+    errors.push(`${path} must be a phrase or { "regex": "..." }`);
+    return;
+  }
+
+  if (pattern.regex.length > MAX_PATTERN_LENGTH) {
+    errors.push(`${path}.regex is longer than ${MAX_PATTERN_LENGTH} characters`);
+    return;
+  }
+
+  if (pattern.flags !== undefined && (typeof pattern.flags !== 'string' || !/^[imsu]*$/.test(pattern.flags))) {
+    errors.push(`${path}.flags may only contain i, m, s and u`);
+    return;
+  }
+
+  try {
+    new RegExp(pattern.regex, (pattern.flags as string | undefined) || 'i');
+  } catch (error) {
+    errors.push(`${path}.regex is invalid: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Validates a combination rule
+ */
+function validateCombination(combo: unknown, path: string, errors: string[]): void {
+  if (!isObject(combo)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+
+  if (!Array.isArray(combo.categories) || combo.categories.length < 2 ||
+      !combo.categories.every(isRiskCategory)) {
+    errors.push(`${path}.categories must list at least two valid categories`);
+  }
+
+  if (typeof combo.severityBoost !== 'number') {
+    errors.push(`${path}.severityBoost must be a number`);
+  }
+
+  if (typeof combo.warning !== 'string' || !combo.warning) {
+    errors.push(`${path}.warning must be a non-empty string`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks a category name against the known categories, ignoring names
+ * inherited from Object.prototype such as "toString"
+ */
+function isRiskCategory(value: unknown): value is RiskCategory {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(RISK_CATEGORIES, value);
+}
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getSitePolicies, getSitePoliciesFor, removeSitePolicy, saveSitePolicy, shouldWarn } from './site-policies';
+import { SitePolicy, SitePolicyMode, STORAGE_KEYS } from '../shared/types';
+
+let storage: Record<string, unknown> = {};
+
+function policy(hostname: string, agreementHash: string, mode: SitePolicyMode, acceptedAt = 1): SitePolicy {
+  return { hostname, agreementHash, mode, acceptedAt, url: `https://${hostname}/signup` };
+}
+
+describe('site policies', () => {
+  beforeEach(() => {
+    storage = {};
+    vi.stubGlobal('chrome', {
+      storage: {
+        local: {
+          get: async (key: string) => ({ [key]: storage[key] }),
+          set: async (items: Record<string, unknown>) => Object.assign(storage, items),
+        },
+      },
+    });
+  });
+
+  it('remembers each accepted version of a site\'s agreement separately', async () => {
+    await saveSitePolicy(policy('example.com', 'v1', 'if_changed', 1));
+    await saveSitePolicy(policy('example.com', 'v2', 'always', 2));
+    await saveSitePolicy(policy('other.example', 'v1', 'never', 3));
+
+    expect((await getSitePoliciesFor('example.com')).map(p => p.agreementHash)).toEqual(['v2', 'v1']);
+
+    await removeSitePolicy({ hostname: 'example.com', agreementHash: 'v2' });
+    expect((await getSitePoliciesFor('example.com')).map(p => p.agreementHash)).toEqual(['v1']);
+    expect(await getSitePoliciesFor('other.example')).toHaveLength(1);
+  });
+
+  it('reads policies stored by hostname alone', async () => {
+    storage[STORAGE_KEYS.SITE_POLICIES] = { 'example.com': policy('example.com', 'v1', 'if_changed') };
+
+    await saveSitePolicy(policy('example.com', 'v2', 'if_changed', 2));
+
+    expect((await getSitePolicies()).map(p => p.agreementHash)).toEqual(['v2', 'v1']);
+    expect(Object.keys(storage[STORAGE_KEYS.SITE_POLICIES] as object)).toEqual(['example.com|v1', 'example.com|v2']);
+  });
+
+  it('keeps only the most recent versions of a site\'s agreement', async () => {
+    for (let version = 1; version <= 12; version++) {
+      await saveSitePolicy(policy('example.com', `v${version}`, 'if_changed', version));
+    }
+
+    const remembered = await getSitePoliciesFor('example.com');
+    expect(remembered).toHaveLength(10);
+    expect(remembered[remembered.length - 1].agreementHash).toBe('v3');
+  });
+
+  describe('shouldWarn', () => {
+    it('skips only the accepted terms when warning if they change', () => {
+      const policies = [policy('example.com', 'v1', 'if_changed')];
+
+      expect(shouldWarn(policies, 'v1')).toBe(false);
+      expect(shouldWarn(policies, 'v2')).toBe(true);
+    });
+
+    it('warns about terms accepted with "always warn"', () => {
+      expect(shouldWarn([policy('example.com', 'v1', 'always')], 'v1')).toBe(true);
+    });
+
+    it('never warns on a site the user muted, whatever its terms', () => {
+      const policies = [policy('example.com', 'v2', 'always', 2), policy('example.com', 'v1', 'never', 1)];
+
+      expect(shouldWarn(policies, 'v3')).toBe(false);
+    });
+
+    it('warns on sites without a policy', () => {
+      expect(shouldWarn([], 'v1')).toBe(true);
+    });
+  });
+});
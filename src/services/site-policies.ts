@@ -0,0 +1,88 @@
+/**
+ * Site Policies
+ * Remembers what the user decided after accepting a site's agreement from
+ * the before-you-sign check, keyed by hostname and agreement hash
+ */
+
+import { SitePolicy, STORAGE_KEYS } from '../shared/types';
+
+// Versions of a site's agreement remembered before the oldest is dropped
+const MAX_POLICIES_PER_SITE = 10;
+
+/**
+ * Builds the storage key of a policy
+ */
+function policyKey({ hostname, agreementHash }: Pick<SitePolicy, 'hostname' | 'agreementHash'>): string {
+  return `${hostname}|${agreementHash}`;
+}
+
+/**
+ * Reads stored policies, keyed by hostname and agreement hash
+ * Policies saved when they were keyed by hostname alone are re-keyed as they're read
+ */
+async function readSitePolicies(): Promise<Record<string, SitePolicy>> {
+  const result = await chrome.storage.local.get(STORAGE_KEYS.SITE_POLICIES);
+  const stored: Record<string, SitePolicy> = result[STORAGE_KEYS.SITE_POLICIES] || {};
+  return Object.fromEntries(Object.values(stored).map(policy => [policyKey(policy), policy]));
+}
+
+/**
+ * Gets every remembered site policy, most recent first
+ */
+export async function getSitePolicies(): Promise<SitePolicy[]> {
+  const policies = await readSitePolicies();
+  return Object.values(policies).sort((a, b) => b.acceptedAt - a.acceptedAt);
+}
+
+/**
+ * Gets the remembered policies for a site, one per accepted agreement, most recent first
+ */
+export async function getSitePoliciesFor(hostname: string): Promise<SitePolicy[]> {
+  const policies = await getSitePolicies();
+  return policies.filter(policy => policy.hostname === hostname);
+}
+
+/**
+ * Saves a site's policy, replacing any earlier decision about the same agreement
+ */
+export async function saveSitePolicy(policy: SitePolicy): Promise<void> {
+  const policies = await readSitePolicies();
+  policies[policyKey(policy)] = policy;
+
+  const forSite = Object.values(policies)
+    .filter(entry => entry.hostname === policy.hostname)
+    .sort((a, b) => b.acceptedAt - a.acceptedAt);
+  for (const stale of forSite.slice(MAX_POLICIES_PER_SITE)) {
+    delete policies[policyKey(stale)];
+  }
+
+  await chrome.storage.local.set({ [STORAGE_KEYS.SITE_POLICIES]: policies });
+}
+
+/**
+ * Forgets a decision about one of a site's agreements, so it's checked again
+ */
+export async function removeSitePolicy(policy: Pick<SitePolicy, 'hostname' | 'agreementHash'>): Promise<void> {
+  const policies = await readSitePolicies();
+  delete policies[policyKey(policy)];
+  await chrome.storage.local.set({ [STORAGE_KEYS.SITE_POLICIES]: policies });
+}
+
+/**
+ * Whether the user chose never to be warned on a site, given its policies
+ */
+export function isSiteMuted(policies: SitePolicy[]): boolean {
+  return policies.some(policy => policy.mode === 'never');
+}
+
+/**
+ * Whether the before-you-sign check should still warn about an agreement,
+ * given the site's remembered policies
+ */
+export function shouldWarn(policies: SitePolicy[], agreementHash: string): boolean {
+  if (isSiteMuted(policies)) return false;
+
+  // "Warn if terms change" only covers the exact text that was accepted
+  const accepted = policies.find(policy => policy.agreementHash === agreementHash);
+  return accepted?.mode !== 'if_changed';
+}
@@ -0,0 +1,30 @@
+/**
+ * Storage Updates
+ * Serializes read-modify-write updates of a chrome.storage.local key, so
+ * concurrent updates from the same script don't overwrite each other
+ */
+
+// Latest queued update per key; each update starts once the one before it settles
+const queues = new Map<string, Promise<void>>();
+
+/**
+ * Reads a stored value, changes it and writes it back, after earlier
+ * updates of the same key from this script have finished
+ */
+export function updateStorage<T>(key: string, update: (value: T | undefined) => T): Promise<void> {
+  const run = async () => {
+    const result = await chrome.storage.local.get(key);
+    await chrome.storage.local.set({ [key]: update(result[key]) });
+  };
+
+  const next = (queues.get(key) ?? Promise.resolve()).then(run);
+
+  // A failed update doesn't hold up the ones queued after it
+  const settled = next.catch(() => undefined);
+  queues.set(key, settled);
+  settled.then(() => {
+    if (queues.get(key) === settled) queues.delete(key);
+  });
+
+  return next;
+}
@@ -0,0 +1,53 @@
+/**
+ * Scan Usage
+ * Tracks how many scans the user has run this month
+ */
+
+import { UsageData, STORAGE_KEYS } from '../shared/types';
+import { DEFAULT_USAGE } from '../shared/constants';
+
+/**
+ * Gets current usage data from storage
+ */
+export async function getUsage(): Promise<UsageData> {
+  return new Promise((resolve) => {
+    chrome.storage.local.get(STORAGE_KEYS.USAGE, (result) => {
+      const usage = result[STORAGE_KEYS.USAGE] || DEFAULT_USAGE;
+
+      // Check if we need to reset for new month
+      const now = Date.now();
+      const monthStart = new Date(usage.monthStart);
+      const currentMonth = new Date(now);
+
+      if (monthStart.getMonth() !== currentMonth.getMonth() ||
+          monthStart.getFullYear() !== currentMonth.getFullYear()) {
+        // Reset for new month
+        const resetUsage: UsageData = {
+          ...usage,
+          scansThisMonth: 0,
+          monthStart: now,
+        };
+        chrome.storage.local.set({ [STORAGE_KEYS.USAGE]: resetUsage });
+        resolve(resetUsage);
+      } else {
+        resolve(usage);
+      }
+    });
+  });
+}
+
+/**
+ * Increments the scan counter
+ */
+export async function incrementUsage(): Promise<void> {
+  const usage = await getUsage();
+
+  const newUsage: UsageData = {
+    ...usage,
+    scansThisMonth: usage.scansThisMonth + 1,
+  };
+
+  return new Promise((resolve) => {
+    chrome.storage.local.set({ [STORAGE_KEYS.USAGE]: newUsage }, resolve);
+  });
+}
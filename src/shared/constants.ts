@@ -1,4 +1,4 @@
-import { RiskCategory, RiskSeverity, Settings, UsageData } from './types';
+import { RiskCategory, RiskSeverity, RiskAgreement, ProtectionCategory, Industry, Settings, SitePolicyMode, UsageData } from './types';
 
 // API Configuration
 export const API_URL = 'https://protectyaneck-production.up.railway.app';
@@ -16,6 +16,25 @@ export const DEFAULT_SETTINGS: Settings = {
   whitelist: [],
 };
 
+// Trigger score at which the before-you-sign check steps in
+export const DEFAULT_INTERCEPT_THRESHOLD = 0.5;
+
+// Sensitivity choices for the before-you-sign check, offered in settings
+export const INTERCEPT_SENSITIVITIES: Array<{ label: string; threshold: number }> = [
+  { label: 'Only Clear Agreements', threshold: 0.7 },
+  { label: 'Balanced', threshold: DEFAULT_INTERCEPT_THRESHOLD },
+  { label: 'Catch Everything', threshold: 0.3 },
+];
+
+// What the before-you-sign check offers to remember after an agreement is accepted
+export const SITE_POLICY_MODES: Record<SitePolicyMode, { label: string; description: string }> = {
+  always: { label: 'Always warn', description: 'Warn on every visit' },
+  if_changed: { label: 'Warn if terms change', description: 'Warn only when the agreement text changes' },
+  never: { label: 'Never warn', description: "Don't warn on this site again" },
+};
+
+export const DEFAULT_SITE_POLICY_MODE: SitePolicyMode = 'if_changed';
+
 // Default usage data
 export const DEFAULT_USAGE: UsageData = {
   scansThisMonth: 0,
@@ -29,57 +48,200 @@ export const RISK_CATEGORIES: Record<RiskCategory, {
   description: string;
   defaultSeverity: RiskSeverity;
   icon: string;
+  color: string;
 }> = {
   data_sharing: {
     label: 'Data Sharing',
     description: 'Your data may be shared with third parties',
     defaultSeverity: 'high',
     icon: '📤',
+    color: '#8b5cf6',
   },
   auto_renewal: {
     label: 'Auto-Renewal',
     description: 'Subscription automatically renews',
     defaultSeverity: 'medium',
     icon: '🔄',
+    color: '#0ea5e9',
   },
   third_party_access: {
     label: 'Third-Party Access',
     description: 'External parties can access your information',
     defaultSeverity: 'high',
     icon: '👥',
+    color: '#6366f1',
   },
   liability_waiver: {
     label: 'Liability Waiver',
     description: 'Company limits their responsibility',
     defaultSeverity: 'high',
     icon: '⚠️',
+    color: '#f97316',
   },
   arbitration: {
     label: 'Arbitration Clause',
     description: 'You may waive your right to sue in court',
     defaultSeverity: 'critical',
     icon: '⚖️',
+    color: '#ef4444',
   },
   data_retention: {
     label: 'Data Retention',
     description: 'Your data may be kept indefinitely',
     defaultSeverity: 'medium',
     icon: '💾',
+    color: '#64748b',
   },
   account_termination: {
     label: 'Account Termination',
     description: 'Account can be terminated without notice',
     defaultSeverity: 'medium',
     icon: '🚫',
+    color: '#e11d48',
   },
   jurisdiction: {
     label: 'Jurisdiction',
     description: 'Legal disputes governed by specific laws',
     defaultSeverity: 'low',
     icon: '🌍',
+    color: '#14b8a6',
+  },
+  unilateral_changes: {
+    label: 'Unilateral Changes',
+    description: 'Terms can be changed without your agreement',
+    defaultSeverity: 'medium',
+    icon: '✏️',
+    color: '#a855f7',
+  },
+  content_license: {
+    label: 'Content License',
+    description: 'They get broad rights to content you upload',
+    defaultSeverity: 'high',
+    icon: '©️',
+    color: '#d946ef',
+  },
+  indemnification: {
+    label: 'Indemnification',
+    description: 'You may have to pay their legal costs',
+    defaultSeverity: 'high',
+    icon: '🛡️',
+    color: '#dc2626',
+  },
+  biometric_data: {
+    label: 'Biometric Data',
+    description: 'Face, voice or fingerprint data may be collected',
+    defaultSeverity: 'high',
+    icon: '🧬',
+    color: '#db2777',
+  },
+  location_tracking: {
+    label: 'Location Tracking',
+    description: 'Your location may be tracked',
+    defaultSeverity: 'medium',
+    icon: '📍',
+    color: '#059669',
+  },
+  price_changes: {
+    label: 'Price Changes',
+    description: 'Prices can go up during your subscription',
+    defaultSeverity: 'medium',
+    icon: '💲',
+    color: '#ca8a04',
+  },
+  no_refunds: {
+    label: 'No Refunds',
+    description: 'Payments are non-refundable',
+    defaultSeverity: 'medium',
+    icon: '💸',
+    color: '#ea580c',
+  },
+  ai_training: {
+    label: 'AI Training',
+    description: 'Your content may be used to train AI models',
+    defaultSeverity: 'high',
+    icon: '🤖',
+    color: '#2563eb',
   },
 };
 
+// Industry metadata
+export const INDUSTRIES: Record<Industry, { label: string }> = {
+  social_media: { label: 'social media' },
+  ecommerce: { label: 'online shopping' },
+  saas: { label: 'software' },
+  finance: { label: 'financial' },
+  healthcare: { label: 'health' },
+  streaming: { label: 'streaming' },
+  gaming: { label: 'gaming' },
+  default: { label: 'online' },
+};
+
+// Protection category metadata
+export const PROTECTION_CATEGORIES: Record<ProtectionCategory, {
+  label: string;
+  description: string;
+  scoreOffset: number; // Points removed from the risk score
+  icon: string;
+}> = {
+  arbitration_opt_out: {
+    label: 'Arbitration Opt-Out',
+    description: 'You can opt out of mandatory arbitration',
+    scoreOffset: 10,
+    icon: '🚪',
+  },
+  small_claims: {
+    label: 'Small Claims Court',
+    description: 'You can still take disputes to small claims court',
+    scoreOffset: 4,
+    icon: '🏛️',
+  },
+  data_deletion: {
+    label: 'Data Deletion Right',
+    description: 'You can ask for your data to be deleted',
+    scoreOffset: 6,
+    icon: '🗑️',
+  },
+  data_access: {
+    label: 'Data Access Right',
+    description: 'You can get a copy of your data',
+    scoreOffset: 4,
+    icon: '📥',
+  },
+  no_data_sale: {
+    label: 'No Data Sale',
+    description: 'Your data is not sold',
+    scoreOffset: 6,
+    icon: '🔒',
+  },
+  prorated_refund: {
+    label: 'Refunds',
+    description: 'Unused time or recent purchases can be refunded',
+    scoreOffset: 5,
+    icon: '💵',
+  },
+  easy_cancellation: {
+    label: 'Cancel Anytime',
+    description: 'You can cancel whenever you want',
+    scoreOffset: 4,
+    icon: '✋',
+  },
+  termination_notice: {
+    label: 'Notice Before Termination',
+    description: 'You are warned before your account is closed',
+    scoreOffset: 4,
+    icon: '🔔',
+  },
+  change_notice: {
+    label: 'Notice of Changes',
+    description: 'You are told before the terms change',
+    scoreOffset: 3,
+    icon: '📝',
+  },
+};
+
+// Color used for protections
+export const PROTECTION_COLOR = '#16a34a';
+
 // Severity colors
 export const SEVERITY_COLORS: Record<RiskSeverity, string> = {
   low: '#22c55e',      // green
@@ -88,6 +250,14 @@ export const SEVERITY_COLORS: Record<RiskSeverity, string> = {
   critical: '#ef4444', // red
 };
 
+// Labels for how AI analysis relates to each finding
+export const RISK_AGREEMENT_LABELS: Record<RiskAgreement, string> = {
+  pending: 'AI review pending',
+  confirmed: 'Confirmed by AI',
+  disputed: 'Not flagged by AI',
+  llm_only: 'Found by AI',
+};
+
 // Agreement detection patterns
 export const AGREEMENT_PATTERNS = {
   urlPatterns: [
@@ -117,72 +287,45 @@ export const AGREEMENT_PATTERNS = {
   ],
 };
 
-// Risk detection keywords
-export const RISK_KEYWORDS: Record<RiskCategory, string[]> = {
-  data_sharing: [
-    'share with third parties',
-    'share your information',
-    'disclose to partners',
-    'sell your data',
-    'transfer your information',
-    'share with affiliates',
-    'provide to advertisers',
+// Protection detection patterns
+export const PROTECTION_PATTERNS: Record<ProtectionCategory, RegExp[]> = {
+  arbitration_opt_out: [
+    /opt[\s-]?out of (?:this |the )?(?:agreement to )?arbitrat/i,
+    /\d+\s*days? (?:to|in which to) (?:opt[\s-]?out|reject)/i,
+    /reject (?:this |the )?arbitration/i,
+  ],
+  small_claims: [
+    /small[\s-]claims court/i,
   ],
-  auto_renewal: [
-    'automatically renew',
-    'auto-renewal',
-    'recurring billing',
-    'subscription will renew',
-    'cancel before',
-    'billing cycle',
-    'charged automatically',
+  data_deletion: [
+    /right to (?:request )?(?:the )?(?:deletion|erasure)/i,
+    /(?:request|ask) (?:that we |us to )?(?:delete|erase) (?:your |any )?(?:personal )?(?:data|information)/i,
+    /delete your (?:account and (?:all )?(?:associated )?)?(?:personal )?(?:data|information) at any time/i,
   ],
-  third_party_access: [
-    'service providers',
-    'third-party services',
-    'contractors',
-    'business partners',
-    'access your information',
-    'share with vendors',
+  data_access: [
+    /right to (?:access|obtain a copy|data portability|portability)/i,
+    /(?:request|download|export) a copy of (?:your|the) (?:personal )?(?:data|information)/i,
   ],
-  liability_waiver: [
-    'limitation of liability',
-    'not responsible for',
-    'not liable for',
-    'no warranty',
-    'as is',
-    'disclaim all warranties',
-    'use at your own risk',
+  no_data_sale: [
+    /(?:do|does|will) not (?:and will not )?(?:sell|rent) (?:your )?(?:personal )?(?:data|information)/i,
+    /never (?:sell|rent) (?:your )?(?:personal )?(?:data|information)/i,
   ],
-  arbitration: [
-    'binding arbitration',
-    'waive right to jury',
-    'class action waiver',
-    'arbitration agreement',
-    'dispute resolution',
-    'waive your right to participate in class action',
+  prorated_refund: [
+    /pro[\s-]?rat(?:ed|a) refund/i,
+    /refund (?:of )?(?:the |any )?(?:unused|remaining) (?:portion|time|balance)/i,
+    /full refund (?:within|if you cancel within) \d+ days/i,
+    /money[\s-]back guarantee/i,
   ],
-  data_retention: [
-    'retain your data',
-    'keep your information',
-    'store indefinitely',
-    'retain after termination',
-    'data retention period',
-    'preserve your data',
+  easy_cancellation: [
+    /you (?:may|can) cancel (?:your (?:subscription|account|membership) )?(?:at )?any ?time/i,
+    /cancel (?:online|with one click|from your account settings)/i,
   ],
-  account_termination: [
-    'terminate at any time',
-    'suspend your account',
-    'without notice',
-    'sole discretion',
-    'terminate without cause',
-    'revoke access',
+  termination_notice: [
+    /(?:\d+|reasonable) days'? (?:prior |advance )?(?:written )?notice (?:before|of|prior to) (?:any )?(?:termination|suspension)/i,
+    /notify you (?:in advance |before |prior to )(?:we )?(?:terminat|suspend|clos)/i,
   ],
-  jurisdiction: [
-    'governed by the laws of',
-    'exclusive jurisdiction',
-    'venue shall be',
-    'subject to the laws',
-    'courts of',
+  change_notice: [
+    /notify you (?:of|about|before) (?:any )?material changes/i,
+    /(?:\d+|reasonable) days'? (?:prior |advance )?notice (?:of|before) (?:any )?(?:material )?changes/i,
   ],
 };
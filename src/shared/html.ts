@@ -0,0 +1,12 @@
+/**
+ * Escapes text taken from the page, an agreement or an analysis before it
+ * goes into markup
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,167 @@
+import { Jurisdiction, RiskCategory } from './types';
+
+// How a region's consumer law changes the weight of a clause
+export interface JurisdictionAdjustment {
+  adjust: number; // Severity steps, negative when local law protects you
+  unenforceable?: boolean;
+  note: string;
+}
+
+// Jurisdiction metadata
+export const JURISDICTIONS: Record<Jurisdiction, { label: string }> = {
+  US: { label: 'United States (other states)' },
+  'US-CA': { label: 'United States – California' },
+  'US-IL': { label: 'United States – Illinois' },
+  'US-NY': { label: 'United States – New York' },
+  EU: { label: 'European Union' },
+  UK: { label: 'United Kingdom' },
+  CA: { label: 'Canada' },
+  AU: { label: 'Australia' },
+  OTHER: { label: 'Other / not listed' },
+};
+
+// EU and EEA country codes that share consumer protection rules
+const EU_REGIONS = [
+  'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE',
+  'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE',
+  'IS', 'LI', 'NO',
+];
+
+// Languages mostly spoken inside the EU, for locales without a region
+const EU_LANGUAGES = [
+  'bg', 'cs', 'da', 'de', 'el', 'et', 'fi', 'ga', 'hr', 'hu', 'it', 'lt', 'lv',
+  'mt', 'nl', 'pl', 'pt', 'ro', 'sk', 'sl', 'sv',
+];
+
+// Region-specific adjustments, applied on top of the analyzer's severity
+export const JURISDICTION_RULES: Record<Jurisdiction, Partial<Record<RiskCategory, JurisdictionAdjustment>>> = {
+  US: {},
+  'US-CA': {
+    auto_renewal: {
+      adjust: -1,
+      note: 'California\'s Automatic Renewal Law requires clear renewal terms and an easy way to cancel online.',
+    },
+    data_sharing: {
+      adjust: 0,
+      note: 'Under the CCPA/CPRA you can tell them not to sell or share your personal information.',
+    },
+  },
+  'US-IL': {
+    biometric_data: {
+      adjust: 0,
+      note: 'Illinois\' Biometric Information Privacy Act requires your written consent, and you can sue if it is violated.',
+    },
+  },
+  'US-NY': {
+    auto_renewal: {
+      adjust: -1,
+      note: 'New York requires clear notice of automatic renewal terms and a simple way to cancel.',
+    },
+  },
+  EU: {
+    arbitration: {
+      adjust: -2,
+      unenforceable: true,
+      note: 'Mandatory arbitration for consumers is generally treated as an unfair term in the EU, so you can usually still go to court.',
+    },
+    jurisdiction: {
+      adjust: -1,
+      unenforceable: true,
+      note: 'EU consumers can usually sue in the courts of their home country whatever this clause says.',
+    },
+    liability_waiver: {
+      adjust: -1,
+      note: 'EU law does not let companies exclude liability for injury, gross negligence or faulty goods.',
+    },
+    no_refunds: {
+      adjust: -1,
+      note: 'Most online purchases in the EU come with a 14-day right of withdrawal.',
+    },
+    data_retention: {
+      adjust: -1,
+      note: 'The GDPR limits how long data can be kept and lets you ask for it to be erased.',
+    },
+    data_sharing: {
+      adjust: 0,
+      note: 'The GDPR requires a legal basis for sharing and lets you object to it.',
+    },
+    biometric_data: {
+      adjust: 0,
+      note: 'Biometric data is special-category data under the GDPR and needs your explicit consent.',
+    },
+    ai_training: {
+      adjust: 0,
+      note: 'Under the GDPR you can object to your personal data being used to train AI models.',
+    },
+  },
+  UK: {
+    arbitration: {
+      adjust: -1,
+      note: 'In the UK, arbitration clauses are unfair for consumer claims under £5,000, which can go to small claims court.',
+    },
+    jurisdiction: {
+      adjust: -1,
+      unenforceable: true,
+      note: 'UK consumers can usually bring claims in their local courts whatever this clause says.',
+    },
+    liability_waiver: {
+      adjust: -1,
+      note: 'The Consumer Rights Act 2015 stops companies excluding some liability to consumers.',
+    },
+    no_refunds: {
+      adjust: -1,
+      note: 'Most online purchases in the UK come with a 14-day cancellation period.',
+    },
+    data_retention: {
+      adjust: -1,
+      note: 'The UK GDPR limits how long data can be kept and lets you ask for it to be erased.',
+    },
+  },
+  CA: {
+    arbitration: {
+      adjust: -1,
+      note: 'Mandatory consumer arbitration is likely unenforceable in Quebec and Ontario.',
+    },
+  },
+  AU: {
+    no_refunds: {
+      adjust: -1,
+      unenforceable: true,
+      note: 'Australian Consumer Law guarantees refunds for faulty goods and services, whatever the terms say.',
+    },
+    unilateral_changes: {
+      adjust: -1,
+      note: 'Terms letting only one side change the contract can be void as unfair contract terms in Australia.',
+    },
+  },
+  OTHER: {},
+};
+
+/**
+ * Guesses the user's jurisdiction from a browser locale like "de-DE" or "en-US"
+ */
+export function detectJurisdictionFromLocale(locale: string | undefined): Jurisdiction {
+  if (!locale) return 'OTHER';
+
+  const [language, ...subtags] = locale.split(/[-_]/);
+  const region = subtags.find(tag => /^[a-z]{2}$/i.test(tag))?.toUpperCase();
+
+  if (region) {
+    if (region === 'US') return 'US';
+    if (region === 'GB') return 'UK';
+    if (region === 'CA') return 'CA';
+    if (region === 'AU') return 'AU';
+    if (EU_REGIONS.includes(region)) return 'EU';
+    return 'OTHER';
+  }
+
+  return EU_LANGUAGES.includes(language.toLowerCase()) ? 'EU' : 'OTHER';
+}
+
+/**
+ * Resolves the jurisdiction to use, falling back to the browser locale
+ */
+export function resolveJurisdiction(setting: Jurisdiction | undefined): Jurisdiction {
+  if (setting) return setting;
+  return detectJurisdictionFromLocale(typeof navigator !== 'undefined' ? navigator.language : undefined);
+}
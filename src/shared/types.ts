@@ -10,9 +10,30 @@ export type RiskCategory =
   | 'arbitration'
   | 'data_retention'
   | 'account_termination'
-  | 'jurisdiction';
+  | 'jurisdiction'
+  | 'unilateral_changes'
+  | 'content_license'
+  | 'indemnification'
+  | 'biometric_data'
+  | 'location_tracking'
+  | 'price_changes'
+  | 'no_refunds'
+  | 'ai_training';
+
+// Qualifiers that soften a matched clause
+export type RiskQualifier = 'negated' | 'exception' | 'scoped';
 
 // A detected risk item
+// Which analysis found a risk
+export type RiskSource = 'keyword' | 'llm' | 'both';
+
+// How the LLM's findings relate to a keyword hit
+export type RiskAgreement =
+  | 'pending' // LLM analysis still running
+  | 'confirmed' // Found by both keyword matching and the LLM
+  | 'disputed' // Keyword hit the LLM did not flag
+  | 'llm_only'; // Found only by the LLM
+
 export interface RiskItem {
   id: string;
   category: RiskCategory;
@@ -20,9 +41,44 @@ export interface RiskItem {
   title: string;
   summary: string;
   originalText: string;
+  section?: string; // e.g. "14.2 Arbitration"
+  confidence?: number; // 0-1
+  qualifiers?: RiskQualifier[];
+  jurisdictionNote?: string;
+  likelyUnenforceable?: boolean;
+  source?: RiskSource;
+  agreement?: RiskAgreement;
   location?: {
     startIndex: number;
     endIndex: number;
+    page?: number; // For PDF agreements
+  };
+}
+
+// Consumer-friendly clause categories
+export type ProtectionCategory =
+  | 'arbitration_opt_out'
+  | 'small_claims'
+  | 'data_deletion'
+  | 'data_access'
+  | 'no_data_sale'
+  | 'prorated_refund'
+  | 'easy_cancellation'
+  | 'termination_notice'
+  | 'change_notice';
+
+// A detected consumer-friendly clause
+export interface ProtectionItem {
+  id: string;
+  category: ProtectionCategory;
+  title: string;
+  summary: string;
+  originalText: string;
+  section?: string;
+  location?: {
+    startIndex: number;
+    endIndex: number;
+    page?: number; // For PDF agreements
   };
 }
 
@@ -35,6 +91,30 @@ export interface AgreementDetection {
   url: string;
 }
 
+// Service industries used for benchmarking
+export type Industry =
+  | 'social_media'
+  | 'ecommerce'
+  | 'saas'
+  | 'finance'
+  | 'healthcare'
+  | 'streaming'
+  | 'gaming'
+  | 'default';
+
+// Risk score distribution for an industry
+export interface BenchmarkDistribution {
+  count: number;
+  mean: number;
+  percentiles: number[]; // Score at every 5th percentile, 0 through 100
+}
+
+// Benchmarks cached from the backend
+export interface BenchmarkCache {
+  industries: Partial<Record<Industry, BenchmarkDistribution>>;
+  fetchedAt: number;
+}
+
 // Scan result
 export interface ScanResult {
   id: string;
@@ -42,8 +122,51 @@ export interface ScanResult {
   timestamp: number;
   detection: AgreementDetection;
   risks: RiskItem[];
+  protections?: ProtectionItem[];
   overallSeverity: RiskSeverity;
   summary: string;
+  score?: number; // 0-100
+  industry?: Industry;
+  llmStatus?: 'pending' | 'complete' | 'failed' | 'over_budget'; // Unset when no LLM is configured
+  llmUsage?: LLMUsageTotals; // What this scan's AI analysis cost
+  textHash?: string; // Key of the scanned text in the agreement text store
+  documentName?: string; // File name (or "Pasted text") for scans run outside a web page
+  linkedAgreements?: LinkedAgreementResult[]; // Documents linked from a sign-up form, analyzed separately
+  accepted?: AgreementAcceptance; // Set when the user went ahead from the before-you-sign check
+}
+
+// How the before-you-sign check treats a site once its agreement was accepted
+export type SitePolicyMode =
+  | 'always' // Warn on every visit
+  | 'if_changed' // Warn only when the agreement's text changes
+  | 'never'; // Don't warn on this site again
+
+// When and how the user accepted an agreement from the before-you-sign check
+export interface AgreementAcceptance {
+  acceptedAt: number;
+  mode: SitePolicyMode;
+  agreementHash: string; // Hash of the accepted text, across linked documents
+}
+
+// A remembered before-you-sign decision for one version of a site's agreement
+export interface SitePolicy extends AgreementAcceptance {
+  hostname: string;
+  url: string; // Page the agreement was accepted on
+  title?: string;
+}
+
+// An agreement linked from a sign-up form and its findings
+export interface LinkedAgreementResult {
+  url: string;
+  title: string;
+  type: AgreementDetection['type'];
+  risks: RiskItem[];
+  protections: ProtectionItem[];
+  overallSeverity: RiskSeverity;
+  llmStatus?: ScanResult['llmStatus'];
+  llmUsage?: LLMUsageTotals;
+  textHash?: string;
+  error?: string; // Why the document couldn't be analyzed
 }
 
 // User tier
@@ -57,6 +180,18 @@ export interface UsageData {
   licenseKey?: string;
 }
 
+// Legal regions with their own consumer protection rules
+export type Jurisdiction =
+  | 'US'
+  | 'US-CA'
+  | 'US-IL'
+  | 'US-NY'
+  | 'EU'
+  | 'UK'
+  | 'CA'
+  | 'AU'
+  | 'OTHER';
+
 // Extension settings
 export interface Settings {
   enabled: boolean;
@@ -64,6 +199,118 @@ export interface Settings {
   showOverlay: boolean;
   notificationLevel: RiskSeverity;
   whitelist: string[];
+  jurisdiction?: Jurisdiction; // Defaults to the browser locale when unset
+  watchAgreements?: boolean; // Re-check agreed terms for changes; on unless set to false
+  interceptThreshold?: number; // 0-1 score a button needs before the before-you-sign check steps in
+}
+
+// LLM providers that can run the AI analysis
+export type LLMProviderId = 'openai' | 'anthropic' | 'azure_openai' | 'local';
+
+// Connection settings for a single LLM provider
+export interface LLMProviderSettings {
+  apiKey?: string;
+  model?: string;
+  endpoint?: string; // Azure resource URL or local server base URL
+  deployment?: string; // Azure deployment name
+  apiVersion?: string; // Azure API version
+}
+
+// AI analysis settings, stored separately from Settings because they hold API keys
+export interface LLMSettings {
+  provider: LLMProviderId | null; // null disables AI analysis
+  providers: Partial<Record<LLMProviderId, LLMProviderSettings>>;
+  shareAnalyses?: boolean; // Share results for public agreements through the backend cache
+  monthlyBudget?: number; // USD; AI analysis pauses once the month's spend reaches it
+}
+
+// Tokens and cost of LLM requests, for one scan or summed over a period
+export interface LLMUsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // USD
+  scans: number;
+}
+
+// LLM spend history, keyed by "YYYY-MM-DD" and "YYYY-MM"
+export interface LLMUsageHistory {
+  days: Record<string, LLMUsageTotals>;
+  months: Record<string, LLMUsageTotals>;
+}
+
+// Last fetched version of a terms or privacy page being watched for changes
+export interface AgreementVersion {
+  url: string;
+  title?: string;
+  text: string; // Normalized text extracted from the fetched page
+  textHash: string;
+  fetchedAt: number; // When this version was first seen
+  checkedAt: number;
+}
+
+// A risk as it appeared in one version of an agreement
+export type RiskSnapshot = Pick<RiskItem, 'category' | 'severity' | 'title' | 'originalText' | 'section'>;
+
+// What changed between two versions of a watched agreement
+export interface AgreementChange {
+  id: string;
+  url: string;
+  title?: string;
+  detectedAt: number;
+  previousFetchedAt: number;
+  previousTextHash: string;
+  currentTextHash: string;
+  addedClauses: string[];
+  removedClauses: string[];
+  addedRisks: RiskSnapshot[];
+  removedRisks: RiskSnapshot[];
+}
+
+// Rule pack pattern: a plain phrase or a regular expression
+export type RulePackPattern = string | { regex: string; flags?: string };
+
+// A single declarative detection rule
+export interface RulePackRule {
+  id: string;
+  category: RiskCategory;
+  patterns: RulePackPattern[];
+  title?: string;
+  severity?: RiskSeverity; // Overrides the category's default severity
+  // Another pattern that must appear within `within` characters of the match
+  proximity?: {
+    patterns: RulePackPattern[];
+    within: number;
+  };
+  severityModifiers?: Array<{
+    pattern: RulePackPattern;
+    adjust: number; // Severity steps, e.g. 1 or -1
+  }>;
+  summary?: string; // Template supporting {label}, {match} and {section}
+}
+
+// Categories that are more dangerous together
+export interface RulePackCombination {
+  categories: RiskCategory[];
+  severityBoost: number;
+  warning: string;
+}
+
+// A declarative, importable set of detection rules
+export interface RulePack {
+  id: string;
+  name: string;
+  version: string;
+  description?: string;
+  rules: RulePackRule[];
+  redFlags?: RulePackPattern[];
+  combinations?: RulePackCombination[];
+}
+
+// An imported rule pack as kept in storage
+export interface StoredRulePack {
+  pack: RulePack;
+  enabled: boolean;
+  importedAt: number;
 }
 
 // Message types for communication between scripts
@@ -85,4 +332,13 @@ export const STORAGE_KEYS = {
   USAGE: 'pyn_usage',
   SETTINGS: 'pyn_settings',
   SCAN_HISTORY: 'pyn_history',
+  RULE_PACKS: 'pyn_rule_packs',
+  BENCHMARKS: 'pyn_benchmarks',
+  LLM_SETTINGS: 'pyn_llm_settings',
+  ANALYSIS_CACHE: 'pyn_analysis_cache',
+  LLM_USAGE: 'pyn_llm_usage',
+  AGREEMENT_VERSIONS: 'pyn_agreement_versions',
+  AGREEMENT_CHANGES: 'pyn_agreement_changes',
+  AGREEMENT_TEXTS: 'pyn_agreement_texts',
+  SITE_POLICIES: 'pyn_site_policies',
 } as const;
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { isPublicWebUrl } from './urls';
+
+describe('isPublicWebUrl', () => {
+  it.each([
+    'https://example.com/terms',
+    'http://legal.example.co.uk/privacy.pdf',
+    'https://93.184.216.34/terms',
+    'https://[2606:4700::1111]/terms',
+  ])('allows %s', (url) => {
+    expect(isPublicWebUrl(url)).toBe(true);
+  });
+
+  it.each([
+    'file:///etc/passwd',
+    'chrome://settings',
+    'http://localhost:3000/terms',
+    'http://app.localhost/terms',
+    'http://printer.local/',
+    'http://router/admin',
+    'http://127.0.0.1/',
+    'http://2130706433/',
+    'http://0x7f.1/',
+    'http://10.0.0.1/',
+    'http://172.20.1.1/',
+    'http://192.168.1.1/admin',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://100.64.0.1/',
+    'http://0.0.0.0/',
+    'http://[::1]/',
+    'http://[fd00::1]/',
+    'http://[fe80::1]/',
+    'http://[::ffff:192.168.0.1]/',
+    'not a url',
+  ])('rejects %s', (url) => {
+    expect(isPublicWebUrl(url)).toBe(false);
+  });
+});
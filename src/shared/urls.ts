@@ -0,0 +1,59 @@
+/**
+ * Checks a URL taken from a page before the extension fetches it with its
+ * own host permissions: only http(s) links to public hosts are allowed, so a
+ * page can't point the extension at the user's router or local services
+ */
+export function isPublicWebUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return false;
+
+  const hostname = parsed.hostname.toLowerCase().replace(/\.$/, '');
+
+  // Single-label names such as "router" only resolve on the local network
+  if (!hostname.includes('.') && !hostname.startsWith('[')) return false;
+  if (/(^|\.)(localhost|local|internal|lan|home\.arpa)$/.test(hostname)) return false;
+
+  if (hostname.startsWith('[')) return isPublicIPv6(hostname.slice(1, -1));
+
+  // The URL parser turns every IPv4 spelling ("0x7f.1", "2130706433") into dotted form
+  const ipv4 = hostname.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  return ipv4 ? isPublicIPv4(ipv4.slice(1).map(Number)) : true;
+}
+
+/**
+ * Rejects loopback, private, link-local, shared and unspecified IPv4 ranges
+ */
+function isPublicIPv4([a, b]: number[]): boolean {
+  return !(
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224
+  );
+}
+
+/**
+ * Rejects loopback, unique local and link-local IPv6 addresses, and IPv4
+ * addresses written as IPv6
+ */
+function isPublicIPv6(address: string): boolean {
+  if (address === '::' || address === '::1') return false;
+
+  const mapped = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mapped) {
+    const high = parseInt(mapped[1], 16);
+    return isPublicIPv4([high >> 8, high & 0xff]);
+  }
+
+  return !/^(f[cd]|fe[89ab])/.test(address);
+}
@@ -0,0 +1,4 @@
+// The worker bundle ships without type declarations
+declare module 'pdfjs-dist/build/pdf.worker.mjs' {
+  export const WorkerMessageHandler: unknown;
+}
@@ -7,10 +7,14 @@ module.exports = {
     content: './src/content/index.ts',
     popup: './src/popup/index.tsx',
     options: './src/options/index.tsx',
+    diff: './src/diff/index.tsx',
+    analyze: './src/analyze/index.tsx',
+    offscreen: './src/offscreen/index.ts',
   },
   output: {
     path: path.resolve(__dirname, 'dist'),
     filename: '[name].js',
+    chunkFilename: '[name].js',
     clean: true,
   },
   module: {
@@ -38,6 +42,9 @@ module.exports = {
         { from: 'manifest.json', to: 'manifest.json' },
         { from: 'src/popup/popup.html', to: 'popup.html' },
         { from: 'src/options/options.html', to: 'options.html' },
+        { from: 'src/diff/diff.html', to: 'diff.html' },
+        { from: 'src/analyze/analyze.html', to: 'analyze.html' },
+        { from: 'src/offscreen/offscreen.html', to: 'offscreen.html' },
         { from: 'src/content/content.css', to: 'content.css' },
         { from: 'assets/icons', to: 'icons' },
       ],